@@ -18,9 +18,13 @@ export const config: any = {
   paginationDefault: process.env.PAGINATION_DEFAULT || 10,
   sentryDsn: process.env.SENTRY_DSN,
   dashboardUrl: process.env.DASHBOARD_URL,
+  dashboardAssetPath: process.env.DASHBOARD_ASSET_PATH || '/assets',
   gitCommit: process.env.GIT_COMMIT,
   statePath: process.env.STATE_PATH || '/opt/hermes/state.json',
   useStatic: Number.parseInt(process.env.USE_STATIC, 10) || 0,
+  // express 'trust proxy' setting: true, a hop count, or a list of proxy addresses and subnets
+  trustProxy: /^(true|\d+)$/.test(process.env.TRUST_PROXY || '') ?
+    JSON.parse(process.env.TRUST_PROXY) : process.env.TRUST_PROXY,
   db: {
     hosts: process.env.MONGO_HOSTS || 'localhost:27017',
     dbName: process.env.MONGO_DB_NAME || 'hermes',
@@ -34,6 +38,16 @@ export const config: any = {
       process.env.WEB3_NODEPRIVATEKEY ||
       '0xf05f6b45d9b615a21a4445a03d45b087608290cd436d6d836e2344dc7a715346',
   },
+  anchoring: {
+    interval: Number.parseInt(process.env.ANCHORING_INTERVAL, 10) || 60,
+    confirmations: Number.parseInt(process.env.ANCHORING_CONFIRMATIONS, 10) || 12,
+    period: Number.parseInt(process.env.ANCHORING_PERIOD, 10) || 7 * 86400,
+    batchSize: Number.parseInt(process.env.ANCHORING_BATCH_SIZE, 10) || 100,
+  },
+  authSessions: {
+    cacheTtl: Number.parseInt(process.env.AUTH_SESSION_CACHE_TTL, 10) || 30,
+    cacheSize: Number.parseInt(process.env.AUTH_SESSION_CACHE_SIZE, 10) || 10000,
+  },
   logging: {
     level: process.env.LOG_LEVEL || 'debug',
   },
@@ -36,6 +36,12 @@ export const TYPE: any = {
   OrganizationInviteController: Symbol.for('OrganizationInviteController'),
   MobileController: Symbol.for('MobileController'),
   AdminController: Symbol.for('AdminController'),
+  DataTypeSchemaController: Symbol.for('DataTypeSchemaController'),
+  SearchController: Symbol.for('SearchController'),
+  ImportController: Symbol.for('ImportController'),
+  TransferController: Symbol.for('TransferController'),
+  DigitalLinkController: Symbol.for('DigitalLinkController'),
+  ProofController: Symbol.for('ProofController'),
 
   MetricController: Symbol.for('MetricController'),
   HealthController: Symbol.for('HealthController'),
@@ -57,10 +63,32 @@ export const TYPE: any = {
   OrganizationService: Symbol.for('OrganizationService'),
   EmailService: Symbol.for('EmailService'),
   MobileService: Symbol.for('MobileService'),
+  DataTypeSchemaService: Symbol.for('DataTypeSchemaService'),
+  EventStreamService: Symbol.for('EventStreamService'),
+  SearchService: Symbol.for('SearchService'),
+  ExportService: Symbol.for('ExportService'),
+  ImportService: Symbol.for('ImportService'),
+  VerificationService: Symbol.for('VerificationService'),
+  AssetHierarchyService: Symbol.for('AssetHierarchyService'),
+  TransferService: Symbol.for('TransferService'),
+  AssetIdentifierService: Symbol.for('AssetIdentifierService'),
+  AssetStateService: Symbol.for('AssetStateService'),
+  ProofService: Symbol.for('ProofService'),
+  BundlingPolicyService: Symbol.for('BundlingPolicyService'),
+  AnchoringService: Symbol.for('AnchoringService'),
+  ServiceAccountService: Symbol.for('ServiceAccountService'),
+  AuthSessionService: Symbol.for('AuthSessionService'),
+  TokenRevocationService: Symbol.for('TokenRevocationService'),
 
   AccountRepository: Symbol.for('AccountRepository'),
   AccountDetailRepository: Symbol.for('AccountDetailRepository'),
+  AuthSessionRepository: Symbol.for('AuthSessionRepository'),
   AssetRepository: Symbol.for('AssetRepository'),
+  AssetLinkRepository: Symbol.for('AssetLinkRepository'),
+  AssetTransferRepository: Symbol.for('AssetTransferRepository'),
+  AssetIdentifierRepository: Symbol.for('AssetIdentifierRepository'),
+  AssetStateRepository: Symbol.for('AssetStateRepository'),
+  BundlingPolicyRepository: Symbol.for('BundlingPolicyRepository'),
   EventRepository: Symbol.for('EventRepository'),
   BundleRepository: Symbol.for('BundleRepository'),
   GridRepository: Symbol.for('GridRepository'),
@@ -68,9 +96,13 @@ export const TYPE: any = {
   OrganizationKeysRepository: Symbol.for('OrganizationKeysRepository'),
   OrganizationRequestRepository: Symbol.for('OrganizationRequestRepository'),
   OrganizationInviteRepository: Symbol.for('OrganizationInviteRepository'),
+  ServiceAccountRepository: Symbol.for('ServiceAccountRepository'),
   WorkerLogsRepository: Symbol.for('WorkerLogsRepository'),
   WorkerIntervalsRepository: Symbol.for('WorkerIntervalsRepository'),
   ThrottlingRepository: Symbol.for('ThrottlingRepository'),
+  DataTypeSchemaRepository: Symbol.for('DataTypeSchemaRepository'),
+  ImportTemplateRepository: Symbol.for('ImportTemplateRepository'),
+  ImportBatchRepository: Symbol.for('ImportBatchRepository'),
 
   GraphQLSchema: Symbol.for('GraphQLSchema'),
   GraphQLType: Symbol.for('GraphQLType'),
@@ -19,22 +19,25 @@ import {
   httpGet,
   httpPost,
   requestBody,
+  request,
   requestParam,
   requestHeaders,
 } from 'inversify-express-utils';
 
-import { Permission } from '../constant/';
+import { Authorization, Permission } from '../constant/';
 
 import { MIDDLEWARE, TYPE } from '../constant/types';
 import { ILogger } from '../interface/logger.inferface';
-import { APIQuery, APIResponse } from '../model';
+import { APIQuery, APIResponse, ServiceAccount } from '../model';
 import { Web3Service } from '../service/web3.service';
 import { BaseController } from './base.controller';
-import { authorize } from '../middleware/authorize.middleware';
+import { authorize, authorizeByType } from '../middleware/authorize.middleware';
 import { validate } from '../middleware';
 import { querySchema, utilSchema, accountSchema } from '../validation/schemas';
 import { AccountService } from '../service/account.service';
 import { AuthService } from '../service/auth.service';
+import { ServiceAccountService } from '../service/service-account.service';
+import { AuthSessionService } from '../service/auth-session.service';
 
 import { ValidationError } from '../errors';
 
@@ -49,7 +52,9 @@ export class Account2Controller extends BaseController {
     @inject(TYPE.AccountService) private accountService: AccountService,
     @inject(TYPE.LoggerService) protected logger: ILogger,
     @inject(TYPE.AuthService) private authService: AuthService,
-    @inject(TYPE.Web3Service) private web3Service: Web3Service
+    @inject(TYPE.Web3Service) private web3Service: Web3Service,
+    @inject(TYPE.ServiceAccountService) private serviceAccountService: ServiceAccountService,
+    @inject(TYPE.AuthSessionService) private authSessionService: AuthSessionService
   ) {
     super(logger);
   }
@@ -142,4 +147,105 @@ export class Account2Controller extends BaseController {
 
     return APIResponse.fromSingleResult(result);
   }
+
+  @httpGet(
+    '/service/list',
+    authorize('manage_accounts'),
+    validate(querySchema, { queryParamsOnly: true })
+  )
+  public async getServiceAccounts(req: Request): Promise<APIResponse> {
+    const result = await this.serviceAccountService.getServiceAccounts(APIQuery.fromRequest(req));
+    return APIResponse.fromMongoPagedResult(result);
+  }
+
+  @httpGet(
+    '/service/info/:serviceAccountId',
+    authorize('manage_accounts')
+  )
+  public async getServiceAccount(
+    @requestParam('serviceAccountId') serviceAccountId: string
+  ): Promise<APIResponse> {
+    const result = await this.serviceAccountService.getServiceAccount(serviceAccountId);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpPost(
+    '/service/create',
+    authorize('manage_accounts'),
+    validate(accountSchema.serviceAccountCreate)
+  )
+  public async createServiceAccount(
+    @request() req: Request
+  ): Promise<APIResponse> {
+    const result = await this.serviceAccountService.createServiceAccount(
+      ServiceAccount.fromRequest(req),
+      req.body.permissions,
+      req.body.accessLevel || 0
+    );
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpPost(
+    '/service/rotate/:serviceAccountId',
+    authorize('manage_accounts')
+  )
+  public async rotateServiceAccount(
+    @requestParam('serviceAccountId') serviceAccountId: string
+  ): Promise<APIResponse> {
+    const result = await this.serviceAccountService.rotateServiceAccount(serviceAccountId);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpPost(
+    '/service/revoke/:serviceAccountId',
+    authorize('manage_accounts')
+  )
+  public async revokeServiceAccount(
+    @requestParam('serviceAccountId') serviceAccountId: string
+  ): Promise<APIResponse> {
+    const result = await this.serviceAccountService.revokeServiceAccount(serviceAccountId);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpGet(
+    '/sessions',
+    authorize(),
+    validate(querySchema, { queryParamsOnly: true })
+  )
+  public async getSessions(req: Request): Promise<APIResponse> {
+    const result = await this.authSessionService.getSessions(APIQuery.fromRequest(req));
+    return APIResponse.fromMongoPagedResult(result);
+  }
+
+  @httpPost(
+    '/sessions/revoke/:signature',
+    authorize()
+  )
+  public async revokeSession(
+    @requestParam('signature') signature: string
+  ): Promise<APIResponse> {
+    const revoked = await this.authSessionService.revokeSession(signature);
+    return APIResponse.fromSingleResult({ revoked });
+  }
+
+  @httpPost(
+    '/sessions/revokeAll',
+    authorize()
+  )
+  public async revokeAllSessions(): Promise<APIResponse> {
+    const revoked = await this.authSessionService.revokeAllSessions();
+    return APIResponse.fromSingleResult({ revoked });
+  }
+
+  @httpPost(
+    '/sessions/revokeAll/:address',
+    authorizeByType(Authorization.organization_owner),
+    validate(utilSchema.address, { paramsOnly: true })
+  )
+  public async revokeMemberSessions(
+    @requestParam('address') address: string
+  ): Promise<APIResponse> {
+    const revoked = await this.authSessionService.revokeMemberSessions(address);
+    return APIResponse.fromSingleResult({ revoked });
+  }
 }
@@ -12,20 +12,27 @@
  * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
  */
 
+import { Request } from 'express';
 import { inject } from 'inversify';
 import {
   controller,
   httpGet,
   httpPost,
+  httpPut,
+  request,
   requestBody,
 } from 'inversify-express-utils';
 
 import { MIDDLEWARE, TYPE } from '../constant/types';
-import { APIResponse, ConfigData } from '../model';
+import { APIResponse, BundlingPolicy, ConfigData } from '../model';
 import { ILogger } from '../interface/logger.inferface';
 import { BaseController } from './base.controller';
 import { AdminService } from '../service/admin.service';
+import { AssetStateService } from '../service/asset-state.service';
+import { BundlingPolicyService } from '../service/bundling-policy.service';
 import { authorize } from '../middleware/authorize.middleware';
+import { validate } from '../middleware';
+import { bundleSchema } from '../validation';
 
 @controller(
   '/admin',
@@ -36,6 +43,8 @@ export class AdminController extends BaseController {
 
   constructor(
     @inject(TYPE.AdminService) private adminService: AdminService,
+    @inject(TYPE.AssetStateService) private assetStateService: AssetStateService,
+    @inject(TYPE.BundlingPolicyService) private bundlingPolicyService: BundlingPolicyService,
     @inject(TYPE.LoggerService) protected logger: ILogger
   ) {
     super(logger);
@@ -69,4 +78,44 @@ export class AdminController extends BaseController {
 
     return APIResponse.fromSingleResult('OK');
   }
+
+  @httpPost(
+    '/rebuildstate'
+  )
+  public async rebuildAssetStates(): Promise<APIResponse> {
+    // replaying every asset takes long, the progress goes to the log
+    this.assetStateService.rebuildAllAssetStates().catch(error => this.logger.captureError(error));
+
+    return APIResponse.fromSingleResult('OK');
+  }
+
+  @httpGet(
+    '/bundling'
+  )
+  public async getBundlingPolicy(): Promise<APIResponse> {
+    const result = await this.bundlingPolicyService.getPolicy();
+
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpPut(
+    '/bundling',
+    validate(bundleSchema.bundlingPolicyUpdate)
+  )
+  public async updateBundlingPolicy(
+    @request() req: Request
+  ): Promise<APIResponse> {
+    const result = await this.bundlingPolicyService.updatePolicy(BundlingPolicy.fromRequestForUpdate(req));
+
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpGet(
+    '/bundling/schedule'
+  )
+  public async getBundlingSchedule(): Promise<APIResponse> {
+    const result = await this.bundlingPolicyService.getSchedule();
+
+    return APIResponse.fromSingleResult(result);
+  }
 }
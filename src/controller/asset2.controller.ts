@@ -12,30 +12,45 @@
  * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
  */
 
-import { Request } from 'express';
+import { Request, Response } from 'express';
 import { inject } from 'inversify';
 import {
   controller,
+  httpDelete,
   httpGet,
   httpPost,
+  httpPut,
+  queryParam,
+  request,
   requestParam,
   requestHeaders,
   requestBody,
+  response,
 } from 'inversify-express-utils';
 
 import { MIDDLEWARE, TYPE } from '../constant/types';
 import { ILogger } from '../interface/logger.inferface';
-import { APIQuery, APIResponse } from '../model';
+import { APIQuery, APIResponse, ExportOptions } from '../model';
+import { AssetContent } from '../model/asset/asset-content.model';
+import { IAssetPayload } from '../model/asset/asset-payload.model';
+import { createBatch, getBatchSummary } from '../util';
 import { BaseController } from './base.controller';
 import { authorize } from '../middleware/authorize.middleware';
 import { validate } from '../middleware';
-import { querySchema, assetSchema } from '../validation/schemas';
+import { querySchema, assetSchema, exportSchema } from '../validation/schemas';
 import { AssetService } from '../service/asset.service';
+import { EventService } from '../service/event.service';
+import { ExportService } from '../service/export.service';
+import { VerificationService } from '../service/verification.service';
+import { AssetHierarchyService } from '../service/asset-hierarchy.service';
+import { AssetIdentifierService } from '../service/asset-identifier.service';
+import { AssetStateService } from '../service/asset-state.service';
 import { AuthService } from '../service/auth.service';
 
 import { Web3Service } from '../service/web3.service';
 
 import { validateTimestamp } from '../validation/validate.utils';
+import { NotFoundError, ValidationError } from '../errors';
 
 @controller(
   '/asset2',
@@ -47,7 +62,13 @@ export class Asset2Controller extends BaseController {
     @inject(TYPE.LoggerService) protected logger: ILogger,
     @inject(TYPE.AssetService) private assetService: AssetService,
     @inject(TYPE.AuthService) private authService: AuthService,
-    @inject(TYPE.Web3Service) private web3Service: Web3Service
+    @inject(TYPE.Web3Service) private web3Service: Web3Service,
+    @inject(TYPE.EventService) private eventService: EventService,
+    @inject(TYPE.ExportService) private exportService: ExportService,
+    @inject(TYPE.VerificationService) private verificationService: VerificationService,
+    @inject(TYPE.AssetHierarchyService) private assetHierarchyService: AssetHierarchyService,
+    @inject(TYPE.AssetIdentifierService) private assetIdentifierService: AssetIdentifierService,
+    @inject(TYPE.AssetStateService) private assetStateService: AssetStateService
   ) {
     super(logger);
   }
@@ -56,10 +77,72 @@ export class Asset2Controller extends BaseController {
     '/list'
   )
   public async getAssets(req: Request): Promise<APIResponse> {
-    const result = await this.assetService.getAssets(APIQuery.fromRequest2(req));
+    const { identifier, ...query } = req.query;
+    req.query = query;
+
+    const apiQuery = APIQuery.fromRequest2(req);
+    if (identifier && typeof identifier === 'object') {
+      apiQuery.addToQuery({
+        assetId: { $in: await this.assetIdentifierService.findAssetIdsForFilters(identifier) },
+      });
+    }
+
+    const result = await this.assetService.getAssets(apiQuery);
+    return APIResponse.fromMongoPagedResult(result);
+  }
+
+  @httpGet(
+    '/lookup',
+    validate(assetSchema.assetLookup, { queryParamsOnly: true })
+  )
+  public async lookup(
+    @queryParam('type') type: string,
+    @queryParam('value') value: string,
+    @queryParam('serial') serial: string,
+    @queryParam('organizationId') organizationId: number,
+    @request() req: Request
+  ): Promise<APIResponse> {
+    const result = await this.assetIdentifierService.lookupAssets(
+      type,
+      `${value}`,
+      serial === undefined ? undefined : `${serial}`,
+      organizationId,
+      APIQuery.fromRequest(req)
+    );
     return APIResponse.fromMongoPagedResult(result);
   }
 
+  @httpGet(
+    '/identifiers/:assetId'
+  )
+  public async getAssetIdentifiers(
+    @requestParam('assetId') assetId: string
+  ): Promise<APIResponse> {
+    const result = await this.assetIdentifierService.getAssetIdentifiers(assetId);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpGet(
+    '/state/:assetId'
+  )
+  public async getAssetState(
+    @requestParam('assetId') assetId: string
+  ): Promise<APIResponse> {
+    const result = await this.assetStateService.getAssetState(assetId);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpPost(
+    '/state/:assetId/rebuild',
+    authorize('create_asset')
+  )
+  public async rebuildAssetState(
+    @requestParam('assetId') assetId: string
+  ): Promise<APIResponse> {
+    const result = await this.assetStateService.rebuildAssetState(assetId);
+    return APIResponse.fromSingleResult(result);
+  }
+
   @httpGet(
     '/info/:assetId'
   )
@@ -70,6 +153,112 @@ export class Asset2Controller extends BaseController {
     return APIResponse.fromSingleResult(result);
   }
 
+  @httpPut(
+    '/public/:assetId',
+    authorize('create_asset'),
+    validate(assetSchema.assetVisibility)
+  )
+  public async setAssetPublic(
+    @requestParam('assetId') assetId: string,
+    @requestBody() payload: { public: boolean }
+  ): Promise<APIResponse> {
+    const result = await this.assetService.setAssetPublic(assetId, payload.public);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpPost(
+    '/share/:assetId',
+    authorize('create_asset'),
+    validate(assetSchema.assetShare)
+  )
+  public async shareAsset(
+    @requestParam('assetId') assetId: string,
+    @requestBody() payload: { organizationId: number }
+  ): Promise<APIResponse> {
+    const result = await this.assetService.shareAsset(assetId, payload.organizationId);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpDelete(
+    '/share/:assetId/:organizationId',
+    authorize('create_asset')
+  )
+  public async unshareAsset(
+    @requestParam('assetId') assetId: string,
+    @requestParam('organizationId') organizationId: string
+  ): Promise<APIResponse> {
+    const result = await this.assetService.unshareAsset(assetId, +organizationId);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpGet(
+    '/verify/:assetId'
+  )
+  public async verifyAsset(
+    @requestParam('assetId') assetId: string
+  ): Promise<APIResponse> {
+    const result = await this.verificationService.verifyAsset(assetId);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpGet(
+    '/children/:assetId',
+    validate(assetSchema.assetHierarchy, { queryParamsOnly: true })
+  )
+  public async getChildren(
+    @requestParam('assetId') assetId: string,
+    @queryParam('at') at: number
+  ): Promise<APIResponse> {
+    const result = await this.assetHierarchyService.getChildren(assetId, at);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpGet(
+    '/ancestors/:assetId',
+    validate(assetSchema.assetHierarchy, { queryParamsOnly: true })
+  )
+  public async getAncestors(
+    @requestParam('assetId') assetId: string,
+    @queryParam('at') at: number
+  ): Promise<APIResponse> {
+    const result = await this.assetHierarchyService.getAncestors(assetId, at);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpGet(
+    '/tree/:assetId',
+    validate(assetSchema.assetHierarchy, { queryParamsOnly: true })
+  )
+  public async getTree(
+    @requestParam('assetId') assetId: string,
+    @queryParam('at') at: number,
+    @queryParam('depth') depth: number
+  ): Promise<APIResponse> {
+    const result = await this.assetHierarchyService.getTree(assetId, at, depth);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpGet(
+    '/timeline/:assetId'
+  )
+  public async getTimeline(
+    @requestParam('assetId') assetId: string,
+    @queryParam('includeContainers') includeContainers: string,
+    @request() req: Request
+  ): Promise<APIResponse> {
+    const asset = await this.assetService.getAsset(assetId);
+    if (!asset) {
+      throw new NotFoundError({ reason: `Asset with assetId=${assetId} not found` });
+    }
+
+    const result = await this.eventService.getAssetTimeline(
+      asset,
+      APIQuery.fromRequest(req),
+      includeContainers === 'true'
+    );
+    return APIResponse.fromMongoPagedResult(result);
+  }
+
   @httpGet(
     '/exists/:assetId'
   )
@@ -89,6 +278,26 @@ export class Asset2Controller extends BaseController {
     return APIResponse.fromMongoPagedResult(result);
   }
 
+  @httpPost(
+    '/export',
+    validate(exportSchema.assetExport)
+  )
+  public async exportAssets(@request() req: Request, @response() res: Response) {
+    const apiQuery = APIQuery.fromRequest(req);
+    const options = ExportOptions.fromRequest(req);
+
+    res.writeHead(200, {
+      'Content-Type': options.contentType,
+      'Content-Disposition': `attachment; filename="${options.getFileName('assets')}"`,
+    });
+
+    try {
+      await this.exportService.exportAssets(apiQuery, options, res);
+    } catch (error) {
+      this.logger.error(`assets export failed: ${error}`);
+    }
+  }
+
   @httpPost(
     '/create/:assetId',
     authorize('create_asset'),
@@ -110,15 +319,7 @@ export class Asset2Controller extends BaseController {
   ): Promise<APIResponse> {
     const authToken = this.authService.getAuthToken(authorization);
 
-    this.web3Service.validateSignature2(
-      authToken.createdBy,
-      payload.content.signature,
-      payload.content.idData
-    );
-
-    validateTimestamp(payload.content.idData.timestamp);
-
-    this.web3Service.checkHashMatches(assetId, payload.content, 'assetId');
+    this.validateAssetContent(authToken.createdBy, assetId, payload.content);
 
     await this.assetService.createAsset(
       assetId,
@@ -132,4 +333,43 @@ export class Asset2Controller extends BaseController {
 
     return APIResponse.fromSingleResult(result);
   }
+
+  @httpPost(
+    '/createBatch',
+    authorize('create_asset'),
+    validate(assetSchema.assetCreateBatch)
+  )
+  public async createAssetBatch(
+    @requestHeaders('authorization') authorization: string,
+    @requestBody() payload: {
+      assets: IAssetPayload[]
+    }
+  ): Promise<APIResponse> {
+    const authToken = this.authService.getAuthToken(authorization);
+
+    const results = await createBatch(
+      payload.assets,
+      'assetId',
+      item => this.validateAssetContent(authToken.createdBy, item.assetId, item.content),
+      items => this.assetService.createAssets(authToken.createdBy, items)
+    );
+
+    return APIResponse.fromSingleResult(results, getBatchSummary(results));
+  }
+
+  private validateAssetContent(createdBy: string, assetId: string, content: AssetContent) {
+    if (!content.idData) {
+      throw new ValidationError({ reason: 'content.idData is required' });
+    }
+
+    this.web3Service.validateSignature2(
+      createdBy,
+      content.signature,
+      content.idData
+    );
+
+    validateTimestamp(content.idData.timestamp);
+
+    this.web3Service.checkHashMatches(assetId, content, 'assetId');
+  }
 }
@@ -22,9 +22,13 @@ import {
   controller,
   httpGet,
   httpPost,
-  requestParam
+  queryParam,
+  request,
+  requestParam,
+  response
 } from 'inversify-express-utils';
 
+import { config } from '../config';
 import { MIDDLEWARE, TYPE } from '../constant/types';
 import { ILogger } from '../interface/logger.inferface';
 import { validate } from '../middleware';
@@ -35,7 +39,7 @@ import {
   Bundle
 } from '../model';
 import { BundleService } from '../service/bundle.service';
-import { querySchema } from '../validation';
+import { bundleSchema, querySchema } from '../validation';
 import { BaseController } from './base.controller';
 
 import { NotFoundError } from '../errors';
@@ -43,6 +47,7 @@ import { NotFoundError } from '../errors';
 function streamFinished(stream: NodeJS.ReadableStream) {
   return new Promise((resolve, reject) => {
     stream.on('end', () => resolve());
+    stream.on('close', () => resolve());
     stream.on('error', () => reject());
   });
 }
@@ -84,19 +89,77 @@ export class BundleController extends BaseController {
 
   @httpGet('/:bundleId')
   public async getBundle(
+    @request() req: Request,
+    @response() res: Response,
     @requestParam('bundleId') bundleId: string
   ) {
-    const bundleStream = await this.bundleService.getBundleStream(bundleId);
+    const file = await this.bundleService.getBundleFile(bundleId);
 
-    let result;
+    const ranges = req.range(file.length, { combine: true });
+    if (ranges === -1) {
+      res.writeHead(416, { 'Content-Range': `bytes */${file.length}` });
+      res.end();
+      return;
+    }
+
+    // malformed and multiple ranges are answered with the whole bundle
+    const range = (ranges && ranges !== -2 && ranges.type === 'bytes' && ranges.length === 1) ? ranges[0] : undefined;
+
+    const bundleStream = await this.bundleService.getBundleStream(bundleId, range);
+
+    const headers = {
+      'Content-Type': 'application/json',
+      'Accept-Ranges': 'bytes',
+    };
+    if (range) {
+      res.writeHead(206, {
+        ...headers,
+        'Content-Range': `bytes ${range.start}-${range.end}/${file.length}`,
+        'Content-Length': range.end - range.start + 1,
+      });
+    } else {
+      res.writeHead(200, {
+        ...headers,
+        'Content-Length': file.length,
+      });
+    }
 
-    bundleStream.on('data', (chunk) => {
-      result = chunk;
+    // a client leaving mid-download must not keep the GridFS cursor open
+    res.on('close', () => {
+      if (!res.finished) {
+        bundleStream.abort();
+      }
     });
 
-    await streamFinished(bundleStream);
+    bundleStream.pipe(res);
 
-    return result;
+    try {
+      await streamFinished(bundleStream);
+    } catch (error) {
+      this.logger.error(`bundle ${bundleId} download failed`);
+      res.destroy();
+    }
+  }
+
+  @httpGet(
+    '/:bundleId/entries',
+    validate(bundleSchema.bundleEntries, { queryParamsOnly: true })
+  )
+  public async getBundleEntries(
+    @requestParam('bundleId') bundleId: string,
+    @queryParam('offset') offset: number,
+    @queryParam('limit') limit: number
+  ): Promise<APIResponse> {
+    const pageOffset = offset || 0;
+    const pageLimit = limit || +config.paginationDefault;
+
+    const result = await this.bundleService.getBundleEntries(bundleId, pageOffset, pageLimit);
+
+    return APIResponse.fromSingleResult(result.entries, {
+      offset: pageOffset,
+      limit: pageLimit,
+      hasNext: result.hasNext,
+    });
   }
 
   @httpGet('/:bundleId/info')
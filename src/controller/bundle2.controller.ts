@@ -18,6 +18,8 @@ import {
   controller,
   httpGet,
   httpPost,
+  queryParam,
+  request,
   requestParam
 } from 'inversify-express-utils';
 
@@ -26,8 +28,10 @@ import { ILogger } from '../interface/logger.inferface';
 import { validate } from '../middleware';
 import { authorize } from '../middleware/authorize.middleware';
 import { APIQuery, APIResponse, MongoPagedResult } from '../model';
+import { AssetService } from '../service/asset.service';
 import { BundleService } from '../service/bundle.service';
-import { querySchema } from '../validation';
+import { EventService } from '../service/event.service';
+import { bundleSchema, querySchema } from '../validation';
 import { BaseController } from './base.controller';
 
 @controller(
@@ -39,15 +43,24 @@ import { BaseController } from './base.controller';
 export class Bundle2Controller extends BaseController {
   constructor(
     @inject(TYPE.BundleService) private bundleService: BundleService,
+    @inject(TYPE.AssetService) private assetService: AssetService,
+    @inject(TYPE.EventService) private eventService: EventService,
     @inject(TYPE.LoggerService) protected logger: ILogger
   ) {
     super(logger);
   }
 
-  @httpGet('/list')
-  public async getBundles(req: Request): Promise<APIResponse> {
+  @httpGet(
+    '/list',
+    validate(bundleSchema.bundleList, { queryParamsOnly: true })
+  )
+  public async getBundles(
+    @queryParam('status') status: string,
+    @request() req: Request
+  ): Promise<APIResponse> {
     const result = await this.bundleService.getBundles(
-      APIQuery.fromRequest(req)
+      APIQuery.fromRequest(req),
+      status
     );
     return APIResponse.fromMongoPagedResult(result);
   }
@@ -68,6 +81,42 @@ export class Bundle2Controller extends BaseController {
     return APIResponse.fromSingleResult(result);
   }
 
+  @httpGet('/pending')
+  public async getPendingEntries(): Promise<APIResponse> {
+    const result = await this.bundleService.getVisiblePendingEntries();
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpGet(
+    '/:bundleId/assets',
+    validate(bundleSchema.bundleContents, { queryParamsOnly: true })
+  )
+  public async getBundleAssets(
+    @requestParam('bundleId') bundleId: string,
+    @request() req: Request
+  ): Promise<APIResponse> {
+    const apiQuery = APIQuery.fromRequest(req);
+    apiQuery.addToQuery({ 'metadata.bundleId': bundleId });
+
+    const result = await this.assetService.getAssets(apiQuery);
+    return APIResponse.fromMongoPagedResult(result);
+  }
+
+  @httpGet(
+    '/:bundleId/events',
+    validate(bundleSchema.bundleContents, { queryParamsOnly: true })
+  )
+  public async getBundleEvents(
+    @requestParam('bundleId') bundleId: string,
+    @request() req: Request
+  ): Promise<APIResponse> {
+    const apiQuery = APIQuery.fromRequest(req);
+    apiQuery.addToQuery({ 'metadata.bundleId': bundleId });
+
+    const events = await this.eventService.getEvents(apiQuery);
+    return APIResponse.fromMongoPagedResult(await this.eventService.checkEventsDecryptionPaged(events));
+  }
+
   @httpPost('/query', validate(querySchema))
   public async queryBundles(req: Request): Promise<APIResponse> {
     const result = await this.bundleService.getBundles(
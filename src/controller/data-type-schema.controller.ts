@@ -0,0 +1,102 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { Request } from 'express';
+import * as HttpStatus from 'http-status-codes';
+import { inject } from 'inversify';
+import {
+  controller,
+  httpDelete,
+  httpGet,
+  httpPost,
+  httpPut,
+  request,
+  requestParam
+} from 'inversify-express-utils';
+
+import { MIDDLEWARE, TYPE } from '../constant/types';
+import { ILogger } from '../interface/logger.inferface';
+import { APIQuery, APIResponse, APIResponseMeta, DataTypeSchema } from '../model';
+import { DataTypeSchemaService } from '../service/data-type-schema.service';
+import { BaseController } from './base.controller';
+import { authorize } from '../middleware/authorize.middleware';
+import { validate } from '../middleware';
+import { eventSchema } from '../validation';
+
+@controller(
+  '/datatype',
+  MIDDLEWARE.Context,
+  authorize('manage_accounts')
+)
+export class DataTypeSchemaController extends BaseController {
+
+  constructor(
+    @inject(TYPE.DataTypeSchemaService) private dataTypeSchemaService: DataTypeSchemaService,
+    @inject(TYPE.LoggerService) protected logger: ILogger
+  ) {
+    super(logger);
+  }
+
+  @httpGet('/')
+  public async getDataTypeSchemas(req: Request): Promise<APIResponse> {
+    const result = await this.dataTypeSchemaService.getDataTypeSchemas(APIQuery.fromRequest(req));
+    return APIResponse.fromMongoPagedResult(result);
+  }
+
+  @httpGet('/:type')
+  public async getDataTypeSchema(
+    @requestParam('type') type: string
+  ): Promise<APIResponse> {
+    const result = await this.dataTypeSchemaService.getDataTypeSchema(type);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpPost(
+    '/',
+    validate(eventSchema.dataTypeSchemaCreate)
+  )
+  public async createDataTypeSchema(req: Request): Promise<APIResponse> {
+    const result = await this.dataTypeSchemaService.createDataTypeSchema(DataTypeSchema.fromRequest(req));
+    return APIResponse.fromSingleResult(result, { code: HttpStatus.CREATED, message: 'Schema created' });
+  }
+
+  @httpPut(
+    '/:type',
+    validate(eventSchema.dataTypeSchemaUpdate, { params: true })
+  )
+  public async updateDataTypeSchema(
+    @requestParam('type') type: string,
+    @request() req: Request
+  ): Promise<APIResponse> {
+    const result = await this.dataTypeSchemaService.updateDataTypeSchema(
+      type,
+      DataTypeSchema.fromRequestForUpdate(req)
+    );
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpDelete('/:type')
+  public async deleteDataTypeSchema(
+    @requestParam('type') type: string
+  ): Promise<APIResponse> {
+    const deleteOp = await this.dataTypeSchemaService.deleteDataTypeSchema(type);
+
+    const meta = new APIResponseMeta(
+      HttpStatus.OK,
+      deleteOp.result.n > 0 ? 'Delete successful' : 'Nothing to delete'
+    );
+    meta['deleted'] = deleteOp.result.n;
+    return APIResponse.withMeta(meta);
+  }
+}
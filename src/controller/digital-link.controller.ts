@@ -0,0 +1,73 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { Request, Response } from 'express';
+import { inject } from 'inversify';
+import {
+  controller,
+  httpGet,
+  request,
+  response
+} from 'inversify-express-utils';
+
+import { config } from '../config';
+import { MIDDLEWARE, TYPE } from '../constant/types';
+import { ILogger } from '../interface/logger.inferface';
+import { APIQuery, APIResponse } from '../model';
+import { AssetIdentifierService } from '../service/asset-identifier.service';
+import { BaseController } from './base.controller';
+import { NotFoundError } from '../errors';
+
+@controller(
+  '/dl',
+  MIDDLEWARE.Context
+)
+export class DigitalLinkController extends BaseController {
+
+  constructor(
+    @inject(TYPE.AssetIdentifierService) private assetIdentifierService: AssetIdentifierService,
+    @inject(TYPE.LoggerService) protected logger: ILogger
+  ) {
+    super(logger);
+  }
+
+  @httpGet(
+    '/*'
+  )
+  public async resolve(
+    @request() req: Request,
+    @response() res: Response
+  ): Promise<APIResponse> {
+    const result = await this.assetIdentifierService.resolveDigitalLink(req.params[0], APIQuery.fromRequest(req));
+    if (result.results.length === 0) {
+      throw new NotFoundError({ reason: `No asset found for ${req.params[0]}` });
+    }
+
+    // browsers scanning a code are sent to the dashboard page of the newest matching asset
+    const dashboardUrl = this.getDashboardUrl();
+    if (dashboardUrl && req.accepts(['json', 'html']) === 'html') {
+      res.redirect(307, `${dashboardUrl}${config.dashboardAssetPath}/${result.results[0].assetId}`);
+      return;
+    }
+
+    return APIResponse.fromMongoPagedResult(result);
+  }
+
+  private getDashboardUrl(): string {
+    if (config.useStatic === 1) {
+      return '/dashboard';
+    }
+    return config.dashboardUrl ? config.dashboardUrl.replace(/\/+$/, '') : undefined;
+  }
+}
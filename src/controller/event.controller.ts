@@ -23,7 +23,7 @@ import { EventService } from '../service/event.service';
 import { getParamValue } from '../util';
 import { BaseController } from './base.controller';
 import { validate } from '../middleware';
-import { querySchema } from '../validation';
+import { querySchema, eventSchema } from '../validation';
 
 @controller(
   '/event',
@@ -92,16 +92,13 @@ export class EventController extends BaseController {
   }
 
   @httpPost(
-    '/latest/type'
+    '/latest/type',
+    validate(eventSchema.eventLatestTypeLegacy)
   )
   public async latestType(req: Request): Promise<APIResponse> {
     const assets = getParamValue(req, 'assets');
-    const type = getParamValue(req, 'type');
-    const result = await this.eventService.getLatestAssetEventsOfType(
-      assets,
-      type,
-      APIQuery.fromRequest(req)
-    );
+    const types = [].concat(getParamValue(req, 'type'));
+    const result = await this.eventService.getAllLatestAssetEventsOfType(assets, types);
 
     return APIResponse.fromSingleResult(result);
   }
@@ -12,32 +12,44 @@
  * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
  */
 
-import { Request } from 'express';
+import { Request, Response } from 'express';
 import { inject } from 'inversify';
 import {
   controller,
   httpGet,
   httpPost,
+  httpPut,
+  request,
   requestParam,
   requestHeaders,
-  requestBody
+  requestBody,
+  response
 } from 'inversify-express-utils';
 
 import { MIDDLEWARE, TYPE } from '../constant/types';
 import { ILogger } from '../interface/logger.inferface';
-import { APIQuery, APIResponse } from '../model';
+import { APIQuery, APIResponse, ExportOptions } from '../model';
 import { EventService } from '../service/event.service';
-import { getParamValue } from '../util';
+import { createBatch, getBatchSummary, getParamValue } from '../util';
 import { BaseController } from './base.controller';
 import { authorize } from '../middleware/authorize.middleware';
 import { validate } from '../middleware';
-import { querySchema, eventSchema } from '../validation/schemas';
+import { querySchema, eventSchema, exportSchema } from '../validation/schemas';
 
 import { AuthService } from '../service/auth.service';
 import { Web3Service } from '../service/web3.service';
 import { OrganizationService } from '../service/organization.service';
+import { EventStreamService } from '../service/event-stream.service';
+import { ExportService } from '../service/export.service';
+import { VerificationService } from '../service/verification.service';
 
 import { validateTimestamp } from '../validation/validate.utils';
+import { EventContent } from '../model/event/event-content.model';
+import { IEventPayload } from '../model/event/event-payload.model';
+import { EventStreamFilter } from '../model/event/event-stream-filter.model';
+import { NotFoundError, ValidationError } from '../errors';
+
+const streamKeepAliveInterval = 30000;
 
 @controller(
   '/event2',
@@ -50,7 +62,10 @@ export class Event2Controller extends BaseController {
     @inject(TYPE.LoggerService) protected logger: ILogger,
     @inject(TYPE.AuthService) private authService: AuthService,
     @inject(TYPE.Web3Service) private web3Service: Web3Service,
-    @inject(TYPE.OrganizationService) private organizationService: OrganizationService
+    @inject(TYPE.OrganizationService) private organizationService: OrganizationService,
+    @inject(TYPE.EventStreamService) private eventStreamService: EventStreamService,
+    @inject(TYPE.ExportService) private exportService: ExportService,
+    @inject(TYPE.VerificationService) private verificationService: VerificationService
   ) {
     super(logger);
   }
@@ -71,10 +86,68 @@ export class Event2Controller extends BaseController {
     @requestParam('eventId') eventId: string
   ): Promise<APIResponse> {
     const event = await this.eventService.getEvent(eventId);
+    if (!event) {
+      throw new NotFoundError({ reason: `Event with eventId=${eventId} not found` });
+    }
 
     return APIResponse.fromSingleResult(await this.eventService.checkEventDecryption(event));
   }
 
+  @httpPut(
+    '/public/:eventId',
+    authorize('create_event'),
+    validate(eventSchema.eventVisibility)
+  )
+  public async setEventPublic(
+    @requestParam('eventId') eventId: string,
+    @requestBody() payload: { public: boolean }
+  ): Promise<APIResponse> {
+    const result = await this.eventService.setEventPublic(eventId, payload.public);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpGet(
+    '/verify/:eventId'
+  )
+  public async verifyEvent(
+    @requestParam('eventId') eventId: string
+  ): Promise<APIResponse> {
+    const result = await this.verificationService.verifyEvent(eventId);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpGet(
+    '/stream',
+    authorize()
+  )
+  public streamEvents(@request() req: Request, @response() res: Response) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    res.write(': connected\n\n');
+
+    const unsubscribe = this.eventStreamService.subscribe(
+      EventStreamFilter.fromQuery(req.query),
+      async event => {
+        if (!this.eventService.isEventVisible(event)) {
+          return;
+        }
+
+        const result = await this.eventService.checkEventDecryption(event);
+        res.write(`id: ${event.eventId}\nevent: event\ndata: ${JSON.stringify(result)}\n\n`);
+      }
+    );
+
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), streamKeepAliveInterval);
+
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    });
+  }
+
   @httpGet(
     '/exists/:eventId'
   )
@@ -94,6 +167,30 @@ export class Event2Controller extends BaseController {
     return APIResponse.fromMongoPagedResult(await this.eventService.checkEventsDecryptionPaged(events));
   }
 
+  @httpPost(
+    '/export',
+    validate(exportSchema.eventExport)
+  )
+  public async exportEvents(@request() req: Request, @response() res: Response) {
+    const apiQuery = APIQuery.fromRequest(req);
+    const assets = getParamValue(req, 'assets');
+    if (assets) {
+      apiQuery.addToQuery({ 'content.idData.assetId': { $in: assets } });
+    }
+    const options = ExportOptions.fromRequest(req);
+
+    res.writeHead(200, {
+      'Content-Type': options.contentType,
+      'Content-Disposition': `attachment; filename="${options.getFileName('events')}"`,
+    });
+
+    try {
+      await this.exportService.exportEvents(apiQuery, options, res);
+    } catch (error) {
+      this.logger.error(`events export failed: ${error}`);
+    }
+  }
+
   @httpPost(
     '/search'
   )
@@ -111,22 +208,23 @@ export class Event2Controller extends BaseController {
   }
 
   @httpPost(
-    '/latest/type'
+    '/latest/type',
+    validate(eventSchema.eventLatestType)
   )
   public async latestType(req: Request): Promise<APIResponse> {
     const assets = getParamValue(req, 'assets');
-    const type = getParamValue(req, 'type');
+    const types = [].concat(getParamValue(req, 'type'));
     const events = await this.eventService.getLatestAssetEventsOfType(
       assets,
-      type,
+      types,
       APIQuery.fromRequest(req)
     );
 
-    const resultRaw = await this.eventService.checkEventsDecryptionList(events);
+    const resultRaw = await this.eventService.checkEventsDecryptionList(events.results);
 
-    const result = this.eventService.stripRaws(resultRaw);
+    events.results = this.eventService.stripRaws(resultRaw);
 
-    return APIResponse.fromSingleResult(result);
+    return APIResponse.fromMongoPagedResult(events);
   }
 
   @httpPost(
@@ -153,17 +251,7 @@ export class Event2Controller extends BaseController {
   ): Promise<APIResponse> {
     const authToken = this.authService.getAuthToken(authorization);
 
-    this.web3Service.validateSignature2(
-      authToken.createdBy,
-      payload.content.signature,
-      payload.content.idData
-    );
-
-    validateTimestamp(payload.content.idData.timestamp);
-
-    this.web3Service.checkHashMatches(payload.content.idData.dataHash, payload.content.data, 'event.data');
-
-    this.web3Service.checkHashMatches(eventId, payload.content, 'eventId');
+    this.validateEventContent(authToken.createdBy, eventId, payload.content);
 
     await this.eventService.createEvent(
       eventId,
@@ -180,4 +268,45 @@ export class Event2Controller extends BaseController {
 
     return APIResponse.fromSingleResult(result);
   }
+
+  @httpPost(
+    '/createBatch',
+    authorize('create_event'),
+    validate(eventSchema.eventCreateBatch)
+  )
+  public async createEventBatch(
+    @requestHeaders('authorization') authorization: string,
+    @requestBody() payload: {
+      events: IEventPayload[]
+    }
+  ): Promise<APIResponse> {
+    const authToken = this.authService.getAuthToken(authorization);
+
+    const results = await createBatch(
+      payload.events,
+      'eventId',
+      item => this.validateEventContent(authToken.createdBy, item.eventId, item.content),
+      items => this.eventService.createEvents(authToken.createdBy, items)
+    );
+
+    return APIResponse.fromSingleResult(results, getBatchSummary(results));
+  }
+
+  private validateEventContent(createdBy: string, eventId: string, content: EventContent) {
+    if (!content.idData) {
+      throw new ValidationError({ reason: 'content.idData is required' });
+    }
+
+    this.web3Service.validateSignature2(
+      createdBy,
+      content.signature,
+      content.idData
+    );
+
+    validateTimestamp(content.idData.timestamp);
+
+    this.web3Service.checkHashMatches(content.idData.dataHash, content.data, 'event.data');
+
+    this.web3Service.checkHashMatches(eventId, content, 'eventId');
+  }
 }
@@ -0,0 +1,157 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { Request } from 'express';
+import * as HttpStatus from 'http-status-codes';
+import { inject } from 'inversify';
+import {
+  controller,
+  httpDelete,
+  httpGet,
+  httpPost,
+  httpPut,
+  request,
+  requestBody,
+  requestParam
+} from 'inversify-express-utils';
+
+import { MIDDLEWARE, TYPE } from '../constant/types';
+import { ILogger } from '../interface/logger.inferface';
+import { APIQuery, APIResponse, APIResponseMeta, IImportSignature, ImportTemplate } from '../model';
+import { ImportService } from '../service/import.service';
+import { BaseController } from './base.controller';
+import { authorize } from '../middleware/authorize.middleware';
+import { validate } from '../middleware';
+import { importSchema } from '../validation';
+
+@controller(
+  '/import',
+  MIDDLEWARE.Context
+)
+export class ImportController extends BaseController {
+
+  constructor(
+    @inject(TYPE.ImportService) private importService: ImportService,
+    @inject(TYPE.LoggerService) protected logger: ILogger
+  ) {
+    super(logger);
+  }
+
+  @httpGet(
+    '/template',
+    authorize('manage_accounts')
+  )
+  public async getImportTemplates(req: Request): Promise<APIResponse> {
+    const result = await this.importService.getImportTemplates(APIQuery.fromRequest(req));
+    return APIResponse.fromMongoPagedResult(result);
+  }
+
+  @httpGet(
+    '/template/:name',
+    authorize('manage_accounts')
+  )
+  public async getImportTemplate(
+    @requestParam('name') name: string
+  ): Promise<APIResponse> {
+    const result = await this.importService.getImportTemplate(name);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpPost(
+    '/template',
+    authorize('manage_accounts'),
+    validate(importSchema.templateCreate)
+  )
+  public async createImportTemplate(req: Request): Promise<APIResponse> {
+    const result = await this.importService.createImportTemplate(ImportTemplate.fromRequest(req));
+    return APIResponse.fromSingleResult(result, { code: HttpStatus.CREATED, message: 'Template created' });
+  }
+
+  @httpPut(
+    '/template/:name',
+    authorize('manage_accounts'),
+    validate(importSchema.templateUpdate)
+  )
+  public async updateImportTemplate(
+    @requestParam('name') name: string,
+    @request() req: Request
+  ): Promise<APIResponse> {
+    const result = await this.importService.updateImportTemplate(
+      name,
+      ImportTemplate.fromRequestForUpdate(req)
+    );
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpDelete(
+    '/template/:name',
+    authorize('manage_accounts')
+  )
+  public async deleteImportTemplate(
+    @requestParam('name') name: string
+  ): Promise<APIResponse> {
+    const deleteOp = await this.importService.deleteImportTemplate(name);
+
+    const meta = new APIResponseMeta(
+      HttpStatus.OK,
+      deleteOp.result.n > 0 ? 'Delete successful' : 'Nothing to delete'
+    );
+    meta['deleted'] = deleteOp.result.n;
+    return APIResponse.withMeta(meta);
+  }
+
+  @httpPost(
+    '/template/:name/prepare',
+    authorize('create_event'),
+    validate(importSchema.batchPrepare)
+  )
+  public async prepareImportBatch(
+    @requestParam('name') name: string,
+    @requestBody() payload: { csv: string }
+  ): Promise<APIResponse> {
+    const result = await this.importService.prepareImportBatch(name, payload.csv);
+    return APIResponse.fromSingleResult(result, {
+      code: HttpStatus.CREATED,
+      prepared: result.rows.length,
+      failed: result.errors.length,
+    });
+  }
+
+  @httpGet(
+    '/batch/:batchId',
+    authorize('create_event')
+  )
+  public async getImportBatch(
+    @requestParam('batchId') batchId: string
+  ): Promise<APIResponse> {
+    const result = await this.importService.getImportBatch(batchId);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpPost(
+    '/batch/:batchId/submit',
+    authorize('create_event'),
+    validate(importSchema.batchSubmit)
+  )
+  public async submitImportBatch(
+    @requestParam('batchId') batchId: string,
+    @requestBody() payload: { signatures: IImportSignature[] }
+  ): Promise<APIResponse> {
+    const results = await this.importService.submitImportBatch(batchId, payload.signatures);
+    return APIResponse.fromSingleResult(results, {
+      created: results.filter(result => result.success).length,
+      failed: results.filter(result => !result.success).length,
+    });
+  }
+}
@@ -0,0 +1,75 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject } from 'inversify';
+import {
+  controller,
+  httpGet,
+  httpPost,
+  requestBody,
+  requestParam
+} from 'inversify-express-utils';
+
+import { MIDDLEWARE, TYPE } from '../constant/types';
+import { ILogger } from '../interface/logger.inferface';
+import { APIResponse } from '../model';
+import { ProofService } from '../service/proof.service';
+import { BaseController } from './base.controller';
+import { validate } from '../middleware';
+import { proofSchema } from '../validation';
+
+@controller(
+  '/proof',
+  MIDDLEWARE.Context
+)
+export class ProofController extends BaseController {
+
+  constructor(
+    @inject(TYPE.ProofService) private proofService: ProofService,
+    @inject(TYPE.LoggerService) protected logger: ILogger
+  ) {
+    super(logger);
+  }
+
+  @httpGet(
+    '/asset/:assetId'
+  )
+  public async getAssetProof(
+    @requestParam('assetId') assetId: string
+  ): Promise<APIResponse> {
+    const result = await this.proofService.getAssetProof(assetId);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpGet(
+    '/event/:eventId'
+  )
+  public async getEventProof(
+    @requestParam('eventId') eventId: string
+  ): Promise<APIResponse> {
+    const result = await this.proofService.getEventProof(eventId);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpPost(
+    '/verify',
+    validate(proofSchema.proofVerify)
+  )
+  public async verifyProof(
+    @requestBody() payload
+  ): Promise<APIResponse> {
+    const result = await this.proofService.verifyProof(payload);
+    return APIResponse.fromSingleResult(result);
+  }
+}
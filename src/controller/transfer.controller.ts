@@ -0,0 +1,120 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { Request } from 'express';
+import * as HttpStatus from 'http-status-codes';
+import { inject } from 'inversify';
+import {
+  controller,
+  httpGet,
+  httpPost,
+  queryParam,
+  request,
+  requestBody,
+  requestParam
+} from 'inversify-express-utils';
+
+import { MIDDLEWARE, TYPE } from '../constant/types';
+import { ILogger } from '../interface/logger.inferface';
+import { APIQuery, APIResponse, IAssetTransferContent } from '../model';
+import { TransferService } from '../service/transfer.service';
+import { BaseController } from './base.controller';
+import { authorize } from '../middleware/authorize.middleware';
+import { validate } from '../middleware';
+import { transferSchema } from '../validation';
+
+@controller(
+  '/transfer',
+  MIDDLEWARE.Context
+)
+export class TransferController extends BaseController {
+
+  constructor(
+    @inject(TYPE.TransferService) private transferService: TransferService,
+    @inject(TYPE.LoggerService) protected logger: ILogger
+  ) {
+    super(logger);
+  }
+
+  @httpGet(
+    '/list',
+    authorize(),
+    validate(transferSchema.transferList, { queryParamsOnly: true })
+  )
+  public async getTransfers(
+    @queryParam('status') status: string,
+    @queryParam('direction') direction: string,
+    @queryParam('assetId') assetId: string,
+    @request() req: Request
+  ): Promise<APIResponse> {
+    const result = await this.transferService.getTransfers(APIQuery.fromRequest(req), status, direction, assetId);
+    return APIResponse.fromMongoPagedResult(result);
+  }
+
+  @httpGet(
+    '/info/:transferId',
+    authorize()
+  )
+  public async getTransfer(
+    @requestParam('transferId') transferId: string
+  ): Promise<APIResponse> {
+    const result = await this.transferService.getTransfer(transferId);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpPost(
+    '/offer',
+    authorize('create_asset'),
+    validate(transferSchema.transferOffer)
+  )
+  public async offerTransfer(
+    @requestBody() payload: { content: IAssetTransferContent }
+  ): Promise<APIResponse> {
+    const result = await this.transferService.offerTransfer(payload.content);
+    return APIResponse.fromSingleResult(result, { code: HttpStatus.CREATED, message: 'Transfer offered' });
+  }
+
+  @httpPost(
+    '/accept/:transferId',
+    authorize('manage_accounts')
+  )
+  public async acceptTransfer(
+    @requestParam('transferId') transferId: string
+  ): Promise<APIResponse> {
+    const result = await this.transferService.acceptTransfer(transferId);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpPost(
+    '/reject/:transferId',
+    authorize('manage_accounts')
+  )
+  public async rejectTransfer(
+    @requestParam('transferId') transferId: string
+  ): Promise<APIResponse> {
+    const result = await this.transferService.rejectTransfer(transferId);
+    return APIResponse.fromSingleResult(result);
+  }
+
+  @httpPost(
+    '/cancel/:transferId',
+    authorize('create_asset')
+  )
+  public async cancelTransfer(
+    @requestParam('transferId') transferId: string
+  ): Promise<APIResponse> {
+    const result = await this.transferService.cancelTransfer(transferId);
+    return APIResponse.fromSingleResult(result);
+  }
+}
@@ -0,0 +1,71 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../../constant';
+import { AssetIdentifier } from '../../model';
+import { RepositoryError } from '../../errors';
+import { DBClient } from '../client';
+import { BaseRepository } from './base.repository';
+
+@injectable()
+export class AssetIdentifierRepository extends BaseRepository<AssetIdentifier> {
+  constructor(
+    @inject(TYPE.DBClient) protected client: DBClient
+    ) {
+    super(client, 'assetIdentifiers');
+
+    client.events.on('dbConnected', () => {
+      client.db.collection('assetIdentifiers').createIndex(
+        { organizationId: 1, type: 1, value: 1, serial: 1 },
+        { unique: true, partialFilterExpression: { unique: true } }
+      );
+      client.db.collection('assetIdentifiers').createIndex({ type: 1, value: 1, serial: 1 });
+      client.db.collection('assetIdentifiers').createIndex({ assetId: 1 });
+    });
+  }
+
+  get paginatedField(): string {
+    return 'timestamp';
+  }
+
+  get paginatedAscending(): boolean {
+    return false;
+  }
+
+  // an identifier is stored once per asset, repeated identifier events keep the first one
+  public async addIdentifiers(identifiers: AssetIdentifier[]) {
+    const collection = await this.getCollection();
+
+    try {
+      await collection.bulkWrite(identifiers.map(identifier => ({
+        updateOne: {
+          filter: {
+            type: identifier.type,
+            value: identifier.value,
+            serial: identifier.serial,
+            assetId: identifier.assetId,
+            organizationId: identifier.organizationId,
+          },
+          update: { $setOnInsert: identifier },
+          upsert: true,
+        },
+      })));
+    } catch (err) {
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
+}
@@ -0,0 +1,133 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../../constant';
+import { APIQuery, AssetLink } from '../../model';
+import { RepositoryError } from '../../errors';
+import { DBClient } from '../client';
+import { BaseRepository } from './base.repository';
+
+@injectable()
+export class AssetLinkRepository extends BaseRepository<AssetLink> {
+  constructor(
+    @inject(TYPE.DBClient) protected client: DBClient
+    ) {
+    super(client, 'assetLinks');
+
+    client.events.on('dbConnected', () => {
+      client.db.collection('assetLinks').createIndex({ childId: 1, packedAt: -1 });
+      client.db.collection('assetLinks').createIndex({ parentId: 1, unpackedAt: 1 });
+      client.db.collection('assetLinks').createIndex({ packedEventId: 1 });
+    });
+  }
+
+  get paginatedField(): string {
+    return 'packedAt';
+  }
+
+  get paginatedAscending(): boolean {
+    return false;
+  }
+
+  public async closeLinks(apiQuery: APIQuery, unpackedEventId: string, unpackedAt: number): Promise<number> {
+    const collection = await this.getCollection();
+
+    try {
+      const result = await collection.updateMany(
+        { ...apiQuery.query, unpackedAt: null },
+        { $set: { unpackedEventId, unpackedAt } }
+      );
+      return result.modifiedCount;
+    } catch (err) {
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
+
+  public findAncestorLinks(childId: string, at: number, maxDepth: number): Promise<AssetLink[]> {
+    return this.findConnectedLinks({ childId }, 'parentId', 'childId', at, maxDepth);
+  }
+
+  public findDescendantLinks(parentId: string, at: number, maxDepth: number): Promise<AssetLink[]> {
+    return this.findConnectedLinks({ parentId }, 'childId', 'parentId', at, maxDepth);
+  }
+
+  // links are returned flattened, each with the depth it was found at relative to the start asset
+  private async findConnectedLinks(
+    start: object,
+    connectFromField: string,
+    connectToField: string,
+    at: number,
+    maxDepth: number
+  ): Promise<AssetLink[]> {
+    const collection = await this.getCollection();
+
+    const window = this.getWindowFilter(at);
+    const pipeline: object[] = [
+      {
+        $match: { ...start, ...window },
+      },
+    ];
+
+    if (maxDepth > 1) {
+      pipeline.push({
+        $graphLookup: {
+          connectFromField,
+          connectToField,
+          from: 'assetLinks',
+          startWith: `$${connectFromField}`,
+          as: 'connected',
+          maxDepth: maxDepth - 2,
+          depthField: 'depth',
+          restrictSearchWithMatch: window,
+        },
+      });
+    }
+
+    try {
+      const result = await collection.aggregate(pipeline).toArray();
+
+      const links = {};
+      result.map(link => {
+        const { connected, ...direct } = link;
+        links[`${direct._id}`] = { ...direct, depth: 1 };
+        (connected || []).map(connectedLink => {
+          const key = `${connectedLink._id}`;
+          const depth = connectedLink.depth + 2;
+          if (!links[key] || links[key].depth > depth) {
+            links[key] = { ...connectedLink, depth };
+          }
+        });
+      });
+
+      return Object.keys(links).map(key => links[key]);
+    } catch (err) {
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
+
+  private getWindowFilter(at: number): object {
+    if (at === undefined) {
+      return { unpackedAt: null };
+    }
+
+    return {
+      packedAt: { $lte: at },
+      $or: [{ unpackedAt: null }, { unpackedAt: { $gt: at } }],
+    };
+  }
+}
@@ -0,0 +1,73 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../../constant';
+import { AssetState } from '../../model';
+import { RepositoryError } from '../../errors';
+import { DBClient } from '../client';
+import { BaseRepository } from './base.repository';
+
+@injectable()
+export class AssetStateRepository extends BaseRepository<AssetState> {
+  constructor(
+    @inject(TYPE.DBClient) protected client: DBClient
+    ) {
+    super(client, 'assetStates');
+
+    client.events.on('dbConnected', () => {
+      client.db.collection('assetStates').createIndex({ assetId: 1 }, { unique: true });
+    });
+  }
+
+  get paginatedField(): string {
+    return 'updatedOn';
+  }
+
+  get paginatedAscending(): boolean {
+    return false;
+  }
+
+  // saves the state only if nobody saved another version since it was read
+  public async saveVersion(assetState: AssetState, expectedVersion: number): Promise<boolean> {
+    const collection = await this.getCollection();
+
+    const { _id, ...state } = assetState;
+    state.version = expectedVersion + 1;
+
+    try {
+      if (expectedVersion === 0) {
+        const inserted = await collection.updateOne(
+          { assetId: state.assetId },
+          { $setOnInsert: state },
+          { upsert: true }
+        );
+        return inserted.upsertedCount === 1;
+      }
+
+      const updated = await collection.updateOne(
+        { assetId: state.assetId, version: expectedVersion },
+        { $set: state }
+      );
+      return updated.matchedCount === 1;
+    } catch (err) {
+      if (err.code === 11000) {
+        return false;
+      }
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
+}
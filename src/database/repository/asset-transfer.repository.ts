@@ -0,0 +1,61 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../../constant';
+import { AssetTransfer } from '../../model';
+import { RepositoryError } from '../../errors';
+import { getTimestamp } from '../../util';
+import { DBClient } from '../client';
+import { BaseRepository } from './base.repository';
+
+@injectable()
+export class AssetTransferRepository extends BaseRepository<AssetTransfer> {
+  constructor(
+    @inject(TYPE.DBClient) protected client: DBClient
+    ) {
+    super(client, 'assetTransfers');
+
+    client.events.on('dbConnected', () => {
+      client.db.collection('assetTransfers').createIndex({ transferId: 1 }, { unique: true });
+      client.db.collection('assetTransfers').createIndex({ fromOrganizationId: 1, createdOn: -1 });
+      client.db.collection('assetTransfers').createIndex({ toOrganizationId: 1, createdOn: -1 });
+      client.db.collection('assetTransfers').createIndex({ assets: 1, status: 1 });
+    });
+  }
+
+  get paginatedField(): string {
+    return 'createdOn';
+  }
+
+  get paginatedAscending(): boolean {
+    return false;
+  }
+
+  public async expirePending(): Promise<number> {
+    const collection = await this.getCollection();
+
+    try {
+      const result = await collection.updateMany(
+        { status: 'pending', validUntil: { $lte: getTimestamp() } },
+        { $set: { status: 'expired' } }
+      );
+      return result.modifiedCount;
+    } catch (err) {
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
+}
@@ -18,6 +18,7 @@ import { TYPE } from '../../constant';
 import { DBClient } from '../client';
 import { BaseRepository } from './base.repository';
 import { APIQuery, Asset } from '../../model';
+import { RepositoryError } from '../../errors';
 
 @injectable()
 export class AssetRepository extends BaseRepository<Asset> {
@@ -68,6 +69,12 @@ export class AssetRepository extends BaseRepository<Asset> {
     });
   }
 
+  get textIndexWeights(): object {
+    return {
+      assetId: 1,
+    };
+  }
+
   get timestampField(): string {
     return 'content.idData.timestamp';
   }
@@ -80,6 +87,30 @@ export class AssetRepository extends BaseRepository<Asset> {
     return false;
   }
 
+  public addSharedOrganization(apiQuery: APIQuery, organizationId: number): Promise<Asset> {
+    return this.updateSharedOrganizations(apiQuery, { $addToSet: { sharedWith: organizationId } });
+  }
+
+  public removeSharedOrganization(apiQuery: APIQuery, organizationId: number): Promise<Asset> {
+    return this.updateSharedOrganizations(apiQuery, { $pull: { sharedWith: organizationId } });
+  }
+
+  // moves only the assets still owned by fromOrganizationId and returns how many moved
+  public async transferOwnership(assetIds: string[], fromOrganizationId: number, toOrganizationId: number): Promise<number> {
+    const collection = await this.getCollection();
+
+    try {
+      const result = await collection.updateMany(
+        { assetId: { $in: assetIds }, organizationId: fromOrganizationId },
+        { $set: { organizationId: toOrganizationId } }
+      );
+      return result.modifiedCount;
+    } catch (err) {
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
+
   public findAssetIdsWhereLastEventIsOfType() {
     const pipeline = [
       {
@@ -123,4 +154,23 @@ export class AssetRepository extends BaseRepository<Asset> {
 
     return await this.findOne(apiQuery);
   }
+
+  private async updateSharedOrganizations(apiQuery: APIQuery, update: object): Promise<Asset> {
+    const collection = await this.getCollection();
+
+    try {
+      const result = await collection.findOneAndUpdate(
+        apiQuery.query,
+        update,
+        {
+          returnOriginal: false,
+          projection: { repository: 0 },
+        }
+      );
+      return result.value;
+    } catch (err) {
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
 }
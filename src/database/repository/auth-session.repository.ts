@@ -0,0 +1,89 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../../constant';
+import { AuthSession } from '../../model';
+import { RepositoryError } from '../../errors';
+import { DBClient } from '../client';
+import { BaseRepository } from './base.repository';
+
+@injectable()
+export class AuthSessionRepository extends BaseRepository<AuthSession> {
+  constructor(
+    @inject(TYPE.DBClient) protected client: DBClient
+    ) {
+    super(client, 'authSessions');
+
+    client.events.on('dbConnected', () => {
+      client.db.collection('authSessions').createIndex({ signature: 1 }, { unique: true });
+      client.db.collection('authSessions').createIndex({ address: 1, validUntil: -1 });
+      client.db.collection('authSessions').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+    });
+  }
+
+  get paginatedField(): string {
+    return 'lastSeen';
+  }
+
+  get paginatedAscending(): boolean {
+    return false;
+  }
+
+  // records the use of a token and returns its session, including any revocation
+  public async recordUse(authSession: AuthSession): Promise<AuthSession> {
+    const collection = await this.getCollection();
+
+    const { _id, lastSeen, lastIp, ...session } = authSession;
+
+    try {
+      const result = await collection.findOneAndUpdate(
+        { signature: session.signature },
+        {
+          $set: { lastSeen, lastIp },
+          $setOnInsert: { ...session, firstSeen: lastSeen },
+        },
+        {
+          returnOriginal: false,
+          upsert: true,
+        }
+      );
+      return result.value;
+    } catch (err) {
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
+
+  public async revoke(query: object, revokedBy: string, revokedOn: number): Promise<string[]> {
+    const collection = await this.getCollection();
+
+    const filter = { ...query, revokedOn: { $exists: false } };
+
+    try {
+      const sessions = await collection.find(filter, { projection: { signature: 1 } }).toArray();
+      const signatures = sessions.map(authSession => authSession.signature);
+
+      await collection.updateMany(
+        { signature: { $in: signatures } },
+        { $set: { revokedOn, revokedBy } }
+      );
+      return signatures;
+    } catch (err) {
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
+}
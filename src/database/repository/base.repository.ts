@@ -19,6 +19,7 @@ import {
   InsertOneWriteOpResult,
   DeleteWriteOpResultObject,
   InsertWriteOpResult,
+  Cursor,
   Db
 } from 'mongodb';
 
@@ -32,6 +33,12 @@ import { getTimestamp } from '../../util';
 import { RepositoryError } from '../../errors';
 import { DeveloperError } from '../../errors/developer.error';
 
+export interface IInsertFailure {
+  index: number;
+  code: number;
+  reason: string;
+}
+
 @injectable()
 export class BaseRepository<T> {
   public db: Db;
@@ -54,6 +61,10 @@ export class BaseRepository<T> {
     });
   }
 
+  get textIndexWeights(): object {
+    return undefined;
+  }
+
   get paginatedField(): string {
     throw new DeveloperError({
       reason: 'paginatedField getter must be overridden!',
@@ -113,6 +124,26 @@ export class BaseRepository<T> {
     }
   }
 
+  // inserts every item it can and returns the ones mongo refused, by their index in items
+  public async createBulkUnordered(items: T[]): Promise<IInsertFailure[]> {
+    const collection = await this.getCollection();
+
+    try {
+      await collection.insertMany(items, { ordered: false });
+      return [];
+    } catch (err) {
+      if (!err.result || !err.result.getWriteErrors) {
+        this.logger.captureError(err);
+        throw new RepositoryError(err);
+      }
+      return err.result.getWriteErrors().map(writeError => ({
+        index: writeError.index,
+        code: writeError.code,
+        reason: writeError.errmsg,
+      }));
+    }
+  }
+
   public async update(
     apiQuery: APIQuery,
     item: T,
@@ -144,6 +175,26 @@ export class BaseRepository<T> {
     }
   }
 
+  public async updateMany(apiQuery: APIQuery, item: T): Promise<number> {
+    const collection = await this.getCollection();
+
+    this.logger.debug(
+      `
+      ################ updateMany ################
+      collection      ${this.collectionName}:
+      query:          ${JSON.stringify(apiQuery.query)}
+      item:          ${JSON.stringify(item)}
+      `
+    );
+    try {
+      const result = await collection.updateMany(apiQuery.query, { $set: item });
+      return result.modifiedCount;
+    } catch (err) {
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
+
   public async deleteOne(
     apiQuery: APIQuery
   ): Promise<DeleteWriteOpResultObject> {
@@ -324,7 +375,7 @@ export class BaseRepository<T> {
     }
   }
 
-  public async distinct(field: string): Promise<any> {
+  public async distinct(field: string, query: object = {}): Promise<any> {
     const collection = await this.getCollection();
 
     this.logger.debug(
@@ -332,10 +383,11 @@ export class BaseRepository<T> {
       ################ distinct ################
       collection      ${this.collectionName}:
       field:          ${field}
+      query:          ${JSON.stringify(query, null, 2)}
       `
     );
     try {
-      const result = await collection.distinct(field);
+      const result = await collection.distinct(field, query);
       return result;
     } catch (err) {
       this.logger.captureError(err);
@@ -376,6 +428,73 @@ export class BaseRepository<T> {
     }
   }
 
+  public async searchText(apiQuery: APIQuery): Promise<any[]> {
+    const collection = await this.getCollection();
+
+    this.logger.debug(
+      `
+      ################ searchText ################
+      collection      ${this.collectionName}:
+      search:         ${JSON.stringify(apiQuery.search, null, 2)}
+      query:          ${JSON.stringify(apiQuery.query, null, 2)}
+      fields:         ${JSON.stringify(apiQuery.fields, null, 2)}
+      limit:          ${apiQuery.limit}
+      `
+    );
+
+    const pipeline: object[] = [
+      { $match: { ...apiQuery.query, $text: { $search: apiQuery.search } } },
+      { $addFields: { score: { $meta: 'textScore' } } },
+      { $sort: { score: -1, _id: -1 } },
+      { $limit: apiQuery.limit },
+    ];
+    if (Object.keys(apiQuery.fields).length) {
+      pipeline.push({ $project: apiQuery.fields });
+    }
+
+    try {
+      return await collection.aggregate(pipeline).toArray();
+    } catch (err) {
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
+
+  public async ensureTextIndex(): Promise<boolean> {
+    const weights = this.textIndexWeights;
+    if (!weights) {
+      return false;
+    }
+
+    const collection = await this.getCollection();
+    const name = `${this.collectionName}_text`;
+
+    try {
+      const indexes = await collection.indexes();
+      const existing = indexes.find(index => index.key && index.key._fts === 'text');
+
+      if (existing && existing.name === name && _.isEqual(existing.weights, weights)) {
+        return false;
+      }
+
+      // a collection can only have one text index
+      if (existing) {
+        await collection.dropIndex(existing.name);
+      }
+
+      const keys = {};
+      Object.keys(weights).map(field => keys[field] = 'text');
+
+      await collection.createIndex(keys, { name, weights, default_language: 'none' });
+      this.logger.info(`Text index ${name} created`);
+
+      return true;
+    } catch (err) {
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
+
   public async findWithPagination(apiQuery: APIQuery): Promise<MongoPagedResult> {
     const collection = await this.getCollection();
 
@@ -443,6 +562,30 @@ export class BaseRepository<T> {
     }
   }
 
+  public async findCursor(apiQuery: APIQuery): Promise<Cursor<T>> {
+    const collection = await this.getCollection();
+
+    this.logger.debug(
+      `
+      ################ findCursor ################
+      collection      ${this.collectionName}:
+      query:          ${JSON.stringify(apiQuery.query, null, 2)}
+      fields:         ${JSON.stringify(apiQuery.fields, null, 2)}
+      paginatedField: ${this.paginatedField}
+      sortAscending:  ${this.paginatedAscending}
+      `
+    );
+
+    const projection = Object.keys(apiQuery.fields).length
+      ? { projection: apiQuery.fields }
+      : undefined;
+    const order = this.paginatedAscending ? 1 : -1;
+
+    return collection
+      .find(apiQuery.query, projection)
+      .sort({ [this.paginatedField]: order, _id: order });
+  }
+
   public async findOne(apiQuery: APIQuery): Promise<T> {
     const collection = await this.getCollection();
 
@@ -15,7 +15,8 @@
 import { inject, injectable } from 'inversify';
 
 import { TYPE } from '../../constant';
-import { Bundle } from '../../model';
+import { Bundle, BundleAnchoring } from '../../model';
+import { RepositoryError } from '../../errors';
 import { DBClient } from '../client';
 import { BaseRepository } from './base.repository';
 
@@ -38,4 +39,50 @@ export class BundleRepository extends BaseRepository<Bundle> {
   get paginatedAscending(): boolean {
     return false;
   }
+
+  public async setMerkleRoot(bundleId: string, merkleRoot: string, merkleLeafCount: number) {
+    const collection = await this.getCollection();
+
+    try {
+      await collection.updateOne(
+        { bundleId },
+        { $set: { merkleRoot, merkleLeafCount } }
+      );
+    } catch (err) {
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
+
+  public async findAnchoredSince(timestamp: number, limit: number): Promise<Bundle[]> {
+    const collection = await this.getCollection();
+
+    try {
+      return await collection
+        .find(
+          { bundleTransactionHash: { $exists: true, $ne: null }, bundleUploadTimestamp: { $gte: timestamp } },
+          { projection: { 'bundleId': 1, 'bundleTransactionHash': 1, 'anchoring': 1 } }
+        )
+        .sort({ bundleUploadTimestamp: -1 })
+        .limit(limit)
+        .toArray();
+    } catch (err) {
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
+
+  public async setAnchoring(bundleId: string, anchoring: BundleAnchoring) {
+    const collection = await this.getCollection();
+
+    try {
+      await collection.updateOne(
+        { bundleId },
+        { $set: { anchoring: { ...anchoring } } }
+      );
+    } catch (err) {
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
 }
@@ -0,0 +1,59 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../../constant';
+import { BundlingPolicy } from '../../model';
+import { RepositoryError } from '../../errors';
+import { DBClient } from '../client';
+import { BaseRepository } from './base.repository';
+
+@injectable()
+export class BundlingPolicyRepository extends BaseRepository<BundlingPolicy> {
+  constructor(
+    @inject(TYPE.DBClient) protected client: DBClient
+    ) {
+    super(client, 'bundlingPolicies');
+
+    client.events.on('dbConnected', () => {
+      client.db.collection('bundlingPolicies').createIndex({ name: 1 }, { unique: true });
+    });
+  }
+
+  get paginatedField(): string {
+    return 'updatedOn';
+  }
+
+  get paginatedAscending(): boolean {
+    return false;
+  }
+
+  public async savePolicy(bundlingPolicy: BundlingPolicy) {
+    const collection = await this.getCollection();
+
+    const { _id, ...policy } = bundlingPolicy;
+
+    try {
+      await collection.updateOne(
+        { name: policy.name },
+        { $set: policy },
+        { upsert: true }
+      );
+    } catch (err) {
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
+}
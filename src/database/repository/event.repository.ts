@@ -15,7 +15,9 @@
 import { inject, injectable } from 'inversify';
 
 import { TYPE } from '../../constant';
+import { Cursor } from 'mongodb';
 import { APIQuery, Event, MongoPagedResult } from '../../model';
+import { addMongoFilter } from '../../util';
 import { DBClient } from '../client';
 import { BaseRepository } from './base.repository';
 
@@ -69,6 +71,15 @@ export class EventRepository extends BaseRepository<Event> {
     // });
   }
 
+  get textIndexWeights(): object {
+    return {
+      'content.data.name': 10,
+      'content.data.type': 5,
+      'content.data.assetType': 3,
+      'content.data.description': 2,
+    };
+  }
+
   get timestampField(): string {
     return 'content.idData.timestamp';
   }
@@ -81,13 +92,8 @@ export class EventRepository extends BaseRepository<Event> {
     return false;
   }
 
-  public queryEvent(apiQuery: APIQuery, accessLevel: number): Promise<Event> {
-    apiQuery.query = {
-      ...apiQuery.query,
-      ...{
-        'content.idData.accessLevel': { $lte: accessLevel },
-      },
-    };
+  public queryEvent(apiQuery: APIQuery, filter: object): Promise<Event> {
+    apiQuery.query = addMongoFilter(apiQuery.query, filter);
     apiQuery.fields = {
       repository: 0,
     };
@@ -96,30 +102,31 @@ export class EventRepository extends BaseRepository<Event> {
 
   public queryEvents(
     apiQuery: APIQuery,
-    accessLevel: number
+    filter: object
   ): Promise<MongoPagedResult> {
-    apiQuery.query = {
-      ...apiQuery.query,
-      ...{
-        'content.idData.accessLevel': { $lte: accessLevel },
-      },
-    };
+    apiQuery.query = addMongoFilter(apiQuery.query, filter);
     apiQuery.fields = {
       repository: 0,
     };
     return this.findWithPagination(apiQuery);
   }
 
+  public queryEventsCursor(
+    apiQuery: APIQuery,
+    filter: object
+  ): Promise<Cursor<Event>> {
+    apiQuery.query = addMongoFilter(apiQuery.query, filter);
+    apiQuery.fields = {
+      repository: 0,
+    };
+    return this.findCursor(apiQuery);
+  }
+
   public searchEvents(
     apiQuery: APIQuery,
-    accessLevel: number
+    filter: object
   ): Promise<MongoPagedResult> {
-    apiQuery.query = {
-      ...apiQuery.query,
-      ...{
-        'content.idData.accessLevel': { $lte: accessLevel },
-      },
-    };
+    apiQuery.query = addMongoFilter(apiQuery.query, filter);
     apiQuery.fields = {
       eventId: 1,
       'content.idData': 1,
@@ -131,48 +138,72 @@ export class EventRepository extends BaseRepository<Event> {
 
   public assetEventsOfType(
     assets: string[],
-    type: string,
-    apiQuery: APIQuery
-  ): Promise<MongoPagedResult> {
+    types: string[],
+    filter: object
+  ): Promise<Event[]> {
+    const apiQuery = new APIQuery();
     apiQuery.query = [
       {
-        $match: {
-          'content.data.type': type,
-          'content.idData.assetId': {
-            $in: assets,
+        $match: addMongoFilter(
+          {
+            'content.idData.assetId': {
+              $in: assets,
+            },
+            'content.data.type': {
+              $in: types,
+            },
           },
+          filter
+        ),
+      },
+      {
+        $sort: {
+          'content.idData.assetId': 1,
+          'content.idData.timestamp': -1,
+          '_id': -1,
         },
       },
+      {
+        $addFields: {
+          latestOfType: { $setIntersection: ['$content.data.type', types] },
+        },
+      },
+      {
+        $unwind: '$latestOfType',
+      },
       {
         $group: {
-          _id: '$content.idData.assetId',
+          _id: {
+            assetId: '$content.idData.assetId',
+            type: '$latestOfType',
+          },
           doc: {
             $first: '$$ROOT',
           },
         },
       },
+      {
+        $sort: {
+          '_id.assetId': 1,
+          '_id.type': 1,
+        },
+      },
+      {
+        $replaceRoot: {
+          newRoot: '$doc',
+        },
+      },
       {
         $project: {
-          _id: 0.0,
-          eventId: '$doc.eventId',
-          content: '$doc.content',
-          metadata: '$doc.metadata',
+          repository: 0,
         },
       },
     ];
-    apiQuery.fields = {
-      repository: 0,
-    };
     return super.aggregate(apiQuery);
   }
 
-  public async queryEventsOld(apiQuery: APIQuery, accessLevel: number) {
-    apiQuery.query = {
-      ...apiQuery.query,
-      ...{
-        'content.idData.accessLevel': { $lte: accessLevel },
-      },
-    };
+  public async queryEventsOld(apiQuery: APIQuery, filter: object) {
+    apiQuery.query = addMongoFilter(apiQuery.query, filter);
     apiQuery.fields = {
       _id: 0,
       repository: 0,
@@ -43,18 +43,34 @@ export class GridRepository {
     }
   }
 
-  public async getBundleStream(bundleId) {
+  public async getBundleStream(bundleId, range?: { start: number, end: number }) {
     await this.getConnection();
 
     if (!await this.client.isFileInGridFSBucket(bundleId, this.bundlesBucket)) {
       throw new NotFoundError({ reason: `No bundle with id = ${bundleId} found`});
     }
 
-    const bundle = await this.bundlesBucket.openDownloadStreamByName(bundleId);
+    // the end of a range is inclusive, the end option of the bucket is not
+    const options = range ? { start: range.start, end: range.end + 1 } : {};
+
+    const bundle = await this.bundlesBucket.openDownloadStreamByName(bundleId, options);
 
     return bundle;
   }
 
+  public async getBundleFile(bundleId) {
+    await this.getConnection();
+
+    // same revision as openDownloadStreamByName picks by default
+    const file = await this.bundlesBucket.find({ filename: bundleId }).sort({ uploadDate: -1 }).limit(1).next();
+
+    if (file === null) {
+      throw new NotFoundError({ reason: `No bundle with id = ${bundleId} found`});
+    }
+
+    return file;
+  }
+
   public async getBundleMetadata(bundleId) {
     await this.getConnection();
 
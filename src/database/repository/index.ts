@@ -14,14 +14,24 @@
 
 export * from './account.repository';
 export * from './account-detail.repository';
+export * from './auth-session.repository';
 export * from './asset.repository';
+export * from './asset-link.repository';
+export * from './asset-identifier.repository';
+export * from './asset-state.repository';
+export * from './asset-transfer.repository';
 export * from './event.repository';
 export * from './bundle.repository';
+export * from './bundling-policy.repository';
 export * from './grid.repository';
 export * from './organization.repository';
 export * from './organization-key.repository';
 export * from './organization-request.repository';
 export * from './organization-invite.repository';
+export * from './service-account.repository';
 export * from './workerLogs.repository';
 export * from './workerIntervals.repository';
 export * from './throttling.repository';
+export * from './data-type-schema.repository';
+export * from './import-template.repository';
+export * from './import-batch.repository';
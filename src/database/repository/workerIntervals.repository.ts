@@ -16,6 +16,7 @@ import { inject, injectable } from 'inversify';
 
 import { TYPE } from '../../constant';
 import { WorkerInterval } from '../../model';
+import { RepositoryError } from '../../errors';
 import { DBClient } from '../client';
 import { BaseRepository } from './base.repository';
 
@@ -34,4 +35,22 @@ export class WorkerIntervalsRepository extends BaseRepository<WorkerInterval> {
   get paginatedAscending(): boolean {
     return false;
   }
+
+  // a record with when = 0 asks the worker to run as soon as possible
+  public async getWorkerState(name: string): Promise<{ lastRun: number, pushRequested: boolean }> {
+    const collection = await this.getCollection();
+
+    try {
+      const [latest] = await collection.find({ name }).sort({ _id: -1 }).limit(1).toArray();
+      const [lastRun] = await collection.find({ name, when: { $gt: 0 } }).sort({ when: -1 }).limit(1).toArray();
+
+      return {
+        lastRun: lastRun ? lastRun.when : undefined,
+        pushRequested: !!latest && latest.when === 0,
+      };
+    } catch (err) {
+      this.logger.captureError(err);
+      throw new RepositoryError(err);
+    }
+  }
 }
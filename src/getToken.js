@@ -40,7 +40,8 @@ async function getToken(secret) {
 
     const idData = {
       createdBy: web3.eth.accounts.privateKeyToAccount(secret).address,
-      validUntil: Math.floor(Date.now() / 1000) + 86400
+      validUntil: Math.floor(Date.now() / 1000) + 86400,
+      createdOn: Math.floor(Date.now() / 1000)
     };
 
     const sign = web3.eth.accounts.sign(serializeForHashing(idData), secret).signature;
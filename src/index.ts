@@ -28,8 +28,11 @@ import * as Sentry from '@sentry/node';
 import * as sgMail from '@sendgrid/mail';
 import { DBClient } from './database/client';
 import { errorHandler } from './middleware';
+import { attachEventStreamSocket } from './middleware/event-stream.socket';
 import { BuiltInService } from './service/builtin.service';
 import { EmailService } from './service/email.service';
+import { SearchService } from './service/search.service';
+import { AnchoringService } from './service/anchoring.service';
 
 import Migrator from './migrations/Migrator';
 
@@ -74,6 +77,16 @@ client.events.on('dbConnected', async () => {
   } catch (e) {
     logger.error(`ERROR(Migration) ${e}`);
   }
+
+  try {
+    const searchService = iocContainer.get<SearchService>(TYPE.SearchService);
+
+    await searchService.ensureIndexes();
+  } catch (e) {
+    logger.error(`ERROR(Search indexes) ${e}`);
+  }
+
+  iocContainer.get<AnchoringService>(TYPE.AnchoringService).start();
 });
 
 const builtInService = iocContainer.get<BuiltInService>(TYPE.BuiltInService);
@@ -94,6 +107,10 @@ server.setConfig(app => {
   app.use(Sentry.Handlers.requestHandler());
   app.use(Sentry.Handlers.errorHandler());
   app.set('json spaces', 2);
+  if (config.trustProxy) {
+    // service account IP allowlists need the client address, not the proxy's
+    app.set('trust proxy', config.trustProxy);
+  }
   app.use(
     bodyParser.urlencoded({
       extended: true,
@@ -166,6 +183,8 @@ if (config.test.mode === 1) {
 
 export const app_server = server.build();
 
-app_server.listen(config.port);
+const httpServer = app_server.listen(config.port);
+
+attachEventStreamSocket(httpServer, app_server);
 
 logger.info(`${process.env.NODE_ENV} Hermes++ is running on ${config.port} :)`);
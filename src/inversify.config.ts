@@ -36,11 +36,23 @@ import { MetricController } from './controller/metric.controller';
 import { HealthController } from './controller/health.controller';
 import { NodeinfoController } from './controller/nodeinfo.controller';
 import { AdminController } from './controller/admin.controller';
+import { DataTypeSchemaController } from './controller/data-type-schema.controller';
+import { SearchController } from './controller/search.controller';
+import { ImportController } from './controller/import.controller';
+import { TransferController } from './controller/transfer.controller';
+import { DigitalLinkController } from './controller/digital-link.controller';
+import { ProofController } from './controller/proof.controller';
 import { DBClient } from './database/client';
 import {
   AccountRepository,
   AccountDetailRepository,
+  AuthSessionRepository,
   AssetRepository,
+  AssetLinkRepository,
+  AssetTransferRepository,
+  AssetIdentifierRepository,
+  AssetStateRepository,
+  BundlingPolicyRepository,
   BundleRepository,
   GridRepository,
   EventRepository,
@@ -48,9 +60,13 @@ import {
   OrganizationKeysRepository,
   OrganizationRequestRepository,
   OrganizationInviteRepository,
+  ServiceAccountRepository,
   WorkerLogsRepository,
   WorkerIntervalsRepository,
   ThrottlingRepository,
+  DataTypeSchemaRepository,
+  ImportTemplateRepository,
+  ImportBatchRepository,
 } from './database/repository';
 import { GraphQLSchema, IGraphQLResolver, IGraphQLSchema, IGraphQLType } from './graphql';
 import { AccountResolver, AssetResolver, BundleResolver, EventResolver } from './graphql/resolver';
@@ -68,6 +84,22 @@ import { LoggerService } from './service/logger.service';
 import { EmailService } from './service/email.service';
 import { StateService } from './service/state.service';
 import { BuiltInService } from './service/builtin.service';
+import { DataTypeSchemaService } from './service/data-type-schema.service';
+import { EventStreamService } from './service/event-stream.service';
+import { SearchService } from './service/search.service';
+import { ExportService } from './service/export.service';
+import { ImportService } from './service/import.service';
+import { VerificationService } from './service/verification.service';
+import { AssetHierarchyService } from './service/asset-hierarchy.service';
+import { TransferService } from './service/transfer.service';
+import { AssetIdentifierService } from './service/asset-identifier.service';
+import { AssetStateService } from './service/asset-state.service';
+import { ProofService } from './service/proof.service';
+import { BundlingPolicyService } from './service/bundling-policy.service';
+import { AnchoringService } from './service/anchoring.service';
+import { ServiceAccountService } from './service/service-account.service';
+import { AuthSessionService } from './service/auth-session.service';
+import { TokenRevocationService } from './service/token-revocation.service';
 
 import { OrganizationService } from './service/organization.service';
 import { Web3Service } from './service/web3.service';
@@ -135,6 +167,46 @@ iocContainer
   .bind<WorkerIntervalsRepository>(TYPE.WorkerIntervalsRepository)
   .to(WorkerIntervalsRepository)
   .inSingletonScope();
+iocContainer
+  .bind<DataTypeSchemaRepository>(TYPE.DataTypeSchemaRepository)
+  .to(DataTypeSchemaRepository)
+  .inSingletonScope();
+iocContainer
+  .bind<ImportTemplateRepository>(TYPE.ImportTemplateRepository)
+  .to(ImportTemplateRepository)
+  .inSingletonScope();
+iocContainer
+  .bind<ImportBatchRepository>(TYPE.ImportBatchRepository)
+  .to(ImportBatchRepository)
+  .inSingletonScope();
+iocContainer
+  .bind<AssetLinkRepository>(TYPE.AssetLinkRepository)
+  .to(AssetLinkRepository)
+  .inSingletonScope();
+iocContainer
+  .bind<AssetTransferRepository>(TYPE.AssetTransferRepository)
+  .to(AssetTransferRepository)
+  .inSingletonScope();
+iocContainer
+  .bind<AssetIdentifierRepository>(TYPE.AssetIdentifierRepository)
+  .to(AssetIdentifierRepository)
+  .inSingletonScope();
+iocContainer
+  .bind<AssetStateRepository>(TYPE.AssetStateRepository)
+  .to(AssetStateRepository)
+  .inSingletonScope();
+iocContainer
+  .bind<BundlingPolicyRepository>(TYPE.BundlingPolicyRepository)
+  .to(BundlingPolicyRepository)
+  .inSingletonScope();
+iocContainer
+  .bind<ServiceAccountRepository>(TYPE.ServiceAccountRepository)
+  .to(ServiceAccountRepository)
+  .inSingletonScope();
+iocContainer
+  .bind<AuthSessionRepository>(TYPE.AuthSessionRepository)
+  .to(AuthSessionRepository)
+  .inSingletonScope();
 
 // controllers
 iocContainer.bind<RootController>(TYPE.RootController).to(RootController);
@@ -153,6 +225,12 @@ iocContainer.bind<AnalyticsController>(TYPE.AnalyticsController).to(AnalyticsCon
 iocContainer.bind<OrganizationController>(TYPE.OrganizationController).to(OrganizationController);
 iocContainer.bind<Organization2Controller>(TYPE.Organization2Controller).to(Organization2Controller);
 iocContainer.bind<AdminController>(TYPE.AdminController).to(AdminController);
+iocContainer.bind<DataTypeSchemaController>(TYPE.DataTypeSchemaController).to(DataTypeSchemaController);
+iocContainer.bind<SearchController>(TYPE.SearchController).to(SearchController);
+iocContainer.bind<ImportController>(TYPE.ImportController).to(ImportController);
+iocContainer.bind<TransferController>(TYPE.TransferController).to(TransferController);
+iocContainer.bind<DigitalLinkController>(TYPE.DigitalLinkController).to(DigitalLinkController);
+iocContainer.bind<ProofController>(TYPE.ProofController).to(ProofController);
 iocContainer
   .bind<OrganizationRequestController>(TYPE.OrganizationRequestController)
   .to(OrganizationRequestController);
@@ -181,6 +259,31 @@ iocContainer.bind<AnalyticsService>(TYPE.AnalyticsService).to(AnalyticsService);
 iocContainer.bind<OrganizationService>(TYPE.OrganizationService).to(OrganizationService);
 iocContainer.bind<EmailService>(TYPE.EmailService).to(EmailService);
 iocContainer.bind<MobileService>(TYPE.MobileService).to(MobileService);
+iocContainer.bind<DataTypeSchemaService>(TYPE.DataTypeSchemaService).to(DataTypeSchemaService);
+iocContainer.bind<SearchService>(TYPE.SearchService).to(SearchService);
+iocContainer.bind<ExportService>(TYPE.ExportService).to(ExportService);
+iocContainer.bind<ImportService>(TYPE.ImportService).to(ImportService);
+iocContainer.bind<VerificationService>(TYPE.VerificationService).to(VerificationService);
+iocContainer.bind<AssetHierarchyService>(TYPE.AssetHierarchyService).to(AssetHierarchyService);
+iocContainer.bind<TransferService>(TYPE.TransferService).to(TransferService);
+iocContainer.bind<AssetIdentifierService>(TYPE.AssetIdentifierService).to(AssetIdentifierService);
+iocContainer.bind<AssetStateService>(TYPE.AssetStateService).to(AssetStateService);
+iocContainer.bind<ProofService>(TYPE.ProofService).to(ProofService);
+iocContainer.bind<BundlingPolicyService>(TYPE.BundlingPolicyService).to(BundlingPolicyService);
+iocContainer.bind<ServiceAccountService>(TYPE.ServiceAccountService).to(ServiceAccountService);
+iocContainer.bind<AuthSessionService>(TYPE.AuthSessionService).to(AuthSessionService);
+iocContainer
+  .bind<EventStreamService>(TYPE.EventStreamService)
+  .to(EventStreamService)
+  .inSingletonScope();
+iocContainer
+  .bind<AnchoringService>(TYPE.AnchoringService)
+  .to(AnchoringService)
+  .inSingletonScope();
+iocContainer
+  .bind<TokenRevocationService>(TYPE.TokenRevocationService)
+  .to(TokenRevocationService)
+  .inSingletonScope();
 
 // middleware
 
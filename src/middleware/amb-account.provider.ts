@@ -18,10 +18,13 @@ import { interfaces } from 'inversify-express-utils';
 
 import { TYPE } from '../constant';
 import { ILogger } from '../interface/logger.inferface';
-import { Account, UserPrincipal, AuthToken, AccountDetail } from '../model';
+import { Account, UserPrincipal, AuthToken, AccountDetail, ServiceAccount } from '../model';
 import { AccountService } from '../service/account.service';
 import { OrganizationService } from '../service/organization.service';
 import { AuthService } from '../service/auth.service';
+import { ServiceAccountService } from '../service/service-account.service';
+import { TokenRevocationService } from '../service/token-revocation.service';
+import { PermissionError } from '../errors';
 import * as Sentry from '@sentry/node';
 
 @injectable()
@@ -35,6 +38,12 @@ export class AMBAccountProvider implements interfaces.AuthProvider {
   @inject(TYPE.OrganizationService)
   private organizationService: OrganizationService;
 
+  @inject(TYPE.ServiceAccountService)
+  private serviceAccountService: ServiceAccountService;
+
+  @inject(TYPE.TokenRevocationService)
+  private tokenRevocationService: TokenRevocationService;
+
   @inject(TYPE.LoggerService)
   private logger: ILogger;
 
@@ -43,7 +52,16 @@ export class AMBAccountProvider implements interfaces.AuthProvider {
     res: Response,
     next: NextFunction
   ): Promise<interfaces.Principal> {
-    const authorization = req.header('authorization');
+    const user = await this.getUserFromAuthorization(req.header('authorization'), req.ip);
+    if (user.serviceAccount) {
+      this.logger.info(
+        `${req.method} ${req.originalUrl} by service account ${user.serviceAccount.serviceAccountId} on behalf of ${user.actingFor}`
+      );
+    }
+    return user;
+  }
+
+  public async getUserFromAuthorization(authorization: string, ip?: string): Promise<UserPrincipal> {
     const user = new UserPrincipal();
     if (!authorization) {
       this.logger.debug('No authorization header found');
@@ -56,11 +74,29 @@ export class AMBAccountProvider implements interfaces.AuthProvider {
       user.authToken = this.authService.getAuthToken(authorization);
 
       if (user.authToken && user.authToken.createdBy) {
-        user.account = await this.accountService.getAccountForAuth(user.authToken.createdBy);
+        const account = await this.accountService.getAccountForAuth(user.authToken.createdBy);
+        // the account is only set once the token passed the check, so a failing lookup leaves the user unauthorized
+        if (account && user.authToken.isValid() && await this.tokenRevocationService.isRevoked(user.authToken, account.sessionsRevokedOn, ip)) {
+          user.authToken.authError = new PermissionError({ reason: 'Token revoked' });
+        }
+        user.account = account;
 
         userScope['token:validUntil'] = user.authToken.validUntil;
         userScope['token:createdBy'] = user.authToken.createdBy;
       }
+      if (user.account && user.account.serviceAccountId) {
+        user.serviceAccount = await this.serviceAccountService.getServiceAccountForAuth(user.account.serviceAccountId);
+
+        const reason = user.serviceAccount ?
+          ServiceAccount.rejectionReason(user.serviceAccount, user.account.address, ip) :
+          'Service account not found';
+        if (reason) {
+          user.authToken.authError = new PermissionError({ reason });
+        }
+
+        userScope['serviceAccount:id'] = user.account.serviceAccountId;
+        userScope['serviceAccount:createdBy'] = user.actingFor;
+      }
       if (user.account && user.account.organization) {
         user.organization = await this.organizationService.getOrganizationForAuth(
           user.account.organization
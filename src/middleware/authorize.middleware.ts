@@ -29,6 +29,9 @@ export const authorize = (...args) => {
       }
 
       if (!user.isAuthorized()) {
+        if (user.authToken && user.authToken.authError) {
+          throw user.authToken.authError;
+        }
         throw new PermissionError({ reason: 'Unauthorized' });
       }
 
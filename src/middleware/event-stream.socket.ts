@@ -0,0 +1,84 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { Application } from 'express';
+import { IncomingMessage, Server } from 'http';
+import { parse } from 'url';
+
+import { TYPE } from '../constant/types';
+import { iocContainer } from '../inversify.config';
+import { ILogger } from '../interface/logger.inferface';
+import { UserPrincipal } from '../model';
+import { EventStreamFilter } from '../model/event/event-stream-filter.model';
+import { EventService } from '../service/event.service';
+import { EventStreamService } from '../service/event-stream.service';
+import { AMBAccountProvider } from './amb-account.provider';
+
+// tslint:disable-next-line:no-var-requires
+const WebSocket = require('ws');
+// tslint:disable-next-line:no-var-requires
+const proxyAddr = require('proxy-addr');
+
+export const eventStreamPath = '/event2/stream';
+
+const getAuthorization = (req: IncomingMessage, query: object): string => {
+  if (req.headers.authorization) {
+    return req.headers.authorization;
+  }
+  // browsers can not set headers on a WebSocket handshake
+  if (query['token']) {
+    return `AMB_TOKEN ${query['token']}`;
+  }
+  return undefined;
+};
+
+export const attachEventStreamSocket = (server: Server, app: Application) => {
+  const logger = iocContainer.get<ILogger>(TYPE.LoggerService);
+  const eventStreamService = iocContainer.get<EventStreamService>(TYPE.EventStreamService);
+  const accountProvider = iocContainer.resolve(AMBAccountProvider);
+
+  const wss = new WebSocket.Server({ server, path: eventStreamPath });
+
+  wss.on('connection', async (socket, req: IncomingMessage) => {
+    const { query } = parse(req.url, true);
+
+    // the handshake skips express, so resolve the client address the way req.ip does
+    const ip = proxyAddr(req, app.get('trust proxy fn'));
+
+    const user = await accountProvider.getUserFromAuthorization(getAuthorization(req, query), ip);
+
+    if (!user.isAuthorized()) {
+      socket.close(4401, 'Unauthorized');
+      return;
+    }
+
+    const container = iocContainer.createChild();
+    container.bind<UserPrincipal>(TYPE.UserPrincipal).toConstantValue(user);
+    const eventService = container.get<EventService>(TYPE.EventService);
+
+    const unsubscribe = eventStreamService.subscribe(
+      EventStreamFilter.fromQuery(query),
+      async event => {
+        if (socket.readyState === WebSocket.OPEN && eventService.isEventVisible(event)) {
+          socket.send(JSON.stringify(await eventService.checkEventDecryption(event)));
+        }
+      }
+    );
+
+    socket.on('close', unsubscribe);
+    socket.on('error', error => {
+      logger.warn(`event stream socket: ${error}`);
+    });
+  });
+};
@@ -19,7 +19,12 @@ import { ValidationError } from '../errors';
 import { isBase64, isObjectId, isAddress } from '../validation';
 
 const convertToNumber = data => {
-  return (!!Number(data) && data == String(Number(data))) ? Number(data) : undefined;
+  return (!isNaN(Number(data)) && data == String(Number(data))) ? Number(data) : undefined;
+}
+
+const convertValue = data => {
+  const number = convertToNumber(data);
+  return number === undefined ? data : number;
 }
 
 export const validate = (
@@ -50,27 +55,27 @@ export const validate = (
 
     if (options.params) {
       Object.keys(req.params).map(prop => {
-        data[prop] = convertToNumber(req.params[prop]) || req.params[prop];
+        data[prop] = convertValue(req.params[prop]);
       });
       req.params = data;
     }
     if (options.queryParams) {
       Object.keys(req.query).map(prop => {
-        data[prop] = convertToNumber(req.query[prop]) || req.query[prop];
+        data[prop] = convertValue(req.query[prop]);
       });
       req.query = data;
     }
     if (options.paramsOnly) {
       data = {};
       Object.keys(req.params).map(prop => {
-        data[prop] = convertToNumber(req.params[prop]) || req.params[prop];
+        data[prop] = convertValue(req.params[prop]);
       });
       req.params = data;
     }
     if (options.queryParamsOnly) {
       data = {};
       Object.keys(req.query).map(prop => {
-        data[prop] = convertToNumber(req.query[prop]) || req.query[prop];
+        data[prop] = convertValue(req.query[prop]);
       });
       req.query = data;
     }
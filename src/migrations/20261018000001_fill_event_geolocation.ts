@@ -0,0 +1,41 @@
+/*
+Copyright: Ambrosus Inc.
+Email: tech@ambrosus.io
+
+This Source Code Form is subject to the terms of the Mozilla Public License, v. 2.0. If a copy of the MPL was not distributed with this file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+This Source Code Form is “Incompatible With Secondary Licenses”, as defined by the Mozilla Public License, v. 2.0.
+*/
+
+import { extractGeoLocation } from '../util/geo.util';
+
+// eslint-disable-next-line import/prefer-default-export
+export const up = async (db, config, logger) => {
+  await db.collection('events').createIndex({ geoLocation: '2dsphere' });
+
+  const events = await db.collection('events').find({
+    'geoLocation': { $exists: false },
+    'content.idData.accessLevel': 0,
+  });
+
+  let fillCount = 0;
+
+  const fillGeoLocation = async (event) => {
+    const geoLocation = extractGeoLocation(event.content.data);
+
+    if (geoLocation !== undefined) {
+     await db.collection('events').updateOne(
+      {eventId: event.eventId},
+      {$set : {geoLocation}}
+     );
+
+     fillCount = fillCount + 1;
+    }
+  };
+
+  while (await events.hasNext()) {
+    await fillGeoLocation(await events.next());
+  }
+
+  logger.info(`Filled geoLocation for ${fillCount} events`);
+};
@@ -0,0 +1,30 @@
+/*
+Copyright: Ambrosus Inc.
+Email: tech@ambrosus.io
+
+This Source Code Form is subject to the terms of the Mozilla Public License, v. 2.0. If a copy of the MPL was not distributed with this file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+This Source Code Form is “Incompatible With Secondary Licenses”, as defined by the Mozilla Public License, v. 2.0.
+*/
+
+// eslint-disable-next-line import/prefer-default-export
+export const up = async (db, config, logger) => {
+  // existing records stay private until their organization publishes them
+  const events = await db.collection('events').updateMany(
+    { public: { $exists: false } },
+    { $set: { public: false } }
+  );
+
+  logger.info(`Filled public flag for ${events.modifiedCount} events`);
+
+  const assets = await db.collection('assets').updateMany(
+    { public: { $exists: false } },
+    { $set: { public: false } }
+  );
+
+  logger.info(`Filled public flag for ${assets.modifiedCount} assets`);
+
+  await db.collection('events').createIndex({ public: 1 });
+  await db.collection('events').createIndex({ organizationId: 1, 'content.idData.accessLevel': 1 });
+  await db.collection('assets').createIndex({ public: 1 });
+};
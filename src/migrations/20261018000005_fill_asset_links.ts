@@ -0,0 +1,59 @@
+/*
+Copyright: Ambrosus Inc.
+Email: tech@ambrosus.io
+
+This Source Code Form is subject to the terms of the Mozilla Public License, v. 2.0. If a copy of the MPL was not distributed with this file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+This Source Code Form is “Incompatible With Secondary Licenses”, as defined by the Mozilla Public License, v. 2.0.
+*/
+
+import { extractContainment, isAggregation } from '../util/hierarchy.util';
+
+// eslint-disable-next-line import/prefer-default-export
+export const up = async (db, config, logger) => {
+  await db.collection('assetLinks').createIndex({ childId: 1, packedAt: -1 });
+  await db.collection('assetLinks').createIndex({ parentId: 1, unpackedAt: 1 });
+  await db.collection('assetLinks').createIndex({ packedEventId: 1 });
+
+  const events = await db.collection('events').find({
+    'content.data.type': { $in: ['ambrosus.event.aggregation', 'ambrosus.event.disaggregation'] },
+    'content.idData.accessLevel': 0,
+  }).sort({ 'content.idData.timestamp': 1 });
+
+  let linkCount = 0;
+
+  const fillLinks = async (event) => {
+    const { assetId, timestamp } = event.content.idData;
+
+    for (const containment of extractContainment(event.content.data)) {
+      const closeQuery = isAggregation(containment) ?
+        { childId: { $in: containment.children } } :
+        (containment.children ? { parentId: assetId, childId: { $in: containment.children } } : { parentId: assetId });
+
+      await db.collection('assetLinks').updateMany(
+        { ...closeQuery, unpackedAt: null },
+        { $set: { unpackedEventId: event.eventId, unpackedAt: timestamp } }
+      );
+
+      if (isAggregation(containment)) {
+        await db.collection('assetLinks').insertMany(containment.children.map(childId => ({
+          childId,
+          parentId: assetId,
+          organizationId: event.organizationId,
+          packedEventId: event.eventId,
+          packedAt: timestamp,
+          unpackedEventId: null,
+          unpackedAt: null,
+        })));
+
+        linkCount = linkCount + containment.children.length;
+      }
+    }
+  };
+
+  while (await events.hasNext()) {
+    await fillLinks(await events.next());
+  }
+
+  logger.info(`Filled ${linkCount} asset links from containment events`);
+};
@@ -0,0 +1,72 @@
+/*
+Copyright: Ambrosus Inc.
+Email: tech@ambrosus.io
+
+This Source Code Form is subject to the terms of the Mozilla Public License, v. 2.0. If a copy of the MPL was not distributed with this file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+This Source Code Form is “Incompatible With Secondary Licenses”, as defined by the Mozilla Public License, v. 2.0.
+*/
+
+import { extractTypedIdentifiers, isUniqueIdentifier } from '../util/identifier.util';
+
+// eslint-disable-next-line import/prefer-default-export
+export const up = async (db, config, logger) => {
+  await db.collection('assetIdentifiers').createIndex(
+    { organizationId: 1, type: 1, value: 1, serial: 1 },
+    { unique: true, partialFilterExpression: { unique: true } }
+  );
+  await db.collection('assetIdentifiers').createIndex({ type: 1, value: 1, serial: 1 });
+  await db.collection('assetIdentifiers').createIndex({ assetId: 1 });
+
+  const events = await db.collection('events').find({
+    'content.data.type': 'ambrosus.asset.identifiers',
+    'content.idData.accessLevel': 0,
+  }).sort({ 'content.idData.timestamp': 1 });
+
+  let fillCount = 0;
+  let skipCount = 0;
+
+  const fillIdentifiers = async (event) => {
+    const { assetId, timestamp } = event.content.idData;
+
+    for (const identifier of extractTypedIdentifiers(event.content.data)) {
+      if (!identifier.value) {
+        skipCount = skipCount + 1;
+        continue;
+      }
+
+      const key = {
+        assetId,
+        type: identifier.type,
+        value: identifier.value,
+        serial: identifier.serial || null,
+        organizationId: event.organizationId,
+      };
+
+      try {
+        await db.collection('assetIdentifiers').updateOne(
+          key,
+          {
+            $setOnInsert: {
+              ...key,
+              timestamp,
+              unique: isUniqueIdentifier(identifier),
+              eventId: event.eventId,
+            },
+          },
+          { upsert: true }
+        );
+        fillCount = fillCount + 1;
+      } catch (error) {
+        // the oldest event keeps a unique identifier claimed by several assets
+        skipCount = skipCount + 1;
+      }
+    }
+  };
+
+  while (await events.hasNext()) {
+    await fillIdentifiers(await events.next());
+  }
+
+  logger.info(`Filled ${fillCount} indexed identifiers, skipped ${skipCount} invalid or conflicting ones`);
+};
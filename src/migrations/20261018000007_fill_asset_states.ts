@@ -0,0 +1,58 @@
+/*
+Copyright: Ambrosus Inc.
+Email: tech@ambrosus.io
+
+This Source Code Form is subject to the terms of the Mozilla Public License, v. 2.0. If a copy of the MPL was not distributed with this file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+This Source Code Form is “Incompatible With Secondary Licenses”, as defined by the Mozilla Public License, v. 2.0.
+*/
+
+import { projectEvent } from '../util/projection.util';
+
+// eslint-disable-next-line import/prefer-default-export
+export const up = async (db, config, logger) => {
+  await db.collection('assetStates').createIndex({ assetId: 1 }, { unique: true });
+
+  // existing schemas have no projection, so every type merges with the built-in defaults
+  const modes = {};
+
+  const assets = await db.collection('assets').find({}, { projection: { assetId: 1, organizationId: 1 } });
+
+  let fillCount = 0;
+
+  const fillState = async (asset) => {
+    const events = await db.collection('events').find({
+      'content.idData.assetId': asset.assetId,
+      'content.idData.accessLevel': 0,
+      'public': true,
+    }).toArray();
+
+    const state = events.reduce((projected, event) => projectEvent(projected, {
+      eventId: event.eventId,
+      timestamp: event.content.idData.timestamp,
+      data: event.content.data,
+      geoLocation: event.geoLocation,
+    }, modes), { properties: {}, timestamps: {}, eventCount: 0 });
+
+    await db.collection('assetStates').updateOne(
+      { assetId: asset.assetId },
+      {
+        $setOnInsert: {
+          ...state,
+          assetId: asset.assetId,
+          organizationId: asset.organizationId,
+          version: 1,
+          updatedOn: Math.floor(Date.now() / 1000),
+        },
+      },
+      { upsert: true }
+    );
+    fillCount = fillCount + 1;
+  };
+
+  while (await assets.hasNext()) {
+    await fillState(await assets.next());
+  }
+
+  logger.info(`Filled the state of ${fillCount} assets`);
+};
@@ -23,6 +23,8 @@ export interface IAccount {
   permissions: string[];
   registeredOn: number;
   registeredBy: string;
+  serviceAccountId?: string;
+  sessionsRevokedOn?: number;
 }
 
 @injectable()
@@ -35,4 +37,6 @@ export class Account implements IAccount {
   public permissions: string[];
   public registeredOn: number;
   public registeredBy: string;
+  public serviceAccountId?: string;
+  public sessionsRevokedOn?: number;
 }
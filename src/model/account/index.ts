@@ -14,3 +14,4 @@
 
 export * from './account-detail.model';
 export * from './account.model';
+export * from './service-account.model';
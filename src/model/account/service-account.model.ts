@@ -0,0 +1,87 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { Request } from 'express';
+import { injectable } from 'inversify';
+import * as uuidv4 from 'uuid/v4';
+
+import { getTimestamp, isIpAllowed } from '../../util';
+
+export interface IServiceAccount {
+  _id?: string;
+  serviceAccountId: string;
+  address: string;
+  previousAddresses: string[];
+  label: string;
+  organizationId: number;
+  allowedIps: string[];
+  expiresOn: number;
+  revokedOn?: number;
+  revokedBy?: string;
+  createdBy: string;
+  createdOn: number;
+  modifiedBy?: string;
+  modifiedOn?: number;
+}
+
+export interface IServiceAccountKey {
+  serviceAccount: ServiceAccount;
+  privateKey: string;
+}
+
+@injectable()
+export class ServiceAccount implements IServiceAccount {
+  public static fromRequest(req: Request) {
+    const serviceAccount = new ServiceAccount();
+    serviceAccount.serviceAccountId = uuidv4().replace(/-/g, '');
+    serviceAccount.previousAddresses = [];
+    serviceAccount.label = req.body.label;
+    serviceAccount.allowedIps = req.body.allowedIps || [];
+    serviceAccount.expiresOn = req.body.expiresOn;
+    serviceAccount.createdOn = getTimestamp();
+    return serviceAccount;
+  }
+
+  // reason a token signed with the address can not be used, or undefined when it can
+  public static rejectionReason(serviceAccount: ServiceAccount, address: string, ip: string): string {
+    if (serviceAccount.revokedOn !== undefined) {
+      return 'Service account revoked';
+    }
+    if (serviceAccount.address !== address) {
+      return 'Service account key rotated';
+    }
+    if (serviceAccount.expiresOn <= getTimestamp()) {
+      return 'Service account expired';
+    }
+    if (!isIpAllowed(serviceAccount.allowedIps, ip)) {
+      return 'Service account not allowed from this address';
+    }
+    return undefined;
+  }
+
+  public _id?: string;
+  public serviceAccountId: string;
+  public address: string;
+  public previousAddresses: string[];
+  public label: string;
+  public organizationId: number;
+  public allowedIps: string[];
+  public expiresOn: number;
+  public revokedOn?: number;
+  public revokedBy?: string;
+  public createdBy: string;
+  public createdOn: number;
+  public modifiedBy?: string;
+  public modifiedOn?: number;
+}
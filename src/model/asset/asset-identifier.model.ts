@@ -0,0 +1,62 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { injectable } from 'inversify';
+
+import { ITypedIdentifier } from '../../util/identifier.util';
+
+export interface IAssetIdentifier {
+  _id: string;
+  type: string;
+  value: string;
+  serial?: string;
+  unique: boolean;
+  assetId: string;
+  organizationId: number;
+  eventId: string;
+  timestamp: number;
+}
+
+@injectable()
+export class AssetIdentifier implements IAssetIdentifier {
+  public static forEvent(
+    identifier: ITypedIdentifier,
+    unique: boolean,
+    assetId: string,
+    organizationId: number,
+    eventId: string,
+    timestamp: number
+  ) {
+    const assetIdentifier = new AssetIdentifier();
+    assetIdentifier.type = identifier.type;
+    assetIdentifier.value = identifier.value;
+    assetIdentifier.serial = identifier.serial || null;
+    assetIdentifier.unique = unique;
+    assetIdentifier.assetId = assetId;
+    assetIdentifier.organizationId = organizationId;
+    assetIdentifier.eventId = eventId;
+    assetIdentifier.timestamp = timestamp;
+    return assetIdentifier;
+  }
+
+  public _id: string;
+  public type: string;
+  public value: string;
+  public serial?: string;
+  public unique: boolean;
+  public assetId: string;
+  public organizationId: number;
+  public eventId: string;
+  public timestamp: number;
+}
@@ -0,0 +1,50 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { injectable } from 'inversify';
+
+export interface IAssetLink {
+  _id: string;
+  parentId: string;
+  childId: string;
+  organizationId: number;
+  packedEventId: string;
+  packedAt: number;
+  unpackedEventId: string;
+  unpackedAt: number;
+}
+
+@injectable()
+export class AssetLink implements IAssetLink {
+  public static forContainment(parentId: string, childId: string, organizationId: number, eventId: string, timestamp: number) {
+    const assetLink = new AssetLink();
+    assetLink.parentId = parentId;
+    assetLink.childId = childId;
+    assetLink.organizationId = organizationId;
+    assetLink.packedEventId = eventId;
+    assetLink.packedAt = timestamp;
+    assetLink.unpackedEventId = null;
+    assetLink.unpackedAt = null;
+    return assetLink;
+  }
+
+  public _id: string;
+  public parentId: string;
+  public childId: string;
+  public organizationId: number;
+  public packedEventId: string;
+  public packedAt: number;
+  public unpackedEventId: string;
+  public unpackedAt: number;
+}
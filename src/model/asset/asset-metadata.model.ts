@@ -17,6 +17,8 @@ export interface IAssetMetaData {
   bundleTransactionHash: string;
   bundleUploadTimestamp: number;
   entityUploadTimestamp: number;
+  serviceAccountId?: string;
+  actingFor?: string;
 }
 
 export class AssetMetaData implements IAssetMetaData {
@@ -24,4 +26,6 @@ export class AssetMetaData implements IAssetMetaData {
   public bundleTransactionHash: string;
   public bundleUploadTimestamp: number;
   public entityUploadTimestamp: number;
+  public serviceAccountId?: string;
+  public actingFor?: string;
 }
@@ -0,0 +1,52 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { injectable } from 'inversify';
+
+import { getTimestamp, IProjectedState } from '../../util';
+
+export interface IAssetState extends IProjectedState {
+  _id?: string;
+  assetId: string;
+  organizationId: number;
+  version: number;
+  updatedOn: number;
+}
+
+@injectable()
+export class AssetState implements IAssetState {
+  public static forAsset(assetId: string, organizationId: number) {
+    const assetState = new AssetState();
+    assetState.assetId = assetId;
+    assetState.organizationId = organizationId;
+    assetState.properties = {};
+    assetState.timestamps = {};
+    assetState.eventCount = 0;
+    assetState.version = 0;
+    assetState.updatedOn = getTimestamp();
+    return assetState;
+  }
+
+  public _id?: string;
+  public assetId: string;
+  public organizationId: number;
+  public properties: object;
+  public timestamps: object;
+  public location?: object;
+  public lastEventId?: string;
+  public lastEventTimestamp?: number;
+  public eventCount: number;
+  public version: number;
+  public updatedOn: number;
+}
@@ -24,6 +24,8 @@ export interface IAsset {
   content: AssetContent;
   metadata: AssetMetaData;
   repository: AssetRepository;
+  public?: boolean;
+  sharedWith?: number[];
 }
 
 @injectable()
@@ -34,4 +36,6 @@ export class Asset implements IAsset {
   public content: AssetContent;
   public metadata: AssetMetaData;
   public repository: AssetRepository;
+  public public?: boolean;
+  public sharedWith?: number[];
 }
@@ -0,0 +1,57 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { injectable } from 'inversify';
+
+import { getTimestamp } from '../../util';
+import { AuthToken } from './auth-token.model';
+
+export interface IAuthSession {
+  _id?: string;
+  signature: string;
+  address: string;
+  validUntil: number;
+  expiresAt: Date;
+  firstSeen: number;
+  lastSeen: number;
+  lastIp?: string;
+  revokedOn?: number;
+  revokedBy?: string;
+}
+
+@injectable()
+export class AuthSession implements IAuthSession {
+  public static forToken(authToken: AuthToken, ip?: string) {
+    const authSession = new AuthSession();
+    authSession.signature = authToken.signature;
+    authSession.address = authToken.createdBy;
+    authSession.validUntil = authToken.validUntil;
+    // lets mongo drop sessions once the token has expired on its own
+    authSession.expiresAt = new Date(authToken.validUntil * 1000);
+    authSession.lastSeen = getTimestamp();
+    authSession.lastIp = ip;
+    return authSession;
+  }
+
+  public _id?: string;
+  public signature: string;
+  public address: string;
+  public validUntil: number;
+  public expiresAt: Date;
+  public firstSeen: number;
+  public lastSeen: number;
+  public lastIp?: string;
+  public revokedOn?: number;
+  public revokedBy?: string;
+}
@@ -20,6 +20,7 @@ import { AmbrosusError } from '../../errors';
 export interface IAuthToken {
   createdBy: string;
   validUntil: number;
+  createdOn: number;
   signature: string;
   authError: AmbrosusError;
 
@@ -30,6 +31,7 @@ export interface IAuthToken {
 export class AuthToken implements IAuthToken {
   public createdBy;
   public validUntil;
+  public createdOn;
   public signature;
   public authError;
 
@@ -15,3 +15,4 @@
 export * from './auth-token.model';
 export * from './user.model';
 export * from './user-principal.model';
+export * from './auth-session.model';
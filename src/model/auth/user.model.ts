@@ -17,7 +17,7 @@ import { injectable } from 'inversify';
 import { Account, AuthToken, Organization } from '../';
 import { timestampToDateString } from '../../util';
 import * as _ from 'lodash';
-import { AccountDetail } from '../account';
+import { AccountDetail, ServiceAccount } from '../account';
 
 export interface IUser {
   account: AccountDetail;
@@ -34,6 +34,7 @@ export class User implements IUser {
   public account: AccountDetail;
   public authToken: AuthToken;
   public organization: Organization;
+  public serviceAccount: ServiceAccount;
 
   public hasRole(role: string): boolean {
     return false;
@@ -93,6 +94,11 @@ export class User implements IUser {
     return this.hasPermission('super_account');
   }
 
+  // the human behind a service account, or the account itself
+  get actingFor(): string {
+    return this.serviceAccount ? this.serviceAccount.createdBy : this.address;
+  }
+
   get name(): string {
     return this.account ? this.account.fullName : undefined;
   }
@@ -0,0 +1,48 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { injectable } from 'inversify';
+
+import { IAnchoringObservation } from '../../util/anchoring.util';
+
+export interface IAnchoringTransition {
+  status: string;
+  timestamp: number;
+}
+
+export interface IBundleAnchoring extends IAnchoringObservation {
+  checkedOn: number;
+  history: IAnchoringTransition[];
+}
+
+@injectable()
+export class BundleAnchoring implements IBundleAnchoring {
+  public static fromObservation(previous: IBundleAnchoring, observation: IAnchoringObservation, timestamp: number) {
+    const bundleAnchoring = new BundleAnchoring();
+    Object.assign(bundleAnchoring, observation);
+    bundleAnchoring.checkedOn = timestamp;
+    bundleAnchoring.history = previous && previous.history ? previous.history : [];
+    if (!previous || previous.status !== observation.status) {
+      bundleAnchoring.history = bundleAnchoring.history.concat({ timestamp, status: observation.status });
+    }
+    return bundleAnchoring;
+  }
+
+  public status: string;
+  public confirmations: number;
+  public blockNumber?: number;
+  public blockHash?: string;
+  public checkedOn: number;
+  public history: IAnchoringTransition[];
+}
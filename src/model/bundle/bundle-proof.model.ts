@@ -0,0 +1,63 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { injectable } from 'inversify';
+
+import { IMerkleProofStep } from '../../util/merkle.util';
+
+export interface IBundleEntryId {
+  type: string;
+  id: string;
+}
+
+export interface IBundleProof {
+  bundleId: string;
+  entryType: string;
+  entryId: string;
+  leaf: string;
+  path: IMerkleProofStep[];
+  root: string;
+  bundleTransactionHash: string;
+  proofBlock: number;
+}
+
+@injectable()
+export class BundleProof implements IBundleProof {
+  public static forEntry(
+    bundleId: string,
+    entryType: string,
+    entryId: string,
+    leaf: string,
+    path: IMerkleProofStep[],
+    root: string
+  ) {
+    const bundleProof = new BundleProof();
+    bundleProof.bundleId = bundleId;
+    bundleProof.entryType = entryType;
+    bundleProof.entryId = entryId;
+    bundleProof.leaf = leaf;
+    bundleProof.path = path;
+    bundleProof.root = root;
+    return bundleProof;
+  }
+
+  public bundleId: string;
+  public entryType: string;
+  public entryId: string;
+  public leaf: string;
+  public path: IMerkleProofStep[];
+  public root: string;
+  public bundleTransactionHash: string;
+  public proofBlock: number;
+}
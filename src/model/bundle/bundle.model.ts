@@ -13,6 +13,7 @@
  */
 
 import { injectable } from 'inversify';
+import { BundleAnchoring } from './bundle-anchoring.model';
 import { BundleContent } from './bundle-content.model';
 import { BundleMetaData } from './bundle-metadata.model';
 
@@ -22,6 +23,11 @@ export interface IBundle {
   entries: object;
   content: BundleContent;
   metadata: BundleMetaData;
+  bundleTransactionHash?: string;
+  bundleProofBlock?: number;
+  merkleRoot?: string;
+  merkleLeafCount?: number;
+  anchoring?: BundleAnchoring;
 }
 
 @injectable()
@@ -31,4 +37,9 @@ export class Bundle implements IBundle {
   public entries: object;
   public content: BundleContent;
   public metadata: BundleMetaData;
+  public bundleTransactionHash?: string;
+  public bundleProofBlock?: number;
+  public merkleRoot?: string;
+  public merkleLeafCount?: number;
+  public anchoring?: BundleAnchoring;
 }
@@ -0,0 +1,94 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { Request } from 'express';
+import { injectable } from 'inversify';
+
+import { IBundlingWindow } from '../../util/bundling.util';
+
+export interface IOrganizationPriority {
+  organizationId: number;
+  priority: number;
+}
+
+export interface IPendingOrganizationEntries {
+  organizationId: number;
+  assets: number;
+  events: number;
+  oldestTimestamp: number;
+}
+
+export interface IPendingBundleEntries {
+  assets: number;
+  events: number;
+  oldestTimestamp?: number;
+  organizations: IPendingOrganizationEntries[];
+}
+
+export interface IBundlingPolicy {
+  _id?: string;
+  name: string;
+  minEntries: number;
+  maxEntries: number;
+  maxAge: number;
+  windows: IBundlingWindow[];
+  organizationPriorities: IOrganizationPriority[];
+  updatedBy?: string;
+  updatedOn?: number;
+}
+
+@injectable()
+export class BundlingPolicy implements IBundlingPolicy {
+  // applies until a super admin stores a policy: bundle anything pending within an hour, at any time
+  public static defaults() {
+    const bundlingPolicy = new BundlingPolicy();
+    bundlingPolicy.name = 'bundlesWorker';
+    bundlingPolicy.minEntries = 1;
+    bundlingPolicy.maxEntries = 16384;
+    bundlingPolicy.maxAge = 3600;
+    bundlingPolicy.windows = [];
+    bundlingPolicy.organizationPriorities = [];
+    return bundlingPolicy;
+  }
+
+  public static fromRequestForUpdate(req: Request) {
+    const bundlingPolicy = new BundlingPolicy();
+    if (undefined !== req.body['minEntries']) {
+      bundlingPolicy.minEntries = req.body.minEntries;
+    }
+    if (undefined !== req.body['maxEntries']) {
+      bundlingPolicy.maxEntries = req.body.maxEntries;
+    }
+    if (undefined !== req.body['maxAge']) {
+      bundlingPolicy.maxAge = req.body.maxAge;
+    }
+    if (undefined !== req.body['windows']) {
+      bundlingPolicy.windows = req.body.windows;
+    }
+    if (undefined !== req.body['organizationPriorities']) {
+      bundlingPolicy.organizationPriorities = req.body.organizationPriorities;
+    }
+    return bundlingPolicy;
+  }
+
+  public _id?: string;
+  public name: string;
+  public minEntries: number;
+  public maxEntries: number;
+  public maxAge: number;
+  public windows: IBundlingWindow[];
+  public organizationPriorities: IOrganizationPriority[];
+  public updatedBy?: string;
+  public updatedOn?: number;
+}
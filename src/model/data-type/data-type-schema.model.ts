@@ -0,0 +1,77 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { Request } from 'express';
+import { injectable } from 'inversify';
+import { getTimestamp } from '../../util';
+
+export interface IDataTypeSchema {
+  _id?: string;
+  organizationId: number;
+  type: string;
+  description?: string;
+  schema: object;
+  projection?: string;
+  createdBy?: string;
+  createdOn?: number;
+  modifiedBy?: string;
+  modifiedOn?: number;
+}
+
+@injectable()
+export class DataTypeSchema implements IDataTypeSchema {
+  public static fromRequest(req: Request) {
+    const dataTypeSchema = new DataTypeSchema();
+    dataTypeSchema.type = req.body.type;
+    dataTypeSchema.description = req.body.description;
+    dataTypeSchema.schema = req.body.schema;
+    dataTypeSchema.projection = req.body.projection;
+    return dataTypeSchema;
+  }
+
+  public static fromRequestForUpdate(req: Request) {
+    const dataTypeSchema = new DataTypeSchema();
+    if (undefined !== req.body['description']) {
+      dataTypeSchema.description = req.body.description;
+    }
+    if (undefined !== req.body['schema']) {
+      dataTypeSchema.schema = req.body.schema;
+    }
+    if (undefined !== req.body['projection']) {
+      dataTypeSchema.projection = req.body.projection;
+    }
+    return dataTypeSchema;
+  }
+
+  public _id?: string;
+  public organizationId: number;
+  public type: string;
+  public description?: string;
+  public schema: object;
+  public projection?: string;
+  public createdBy?: string;
+  public createdOn?: number;
+  public modifiedBy?: string;
+  public modifiedOn?: number;
+
+  public setCreationTimestamp(address: string) {
+    this.createdOn = getTimestamp();
+    this.createdBy = address;
+  }
+
+  public setMutationTimestamp(address: string) {
+    this.modifiedOn = getTimestamp();
+    this.modifiedBy = address;
+  }
+}
@@ -17,6 +17,8 @@ export interface IEventMetaData {
   bundleTransactionHash: string;
   bundleUploadTimestamp: number;
   entityUploadTimestamp: number;
+  serviceAccountId?: string;
+  actingFor?: string;
 }
 
 export class EventMetaData implements IEventMetaData {
@@ -24,4 +26,6 @@ export class EventMetaData implements IEventMetaData {
   public bundleTransactionHash: string;
   public bundleUploadTimestamp: number;
   public entityUploadTimestamp: number;
+  public serviceAccountId?: string;
+  public actingFor?: string;
 }
@@ -0,0 +1,66 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { injectable } from 'inversify';
+import { Event } from './event.model';
+
+export interface IEventStreamFilter {
+  assetId?: string;
+  createdBy?: string;
+  type?: string;
+  organizationId?: number;
+}
+
+@injectable()
+export class EventStreamFilter implements IEventStreamFilter {
+  public static fromQuery(query: object) {
+    const filter = new EventStreamFilter();
+    if (undefined !== query['assetId']) {
+      filter.assetId = query['assetId'];
+    }
+    if (undefined !== query['createdBy']) {
+      filter.createdBy = query['createdBy'];
+    }
+    if (undefined !== query['type']) {
+      filter.type = query['type'];
+    }
+    if (undefined !== query['organizationId']) {
+      filter.organizationId = +query['organizationId'];
+    }
+    return filter;
+  }
+
+  public assetId?: string;
+  public createdBy?: string;
+  public type?: string;
+  public organizationId?: number;
+
+  public matches(event: Event): boolean {
+    const idData = event.content.idData;
+
+    if (this.assetId !== undefined && idData.assetId !== this.assetId) {
+      return false;
+    }
+    if (this.createdBy !== undefined && idData.createdBy !== this.createdBy) {
+      return false;
+    }
+    if (this.organizationId !== undefined && event.organizationId !== this.organizationId) {
+      return false;
+    }
+    if (this.type !== undefined && !(event.content.data || []).some(entry => entry['type'] === this.type)) {
+      return false;
+    }
+    return true;
+  }
+}
@@ -24,6 +24,8 @@ export interface IEvent {
   content: EventContent;
   metadata: EventMetaData;
   repository: EventRepository;
+  geoLocation?: object;
+  public?: boolean;
 }
 
 @injectable()
@@ -34,4 +36,6 @@ export class Event implements IEvent {
   public content: EventContent;
   public metadata: EventMetaData;
   public repository: EventRepository;
+  public geoLocation?: object;
+  public public?: boolean;
 }
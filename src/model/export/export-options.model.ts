@@ -0,0 +1,51 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { Request } from 'express';
+import { injectable } from 'inversify';
+
+export interface IExportColumn {
+  name: string;
+  path?: string;
+  type?: string;
+  field?: string;
+}
+
+export interface IExportOptions {
+  format: string;
+  columns?: IExportColumn[];
+}
+
+@injectable()
+export class ExportOptions implements IExportOptions {
+  public static fromRequest(req: Request) {
+    const exportOptions = new ExportOptions();
+    exportOptions.format = req.body.format || 'ndjson';
+    if (undefined !== req.body['columns']) {
+      exportOptions.columns = req.body.columns;
+    }
+    return exportOptions;
+  }
+
+  public format: string;
+  public columns?: IExportColumn[];
+
+  get contentType(): string {
+    return this.format === 'csv' ? 'text/csv' : 'application/x-ndjson';
+  }
+
+  public getFileName(name: string): string {
+    return `${name}.${this.format === 'csv' ? 'csv' : 'ndjson'}`;
+  }
+}
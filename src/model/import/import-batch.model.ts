@@ -0,0 +1,87 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { injectable } from 'inversify';
+import * as uuidv4 from 'uuid/v4';
+
+import { getTimestamp } from '../../util';
+import { UserPrincipal } from '../auth';
+import { EventIdData } from '../event/event-iddata.model';
+
+export interface IImportRow {
+  row: number;
+  idData: EventIdData;
+  data: object[];
+  payload: string;
+  hash: string;
+}
+
+export interface IImportRowError {
+  row: number;
+  reason: string;
+}
+
+export interface IImportSignature {
+  row: number;
+  signature: string;
+}
+
+export interface IImportRowResult {
+  row: number;
+  eventId?: string;
+  success: boolean;
+  reason?: string;
+}
+
+export interface IImportBatch {
+  _id?: string;
+  batchId: string;
+  organizationId: number;
+  template: string;
+  status: string;
+  rows: IImportRow[];
+  errors: IImportRowError[];
+  report?: IImportRowResult[];
+  createdBy: string;
+  createdOn: number;
+  submittedOn?: number;
+}
+
+@injectable()
+export class ImportBatch implements IImportBatch {
+  public static forTemplate(template: string, user: UserPrincipal) {
+    const importBatch = new ImportBatch();
+    importBatch.batchId = uuidv4().replace(/-/g, '');
+    importBatch.organizationId = user.organizationId;
+    importBatch.template = template;
+    importBatch.status = 'pending';
+    importBatch.rows = [];
+    importBatch.errors = [];
+    importBatch.createdBy = user.address;
+    importBatch.createdOn = getTimestamp();
+    return importBatch;
+  }
+
+  public _id?: string;
+  public batchId: string;
+  public organizationId: number;
+  public template: string;
+  public status: string;
+  public rows: IImportRow[];
+  public errors: IImportRowError[];
+  public report?: IImportRowResult[];
+  public createdBy: string;
+  public createdOn: number;
+  public submittedOn?: number;
+}
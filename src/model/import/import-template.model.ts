@@ -0,0 +1,89 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { Request } from 'express';
+import { injectable } from 'inversify';
+import { getTimestamp } from '../../util';
+
+export interface IImportColumn {
+  column: string;
+  field: string;
+  type?: string;
+}
+
+export interface IImportTemplate {
+  _id?: string;
+  organizationId: number;
+  name: string;
+  description?: string;
+  eventType: string;
+  assetIdColumn: string;
+  timestampColumn?: string;
+  accessLevel: number;
+  columns: IImportColumn[];
+  createdBy?: string;
+  createdOn?: number;
+  modifiedBy?: string;
+  modifiedOn?: number;
+}
+
+@injectable()
+export class ImportTemplate implements IImportTemplate {
+  public static fromRequest(req: Request) {
+    const importTemplate = new ImportTemplate();
+    importTemplate.name = req.body.name;
+    importTemplate.description = req.body.description;
+    importTemplate.eventType = req.body.eventType;
+    importTemplate.assetIdColumn = req.body.assetIdColumn;
+    importTemplate.timestampColumn = req.body.timestampColumn;
+    importTemplate.accessLevel = req.body.accessLevel || 0;
+    importTemplate.columns = req.body.columns;
+    return importTemplate;
+  }
+
+  public static fromRequestForUpdate(req: Request) {
+    const importTemplate = new ImportTemplate();
+    const fields = ['description', 'eventType', 'assetIdColumn', 'timestampColumn', 'accessLevel', 'columns'];
+    fields.map(field => {
+      if (undefined !== req.body[field]) {
+        importTemplate[field] = req.body[field];
+      }
+    });
+    return importTemplate;
+  }
+
+  public _id?: string;
+  public organizationId: number;
+  public name: string;
+  public description?: string;
+  public eventType: string;
+  public assetIdColumn: string;
+  public timestampColumn?: string;
+  public accessLevel: number;
+  public columns: IImportColumn[];
+  public createdBy?: string;
+  public createdOn?: number;
+  public modifiedBy?: string;
+  public modifiedOn?: number;
+
+  public setCreationTimestamp(address: string) {
+    this.createdOn = getTimestamp();
+    this.createdBy = address;
+  }
+
+  public setMutationTimestamp(address: string) {
+    this.modifiedOn = getTimestamp();
+    this.modifiedBy = address;
+  }
+}
@@ -16,10 +16,21 @@ export * from './api-response';
 export * from './query';
 export * from './account';
 export * from './asset/asset.model';
+export * from './asset/asset-link.model';
+export * from './asset/asset-identifier.model';
+export * from './asset/asset-state.model';
 export * from './event/event.model';
 export * from './bundle/bundle.model';
+export * from './bundle/bundle-anchoring.model';
+export * from './bundle/bundle-proof.model';
+export * from './bundle/bundling-policy.model';
 export * from './auth';
 export * from './organization';
+export * from './data-type';
+export * from './export';
+export * from './import';
+export * from './transfer';
+export * from './verification';
 export * from './workerLog';
 export * from './workerInterval';
 export * from './admin';
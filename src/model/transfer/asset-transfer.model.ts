@@ -0,0 +1,92 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { injectable } from 'inversify';
+
+import { getTimestamp } from '../../util';
+
+export interface IAssetTransferIdData {
+  assets: string[];
+  toOrganizationId: number;
+  createdBy: string;
+  timestamp: number;
+  validUntil: number;
+}
+
+export interface IAssetTransferContent {
+  idData: IAssetTransferIdData;
+  signature: string;
+}
+
+export interface IAssetTransfer {
+  _id?: string;
+  transferId: string;
+  fromOrganizationId: number;
+  toOrganizationId: number;
+  assets: string[];
+  content: IAssetTransferContent;
+  status: string;
+  validUntil: number;
+  createdBy: string;
+  createdOn: number;
+  serviceAccountId?: string;
+  actingFor?: string;
+  resolvedBy?: string;
+  resolvedOn?: number;
+}
+
+@injectable()
+export class AssetTransfer implements IAssetTransfer {
+  public static forOffer(transferId: string, content: IAssetTransferContent, fromOrganizationId: number) {
+    const assetTransfer = new AssetTransfer();
+    assetTransfer.transferId = transferId;
+    assetTransfer.fromOrganizationId = fromOrganizationId;
+    assetTransfer.toOrganizationId = content.idData.toOrganizationId;
+    assetTransfer.assets = content.idData.assets;
+    assetTransfer.content = content;
+    assetTransfer.status = 'pending';
+    assetTransfer.validUntil = content.idData.validUntil;
+    assetTransfer.createdBy = content.idData.createdBy;
+    assetTransfer.createdOn = getTimestamp();
+    return assetTransfer;
+  }
+
+  public static forStatus(status: string) {
+    const assetTransfer = new AssetTransfer();
+    assetTransfer.status = status;
+    return assetTransfer;
+  }
+
+  public static forResolution(status: string, resolvedBy: string) {
+    const assetTransfer = AssetTransfer.forStatus(status);
+    assetTransfer.resolvedBy = resolvedBy;
+    assetTransfer.resolvedOn = getTimestamp();
+    return assetTransfer;
+  }
+
+  public _id?: string;
+  public transferId: string;
+  public fromOrganizationId: number;
+  public toOrganizationId: number;
+  public assets: string[];
+  public content: IAssetTransferContent;
+  public status: string;
+  public validUntil: number;
+  public createdBy: string;
+  public createdOn: number;
+  public serviceAccountId?: string;
+  public actingFor?: string;
+  public resolvedBy?: string;
+  public resolvedOn?: number;
+}
@@ -0,0 +1,71 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { injectable } from 'inversify';
+
+export interface IVerificationCheck {
+  name: string;
+  status: string;
+  expected?: string;
+  actual?: string;
+  reason?: string;
+}
+
+export interface IVerificationReport {
+  type: string;
+  id: string;
+  verified: boolean;
+  checks: IVerificationCheck[];
+}
+
+@injectable()
+export class VerificationReport implements IVerificationReport {
+  public static forEntity(type: string, id: string) {
+    const verificationReport = new VerificationReport();
+    verificationReport.type = type;
+    verificationReport.id = id;
+    verificationReport.verified = true;
+    verificationReport.checks = [];
+    return verificationReport;
+  }
+
+  public type: string;
+  public id: string;
+  public verified: boolean;
+  public checks: IVerificationCheck[];
+
+  public compare(name: string, expected: string, actual: string) {
+    const status = expected === actual ? 'passed' : 'failed';
+    this.addCheck({ name, status, expected, actual });
+  }
+
+  public pass(name: string) {
+    this.addCheck({ name, status: 'passed' });
+  }
+
+  public fail(name: string, reason: string) {
+    this.addCheck({ name, reason, status: 'failed' });
+  }
+
+  public skip(name: string, reason: string) {
+    this.addCheck({ name, reason, status: 'skipped' });
+  }
+
+  private addCheck(check: IVerificationCheck) {
+    this.checks.push(check);
+    if (check.status === 'failed') {
+      this.verified = false;
+    }
+  }
+}
@@ -16,7 +16,10 @@
 
 import { 
   Account, 
-  APIQuery
+  APIQuery,
+  Asset,
+  Event,
+  UserPrincipal
 } from '../model';
 
 import { OrganizationRepository } from '../database/repository';
@@ -31,9 +34,9 @@ function hasPermission(permissions: string[], permission: string): boolean {
   return permissions ? permissions.indexOf(permission) > -1 : false;
 }
 
-function ensureAccountIsActive(modifier :Account) {
+function ensureAccountIsActive(modifier :Account, whos = 'modifier') {
   if (!modifier.active) {
-    throw new PermissionError({ reason: 'modifier account must be active' });
+    throw new PermissionError({ reason: `${whos} account must be active` });
   }
 }
 
@@ -79,11 +82,11 @@ function ensureCorrectPermissions(account :Account) {
   account.permissions.forEach(validateCorrectPermission);
 }
 
-async function ensureOrganizationIsActive(organizationRepository: OrganizationRepository, modifier: Account) {
+async function ensureOrganizationIsActive(organizationRepository: OrganizationRepository, modifier: Account, whos = 'modifiers') {
   const organization = await organizationRepository.findOne(new APIQuery({ organizationId: modifier.organization }));
 
-  if (!organization.active) {
-    throw new PermissionError({ reason: 'modifiers organization must be active' });
+  if (!organization || !organization.active) {
+    throw new PermissionError({ reason: `${whos} organization must be active` });
   }
 }
 
@@ -106,6 +109,35 @@ export const ensureCanCreateAccount = async (
   ensureNoSuperPermission(newAccount.permissions);
 };
 
+export const serviceAccountPermissions = [Permission.create_asset, Permission.create_event];
+
+export const ensureCanManageServiceAccount = async (
+  organizationRepository: OrganizationRepository,
+  manager: Account,
+  permissions: string[],
+  accessLevel: number
+) => {
+  ensureAccountIsActive(manager, 'manager');
+
+  if (manager.serviceAccountId) {
+    throw new PermissionError({ reason: 'service accounts can not manage service accounts' });
+  }
+
+  ensureAccessLevelLess(manager, accessLevel, 'service account');
+
+  permissions.forEach(validateCorrectPermission);
+  permissions.forEach(permission => {
+    if (!hasPermission(serviceAccountPermissions, permission)) {
+      throw new PermissionError({ reason: `${permission} can not be granted to a service account` });
+    }
+    if (!hasPermission(manager.permissions, permission) && !hasPermission(manager.permissions, Permission.super_account)) {
+      throw new PermissionError({ reason: `manager must have ${permission} permission to grant it` });
+    }
+  });
+
+  await ensureOrganizationIsActive(organizationRepository, manager, 'managers');
+};
+
 export const ensureCanModifyAccount = async (
   organizationRepository: OrganizationRepository,
   modifier: Account,
@@ -115,6 +147,10 @@ export const ensureCanModifyAccount = async (
 ) => {
   ensureAccountIsActive(modifier);
 
+  if (target.serviceAccountId) {
+    throw new PermissionError({ reason: 'service accounts can not be modified, revoke and recreate them instead' });
+  }
+
   if (newAccessLevel !== undefined) {
     ensureAccessLevelLess(modifier, target.accessLevel, 'target');
     ensureAccessLevelLess(modifier, newAccessLevel, 'new');
@@ -133,14 +169,90 @@ export const ensureCanModifyAccount = async (
   ensureNoSuperPermission(newPermissions);
 };
 
-export const ensureCanCreateAsset = async ( // TODO
+export const ensureCanCreateAsset = async (
+  organizationRepository: OrganizationRepository,
+  creator: Account
 ) => {
-  return
+  ensureAccountIsActive(creator, 'creator');
+
+  await ensureOrganizationIsActive(organizationRepository, creator, 'creators');
 };
 
-export const ensureCanCreateEvent = async ( // TODO
+export const ensureCanCreateEvent = async (
+  organizationRepository: OrganizationRepository,
+  creator: Account
 ) => {
-  return
+  ensureAccountIsActive(creator, 'creator');
+
+  await ensureOrganizationIsActive(organizationRepository, creator, 'creators');
+};
+
+export const ensureCanAttachEvent = (creator: Account, asset: Asset, accessLevel: number) => {
+  if (accessLevel > creator.accessLevel) {
+    throw new PermissionError({ reason: `event accessLevel (${accessLevel}) must be less or equal to creators (${creator.accessLevel})` });
+  }
+
+  if (hasPermission(creator.permissions, Permission.super_account)) {
+    return
+  }
+
+  if (asset.organizationId === creator.organization) {
+    return
+  }
+
+  if (!asset.sharedWith || asset.sharedWith.indexOf(creator.organization) < 0) {
+    throw new PermissionError({ reason: `asset ${asset.assetId} belongs to another organization and is not shared with creators organization` });
+  }
+};
+
+export const getEventReadFilter = (user: UserPrincipal) => {
+  if (!user || !user.isAuthorized()) {
+    return { public: true };
+  }
+
+  if (user.isSuperAdmin) {
+    return {};
+  }
+
+  return {
+    $or: [
+      { public: true },
+      { organizationId: user.organizationId, 'content.idData.accessLevel': { $lte: user.accessLevel } },
+    ],
+  };
+};
+
+export const getAssetReadFilter = (user: UserPrincipal) => {
+  if (!user || !user.isAuthorized()) {
+    return { public: true };
+  }
+
+  if (user.isSuperAdmin) {
+    return {};
+  }
+
+  return {
+    $or: [
+      { public: true },
+      { organizationId: user.organizationId },
+      { sharedWith: user.organizationId },
+    ],
+  };
+};
+
+export const canReadEvent = (user: UserPrincipal, event: Event): boolean => {
+  if (event.public) {
+    return true;
+  }
+
+  if (!user || !user.isAuthorized()) {
+    return false;
+  }
+
+  return user.isSuperAdmin || (
+    event.organizationId === user.organizationId &&
+    event.content.idData.accessLevel <= user.accessLevel
+  );
 };
 
 export const ensureCanPushBundle = async (executor: Account) => {
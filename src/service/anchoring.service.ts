@@ -0,0 +1,107 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { config } from '../config';
+import { TYPE } from '../constant/types';
+import { BundleRepository } from '../database/repository';
+import { ILogger } from '../interface/logger.inferface';
+import { Bundle, BundleAnchoring } from '../model';
+import { getTimestamp, IAnchoringReceipt, observeAnchoring } from '../util';
+import { Web3Service } from './web3.service';
+
+// runs outside of requests, so it must not depend on the UserPrincipal
+@injectable()
+export class AnchoringService {
+  private timer;
+  private running = false;
+
+  constructor(
+    @inject(TYPE.BundleRepository) private readonly bundleRepository: BundleRepository,
+    @inject(TYPE.Web3Service) private readonly web3Service: Web3Service,
+    @inject(TYPE.LoggerService) private readonly logger: ILogger
+  ) { }
+
+  public start() {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.checkRecentBundles(), config.anchoring.interval * 1000);
+  }
+
+  public stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  public async checkRecentBundles(): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+
+    let checkCount = 0;
+    try {
+      const bundles = await this.bundleRepository.findAnchoredSince(
+        getTimestamp() - config.anchoring.period,
+        config.anchoring.batchSize
+      );
+      if (bundles.length > 0) {
+        const currentBlock = await this.web3Service.getBlockNumber();
+
+        for (const bundle of bundles) {
+          await this.checkBundle(bundle, currentBlock);
+          checkCount += 1;
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`Bundle anchoring check failed: ${error}`);
+    } finally {
+      this.running = false;
+    }
+
+    return checkCount;
+  }
+
+  public async checkBundle(bundle: Bundle, currentBlock: number): Promise<BundleAnchoring> {
+    const receipt = await this.web3Service.getTransactionReceipt(bundle.bundleTransactionHash);
+
+    const observation = observeAnchoring(
+      bundle.anchoring,
+      receipt ? this.toAnchoringReceipt(receipt) : undefined,
+      currentBlock,
+      config.anchoring.confirmations
+    );
+
+    const anchoring = BundleAnchoring.fromObservation(bundle.anchoring, observation, getTimestamp());
+    if (bundle.anchoring && bundle.anchoring.status !== anchoring.status) {
+      this.logger.info(`Bundle ${bundle.bundleId} anchoring changed from ${bundle.anchoring.status} to ${anchoring.status}`);
+    }
+
+    await this.bundleRepository.setAnchoring(bundle.bundleId, anchoring);
+
+    return anchoring;
+  }
+
+  // nodes report the status as a boolean, a quantity or, before byzantium, not at all
+  private toAnchoringReceipt(receipt): IAnchoringReceipt {
+    return {
+      status: receipt.status !== false && receipt.status !== '0x0' && receipt.status !== 0,
+      blockNumber: +receipt.blockNumber,
+      blockHash: receipt.blockHash,
+    };
+  }
+}
@@ -0,0 +1,249 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../constant/types';
+import { AssetLinkRepository } from '../database/repository';
+import { Account, APIQuery, Asset, AssetLink, Event } from '../model';
+import { ensureCanAttachEvent } from '../security/access.check';
+import { extractContainment, isAggregation } from '../util';
+import { NotFoundError, ValidationError } from '../errors';
+
+import { AssetService } from './asset.service';
+
+const maxHierarchyDepth = 10;
+
+export interface IHierarchyNode {
+  assetId: string;
+  packedEventId?: string;
+  packedAt?: number;
+  unpackedAt?: number;
+  children?: IHierarchyNode[];
+}
+
+export interface IContainmentLink {
+  parentId: string;
+  childId: string;
+}
+
+export interface IContainerWindow {
+  assetId: string;
+  from: number;
+  to: number;
+}
+
+@injectable()
+export class AssetHierarchyService {
+  constructor(
+    @inject(TYPE.AssetLinkRepository) private readonly assetLinkRepository: AssetLinkRepository,
+    @inject(TYPE.AssetService) private readonly assetService: AssetService
+  ) {}
+
+  public async getChildren(assetId: string, at?: number): Promise<IHierarchyNode[]> {
+    await this.ensureAssetVisible(assetId);
+
+    const links = await this.assetLinkRepository.findDescendantLinks(assetId, at, 1);
+    return links
+      .sort((a, b) => b.packedAt - a.packedAt)
+      .map(link => this.toNode(link.childId, link));
+  }
+
+  public async getAncestors(assetId: string, at?: number): Promise<IHierarchyNode[]> {
+    await this.ensureAssetVisible(assetId);
+
+    const links = await this.assetLinkRepository.findAncestorLinks(assetId, at, maxHierarchyDepth);
+    return links
+      .sort((a, b) => a['depth'] - b['depth'])
+      .map(link => this.toNode(link.parentId, link));
+  }
+
+  public async getTree(assetId: string, at?: number, depth: number = maxHierarchyDepth): Promise<IHierarchyNode> {
+    await this.ensureAssetVisible(assetId);
+
+    const links = await this.assetLinkRepository.findDescendantLinks(assetId, at, depth);
+
+    const childLinks = {};
+    links.map(link => {
+      childLinks[link.parentId] = (childLinks[link.parentId] || []).concat(link);
+    });
+
+    const buildChildren = (parentId: string, path: string[]): IHierarchyNode[] =>
+      (childLinks[parentId] || [])
+        .filter(link => path.indexOf(link.childId) < 0)
+        .sort((a, b) => b.packedAt - a.packedAt)
+        .map(link => ({
+          ...this.toNode(link.childId, link),
+          children: buildChildren(link.childId, path.concat(link.childId)),
+        }));
+
+    return {
+      assetId,
+      children: buildChildren(assetId, [assetId]),
+    };
+  }
+
+  // time windows during which the asset sat, directly or transitively, inside each container
+  public async getContainerWindows(assetId: string): Promise<IContainerWindow[]> {
+    const windows: IContainerWindow[] = [];
+
+    let pending = [{ assetId, from: 0, to: null, path: [assetId] }];
+    for (let depth = 0; depth < maxHierarchyDepth && pending.length > 0; depth += 1) {
+      const links = await this.assetLinkRepository.find(
+        new APIQuery({ childId: { $in: Array.from(new Set(pending.map(item => item.assetId))) } })
+      );
+
+      const next = [];
+      for (const item of pending) {
+        links
+          .filter(link => link.childId === item.assetId && item.path.indexOf(link.parentId) < 0)
+          .map(link => {
+            const from = Math.max(item.from, link.packedAt);
+            const to = [item.to, link.unpackedAt]
+              .filter(value => value !== null && value !== undefined)
+              .reduce((min, value) => min === null ? value : Math.min(min, value), null);
+
+            if (to === null || from <= to) {
+              windows.push({ from, to, assetId: link.parentId });
+              next.push({ from, to, assetId: link.parentId, path: item.path.concat(link.parentId) });
+            }
+          });
+      }
+      pending = next;
+    }
+
+    return windows;
+  }
+
+  // batchLinks are the links of events accepted earlier in the same batch, they are not stored yet
+  public async validateContainment(
+    creator: Account,
+    assetId: string,
+    accessLevel: number,
+    data: object[],
+    batchLinks: IContainmentLink[] = []
+  ) {
+    const children = this.getContainmentLinks(assetId, accessLevel, data).map(link => link.childId);
+
+    if (children.length === 0) {
+      return;
+    }
+
+    if (children.indexOf(assetId) > -1) {
+      throw new ValidationError({ reason: `Asset with assetId=${assetId} cannot contain itself` });
+    }
+
+    const existingAssets = {};
+    (await this.assetService.getAssetsByIds(children)).map(asset => {
+      existingAssets[asset.assetId] = asset;
+    });
+
+    for (const childId of children) {
+      const child: Asset = existingAssets[childId];
+      if (!child) {
+        throw new ValidationError({ reason: `Asset with assetId=${childId} not found` });
+      }
+      ensureCanAttachEvent(creator, child, accessLevel);
+    }
+
+    const ancestors = await this.findAncestorIds(assetId, batchLinks);
+
+    const cyclic = children.filter(childId => ancestors.has(childId));
+    if (cyclic.length > 0) {
+      throw new ValidationError({ reason: `Asset with assetId=${cyclic[0]} already contains assetId=${assetId}` });
+    }
+  }
+
+  // the links an event packs, encrypted containment data stays inside the event
+  public getContainmentLinks(assetId: string, accessLevel: number, data: object[]): IContainmentLink[] {
+    if (accessLevel !== 0) {
+      return [];
+    }
+
+    return extractContainment(data)
+      .filter(containment => isAggregation(containment))
+      .reduce((result, containment) => result.concat(containment.children), [])
+      .map(childId => ({ childId, parentId: assetId }));
+  }
+
+  // only public events are indexed, encrypted containment data stays inside the event
+  public async recordContainment(event: Event) {
+    const idData = event.content.idData;
+    if (idData.accessLevel !== 0) {
+      return;
+    }
+
+    for (const containment of extractContainment(event.content.data)) {
+      if (isAggregation(containment)) {
+        // an asset sits in one container at a time, packing it elsewhere unpacks it first
+        await this.assetLinkRepository.closeLinks(
+          new APIQuery({ childId: { $in: containment.children } }),
+          event.eventId,
+          idData.timestamp
+        );
+        await this.assetLinkRepository.createBulk(containment.children.map(childId =>
+          AssetLink.forContainment(idData.assetId, childId, event.organizationId, event.eventId, idData.timestamp)
+        ));
+      } else {
+        const apiQuery = new APIQuery({ parentId: idData.assetId });
+        if (containment.children) {
+          apiQuery.addToQuery({ childId: { $in: containment.children } });
+        }
+        await this.assetLinkRepository.closeLinks(apiQuery, event.eventId, idData.timestamp);
+      }
+    }
+  }
+
+  private async findAncestorIds(assetId: string, batchLinks: IContainmentLink[]): Promise<Set<string>> {
+    const ancestors = new Set<string>();
+
+    let pending = [assetId];
+    while (pending.length > 0) {
+      const next = [];
+      for (const childId of pending) {
+        const stored = (await this.assetLinkRepository.findAncestorLinks(childId, undefined, maxHierarchyDepth))
+          .map(link => link.parentId);
+        stored.map(parentId => ancestors.add(parentId));
+
+        // a batch link can continue the chain from the asset or from any of its stored ancestors
+        batchLinks
+          .filter(link => link.childId === childId || stored.indexOf(link.childId) > -1)
+          .filter(link => link.parentId !== assetId && !ancestors.has(link.parentId))
+          .map(link => {
+            ancestors.add(link.parentId);
+            next.push(link.parentId);
+          });
+      }
+      pending = next;
+    }
+
+    return ancestors;
+  }
+
+  private async ensureAssetVisible(assetId: string) {
+    const asset = await this.assetService.getAsset(assetId);
+    if (!asset) {
+      throw new NotFoundError({ reason: `Asset with assetId=${assetId} not found` });
+    }
+  }
+
+  private toNode(assetId: string, link: AssetLink): IHierarchyNode {
+    return {
+      assetId,
+      packedEventId: link.packedEventId,
+      packedAt: link.packedAt,
+      unpackedAt: link.unpackedAt,
+    };
+  }
+}
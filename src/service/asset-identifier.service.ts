@@ -0,0 +1,241 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../constant/types';
+import { AssetIdentifierRepository } from '../database/repository';
+import { APIQuery, AssetIdentifier, Event, MongoPagedResult } from '../model';
+import {
+  extractTypedIdentifiers,
+  isUniqueIdentifier,
+  ITypedIdentifier,
+  normalizeIdentifier,
+  normalizeIdentifierType,
+  parseDigitalLink
+} from '../util';
+import { NotFoundError, ValidationError } from '../errors';
+
+import { AssetService } from './asset.service';
+
+const patternPrefix = 'pattern(';
+
+export interface IAssignedIdentifier extends ITypedIdentifier {
+  assetId: string;
+}
+
+@injectable()
+export class AssetIdentifierService {
+  constructor(
+    @inject(TYPE.AssetIdentifierRepository) private readonly assetIdentifierRepository: AssetIdentifierRepository,
+    @inject(TYPE.AssetService) private readonly assetService: AssetService
+  ) {}
+
+  public async getAssetIdentifiers(assetId: string): Promise<AssetIdentifier[]> {
+    const asset = await this.assetService.getAsset(assetId);
+    if (!asset) {
+      throw new NotFoundError({ reason: `Asset with assetId=${assetId} not found` });
+    }
+
+    const apiQuery = new APIQuery({ assetId });
+    apiQuery.fields = {
+      _id: 0,
+      assetId: 0,
+    };
+    return this.assetIdentifierRepository.find(apiQuery);
+  }
+
+  public async lookupAssets(
+    type: string,
+    value: string,
+    serial: string,
+    organizationId: number,
+    apiQuery: APIQuery
+  ): Promise<MongoPagedResult> {
+    const identifierType = normalizeIdentifierType(type);
+    const normalized = normalizeIdentifier(identifierType, value);
+    if (!normalized) {
+      throw new ValidationError({ reason: `Invalid ${identifierType} identifier: ${value}` });
+    }
+
+    const query = { type: identifierType, value: normalized };
+    if (serial) {
+      query['serial'] = serial;
+    }
+    if (organizationId) {
+      query['organizationId'] = organizationId;
+    }
+
+    apiQuery.query = { assetId: { $in: await this.findAssetIds(query) } };
+    return this.assetService.getAssets(apiQuery);
+  }
+
+  public async resolveDigitalLink(path: string, apiQuery: APIQuery): Promise<MongoPagedResult> {
+    const digitalLink = parseDigitalLink(path);
+    if (!digitalLink) {
+      throw new ValidationError({ reason: `Not a valid GS1 Digital Link: ${path}` });
+    }
+
+    const queries = digitalLink.identifiers.map(identifier => {
+      const query = { type: identifier.type, value: identifier.value };
+      if (identifier.serial) {
+        query['serial'] = identifier.serial;
+      }
+      return query;
+    });
+
+    apiQuery.query = { assetId: { $in: await this.findAssetIdsMatchingAll(queries) } };
+    return this.assetService.getAssets(apiQuery);
+  }
+
+  // every searched word is taken as an identifier value, GTINs in any of their lengths
+  public findSearchedIdentifiers(text: string, organizationId: number): Promise<AssetIdentifier[]> {
+    const values = new Set<string>();
+    `${text}`
+      .split(/\s+/)
+      .filter(word => word.length && word[0] !== '-')
+      .map(word => word.replace(/^"|"$/g, ''))
+      .filter(word => word.length)
+      .map(word => {
+        values.add(word);
+        values.add(normalizeIdentifier('gtin', word));
+      });
+    values.delete(undefined);
+
+    const apiQuery = new APIQuery({ organizationId, value: { $in: Array.from(values) } });
+    apiQuery.fields = {
+      _id: 0,
+    };
+    return this.assetIdentifierRepository.find(apiQuery);
+  }
+
+  // legacy identifier[type]=value filters, every filter has to match
+  public findAssetIdsForFilters(filters: object): Promise<string[]> {
+    return this.findAssetIdsMatchingAll(Object.keys(filters).map(key => {
+      const type = normalizeIdentifierType(key);
+      return { type, value: this.getValueFilter(type, filters[key]) };
+    }));
+  }
+
+  // batchIdentifiers are the unique identifiers of events accepted earlier in the same batch, they are not stored yet
+  public async validateIdentifiers(
+    organizationId: number,
+    assetId: string,
+    accessLevel: number,
+    data: object[],
+    batchIdentifiers: IAssignedIdentifier[] = []
+  ) {
+    if (accessLevel !== 0) {
+      return;
+    }
+
+    const identifiers = extractTypedIdentifiers(data);
+
+    const invalid = identifiers.find(identifier => !identifier.value);
+    if (invalid) {
+      throw new ValidationError({ reason: `Invalid ${invalid.type} identifier` });
+    }
+
+    const unique = identifiers.filter(identifier => isUniqueIdentifier(identifier));
+    if (unique.length === 0) {
+      return;
+    }
+
+    const sameIdentifier = (a: ITypedIdentifier, b: ITypedIdentifier) =>
+      a.type === b.type && a.value === b.value && (a.serial || null) === (b.serial || null);
+
+    const [taken] = batchIdentifiers
+      .filter(identifier => identifier.assetId !== assetId && unique.some(candidate => sameIdentifier(candidate, identifier)))
+      .concat(await this.assetIdentifierRepository.find(new APIQuery({
+        organizationId,
+        unique: true,
+        assetId: { $ne: assetId },
+        $or: unique.map(identifier => ({ type: identifier.type, value: identifier.value, serial: identifier.serial || null })),
+      })));
+    if (taken) {
+      const serial = taken.serial ? ` serial ${taken.serial}` : '';
+      throw new ValidationError({
+        reason: `Identifier ${taken.type} ${taken.value}${serial} already identifies asset ${taken.assetId}`,
+      });
+    }
+  }
+
+  public getUniqueIdentifiers(assetId: string, accessLevel: number, data: object[]): IAssignedIdentifier[] {
+    if (accessLevel !== 0) {
+      return [];
+    }
+
+    return extractTypedIdentifiers(data)
+      .filter(identifier => !!identifier.value && isUniqueIdentifier(identifier))
+      .map(identifier => ({ ...identifier, assetId }));
+  }
+
+  // only public events are indexed, lookups and search never see encrypted data
+  public async recordIdentifiers(event: Event) {
+    const idData = event.content.idData;
+    if (idData.accessLevel !== 0) {
+      return;
+    }
+
+    const identifiers = extractTypedIdentifiers(event.content.data)
+      .filter(identifier => !!identifier.value)
+      .map(identifier => AssetIdentifier.forEvent(
+        identifier,
+        isUniqueIdentifier(identifier),
+        idData.assetId,
+        event.organizationId,
+        event.eventId,
+        idData.timestamp
+      ));
+
+    if (identifiers.length > 0) {
+      await this.assetIdentifierRepository.addIdentifiers(identifiers);
+    }
+  }
+
+  private async findAssetIdsMatchingAll(queries: object[]): Promise<string[]> {
+    let assetIds: string[];
+
+    for (const query of queries) {
+      const matches = await this.findAssetIds(query);
+
+      assetIds = assetIds ? assetIds.filter(assetId => matches.indexOf(assetId) > -1) : matches;
+    }
+
+    return assetIds || [];
+  }
+
+  private async findAssetIds(query: object): Promise<string[]> {
+    const apiQuery = new APIQuery(query);
+    apiQuery.fields = {
+      assetId: 1,
+    };
+    const identifiers = await this.assetIdentifierRepository.find(apiQuery);
+    return Array.from(new Set(identifiers.map(identifier => identifier.assetId)));
+  }
+
+  private getValueFilter(type: string, value) {
+    const text = `${value}`;
+    if (text.startsWith(patternPrefix) && text.endsWith(')')) {
+      const pattern = text
+        .slice(patternPrefix.length, -1)
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+      return { $regex: `^${pattern}$` };
+    }
+
+    return normalizeIdentifier(type, value) || text;
+  }
+}
@@ -0,0 +1,165 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../constant/types';
+import { AssetStateRepository, EventRepository } from '../database/repository';
+import { ILogger } from '../interface/logger.inferface';
+import { APIQuery, Asset, AssetState, Event, UserPrincipal } from '../model';
+import { getTimestamp, projectEvent } from '../util';
+import { NotFoundError } from '../errors';
+
+import { AssetService } from './asset.service';
+import { DataTypeSchemaService } from './data-type-schema.service';
+
+const maximumSaveAttempts = 5;
+
+@injectable()
+export class AssetStateService {
+  constructor(
+    @inject(TYPE.UserPrincipal) private readonly user: UserPrincipal,
+    @inject(TYPE.AssetStateRepository) private readonly assetStateRepository: AssetStateRepository,
+    @inject(TYPE.EventRepository) private readonly eventRepository: EventRepository,
+    @inject(TYPE.AssetService) private readonly assetService: AssetService,
+    @inject(TYPE.DataTypeSchemaService) private readonly dataTypeSchemaService: DataTypeSchemaService,
+    @inject(TYPE.LoggerService) private readonly logger: ILogger
+  ) {}
+
+  public async getAssetState(assetId: string): Promise<AssetState> {
+    const asset = await this.assetService.getAsset(assetId);
+    if (!asset) {
+      throw new NotFoundError({ reason: `Asset with assetId=${assetId} not found` });
+    }
+
+    const apiQuery = new APIQuery({ assetId });
+    apiQuery.fields = {
+      _id: 0,
+      version: 0,
+    };
+    const assetState = await this.assetStateRepository.findOne(apiQuery) || AssetState.forAsset(assetId, asset.organizationId);
+
+    // the owner may have changed since the last event
+    assetState.organizationId = asset.organizationId;
+    delete assetState.version;
+
+    return assetState;
+  }
+
+  // a failed projection does not fail the event, the state can be rebuilt later
+  public async applyEvent(event: Event) {
+    if (event.content.idData.accessLevel !== 0 || !event.public) {
+      return;
+    }
+
+    try {
+      const [asset] = await this.assetService.getAssetsByIds([event.content.idData.assetId]);
+      const modes = await this.dataTypeSchemaService.getProjectionModes(asset.organizationId);
+
+      for (let attempt = 0; attempt < maximumSaveAttempts; attempt += 1) {
+        const current = await this.assetStateRepository.findOne(new APIQuery({ assetId: asset.assetId })) ||
+          AssetState.forAsset(asset.assetId, asset.organizationId);
+
+        if (await this.saveProjection(current, asset, [event], modes)) {
+          return;
+        }
+      }
+      this.logger.warn(`Asset state of ${asset.assetId} changed concurrently, event ${event.eventId} not projected`);
+    } catch (error) {
+      this.logger.error(`Asset state projection of event ${event.eventId} failed: ${error}`);
+    }
+  }
+
+  public async rebuildAssetState(assetId: string): Promise<AssetState> {
+    const [asset] = await this.assetService.getAssetsByIds([assetId]);
+    if (!asset || (!this.user.isSuperAdmin && asset.organizationId !== this.user.organizationId)) {
+      throw new NotFoundError({ reason: `Asset with assetId=${assetId} not found in the sender's organization` });
+    }
+
+    await this.rebuild(asset);
+
+    return this.getAssetState(assetId);
+  }
+
+  // like applyEvent, a failure leaves the state to a later rebuild
+  public async refreshAssetState(assetId: string) {
+    try {
+      const [asset] = await this.assetService.getAssetsByIds([assetId]);
+      if (asset) {
+        await this.rebuild(asset);
+      }
+    } catch (error) {
+      this.logger.error(`Asset state refresh of ${assetId} failed: ${error}`);
+    }
+  }
+
+  public async rebuildAllAssetStates(): Promise<number> {
+    const assets = await this.assetService.getAssetsCursor(new APIQuery({}));
+
+    let rebuildCount = 0;
+    while (await assets.hasNext()) {
+      await this.rebuild(await assets.next());
+      rebuildCount += 1;
+    }
+
+    this.logger.info(`Rebuilt the state of ${rebuildCount} assets`);
+    return rebuildCount;
+  }
+
+  private async rebuild(asset: Asset) {
+    const modes = await this.dataTypeSchemaService.getProjectionModes(asset.organizationId);
+
+    const apiQuery = new APIQuery({
+      'content.idData.assetId': asset.assetId,
+      'content.idData.accessLevel': 0,
+      'public': true,
+    });
+    apiQuery.fields = {
+      'eventId': 1,
+      'content.idData.timestamp': 1,
+      'content.data': 1,
+      'geoLocation': 1,
+    };
+    const events = await this.eventRepository.find(apiQuery);
+
+    for (let attempt = 0; attempt < maximumSaveAttempts; attempt += 1) {
+      const current = await this.assetStateRepository.findOne(new APIQuery({ assetId: asset.assetId }));
+      const empty = AssetState.forAsset(asset.assetId, asset.organizationId);
+      empty.version = current ? current.version : 0;
+
+      if (await this.saveProjection(empty, asset, events, modes)) {
+        return;
+      }
+    }
+    this.logger.warn(`Asset state of ${asset.assetId} changed concurrently during the rebuild`);
+  }
+
+  private saveProjection(assetState: AssetState, asset: Asset, events: Event[], modes: object): Promise<boolean> {
+    const expectedVersion = assetState.version;
+
+    const projected = events.reduce((state, event) => projectEvent(state, {
+      eventId: event.eventId,
+      timestamp: event.content.idData.timestamp,
+      data: event.content.data,
+      geoLocation: event.geoLocation,
+    }, modes), assetState);
+
+    const saved = AssetState.forAsset(asset.assetId, asset.organizationId);
+    Object.assign(saved, projected);
+    saved.organizationId = asset.organizationId;
+    saved.updatedOn = getTimestamp();
+
+    return this.assetStateRepository.saveVersion(saved, expectedVersion);
+  }
+}
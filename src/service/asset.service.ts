@@ -13,18 +13,21 @@
  */
 
 import { inject, injectable } from 'inversify';
+import { Cursor } from 'mongodb';
 
 import { TYPE } from '../constant/types';
-import { AssetRepository } from '../database/repository';
+import { AssetRepository, OrganizationRepository } from '../database/repository';
 import {
   APIQuery,
   Asset,
-  MongoPagedResult
+  MongoPagedResult,
+  UserPrincipal
 } from '../model';
-import { ensureCanCreateAsset } from '../security/access.check';
-import { getTimestamp } from '../util';
+import { ensureCanCreateAsset, getAssetReadFilter } from '../security/access.check';
+import { addMongoFilter, getTimestamp } from '../util';
 
 import {
+  NotFoundError,
   ValidationError,
   PermissionError
 } from '../errors';
@@ -32,13 +35,16 @@ import {
 import { AssetMetaData } from '../model/asset/asset-metadata.model';
 import { AssetContent } from '../model/asset/asset-content.model';
 import { AssetIdData } from '../model/asset/asset-iddata.model';
+import { IAssetPayload } from '../model/asset/asset-payload.model';
 
 import { AccountService } from '../service/account.service';
 
 @injectable()
 export class AssetService {
   constructor(
+    @inject(TYPE.UserPrincipal) private readonly user: UserPrincipal,
     @inject(TYPE.AssetRepository) private readonly assetRepository: AssetRepository,
+    @inject(TYPE.OrganizationRepository) private readonly organizationRepository: OrganizationRepository,
     @inject(TYPE.AccountService) private readonly accountService: AccountService
   ) {}
 
@@ -49,16 +55,60 @@ export class AssetService {
   public getAssets(apiQuery: APIQuery): Promise<MongoPagedResult> {
     apiQuery.paginationField = 'content.idData.timestamp';
     apiQuery.sortAscending = false;
+    apiQuery.query = addMongoFilter(apiQuery.query, getAssetReadFilter(this.user));
     return this.assetRepository.findWithPagination(apiQuery);
   }
 
+  public getAssetsCursor(apiQuery: APIQuery): Promise<Cursor<Asset>> {
+    apiQuery.query = addMongoFilter(apiQuery.query, getAssetReadFilter(this.user));
+    apiQuery.fields = {
+      repository: 0,
+    };
+    return this.assetRepository.findCursor(apiQuery);
+  }
+
   public getAsset(assetId: string): Promise<Asset> {
     const apiQuery = new APIQuery();
-    apiQuery.query = { assetId };
+    apiQuery.query = addMongoFilter({ assetId }, getAssetReadFilter(this.user));
     return this.assetRepository.findOne(apiQuery);
   }
 
+  public getAssetsByIds(assetIds: string[]): Promise<Asset[]> {
+    const apiQuery = new APIQuery({ assetId: { $in: assetIds } });
+    apiQuery.fields = {
+      assetId: 1,
+      organizationId: 1,
+      sharedWith: 1,
+    };
+    return this.assetRepository.find(apiQuery);
+  }
+
+  public async setAssetPublic(assetId: string, isPublic: boolean): Promise<Asset> {
+    const update = new Asset();
+    update.public = isPublic;
+
+    const asset = await this.assetRepository.update(this.getOwnAssetQuery(assetId), update);
+    if (!asset) {
+      throw new NotFoundError({ reason: `Asset with assetId=${assetId} not found in the sender's organization` });
+    }
+    return asset;
+  }
+
+  public async shareAsset(assetId: string, organizationId: number): Promise<Asset> {
+    const organization = await this.organizationRepository.findOne(new APIQuery({ organizationId }));
+    if (!organization) {
+      throw new NotFoundError({ reason: `Organization with organizationId=${organizationId} not found` });
+    }
+
+    return this.assetRepository.addSharedOrganization(this.getOwnAssetQuery(assetId), organizationId);
+  }
+
+  public unshareAsset(assetId: string, organizationId: number): Promise<Asset> {
+    return this.assetRepository.removeSharedOrganization(this.getOwnAssetQuery(assetId), organizationId);
+  }
+
   public getAssetOld(apiQuery: APIQuery): Promise<any> {
+    apiQuery.query = addMongoFilter(apiQuery.query, getAssetReadFilter(this.user));
     return this.assetRepository.queryAssetsOld(apiQuery);
   }
 
@@ -69,11 +119,7 @@ export class AssetService {
     sequesnceNumber: number,
     signature: string
   ) {
-    await ensureCanCreateAsset();
-
-    const testAsset = await this.getAsset(assetId);
-
-    if (testAsset && (testAsset !== null)) {
+    if (await this.getAssetExists(assetId)) {
       throw new ValidationError( {reason: `Asset with assetId=${assetId} already exists` } );
     }
 
@@ -82,16 +128,90 @@ export class AssetService {
       throw new PermissionError({ reason: 'Unauthorized' });
     }
 
+    await ensureCanCreateAsset(this.organizationRepository, creator);
+
+    const asset = this.buildAsset(assetId, creator.organization, createdBy, timestamp, sequesnceNumber, signature);
+
+    await this.assetRepository.create(asset);
+  }
+
+  public async createAssets(
+    createdBy: string,
+    items: IAssetPayload[]
+  ): Promise<any[]> {
+    const creator = await this.accountService.getAccount(createdBy);
+    if (!creator) {
+      throw new PermissionError({ reason: 'Unauthorized' });
+    }
+
+    await ensureCanCreateAsset(this.organizationRepository, creator);
+
+    const existingAssets = (await this.getAssetsByIds(items.map(item => item.assetId))).map(asset => asset.assetId);
+
+    const results = [];
+    const assets: Asset[] = [];
+    const assetResults = [];
+    const batchAssetIds = [];
+
+    for (const item of items) {
+      if (existingAssets.indexOf(item.assetId) > -1 || batchAssetIds.indexOf(item.assetId) > -1) {
+        results.push({ assetId: item.assetId, success: false, reason: `Asset with assetId=${item.assetId} already exists` });
+        continue;
+      }
+
+      const idData = item.content.idData;
+      assets.push(this.buildAsset(
+        item.assetId,
+        creator.organization,
+        createdBy,
+        idData.timestamp,
+        idData.sequenceNumber,
+        item.content.signature
+      ));
+      batchAssetIds.push(item.assetId);
+
+      // turned into a failure when the insert refuses the asset
+      const result = { assetId: item.assetId, success: true };
+      results.push(result);
+      assetResults.push(result);
+    }
+
+    if (assets.length > 0) {
+      const failures = await this.assetRepository.createBulkUnordered(assets);
+      failures.map(failure => Object.assign(assetResults[failure.index], {
+        success: false,
+        reason: failure.code === 11000 ? `Asset with assetId=${assets[failure.index].assetId} already exists` : failure.reason,
+      }));
+    }
+
+    return results;
+  }
+
+  private buildAsset(
+    assetId: string,
+    organizationId: number,
+    createdBy: string,
+    timestamp: number,
+    sequesnceNumber: number,
+    signature: string
+  ): Asset {
     const asset = new Asset();
     asset.assetId = assetId;
 
-    asset.organizationId = creator.organization;
+    asset.organizationId = organizationId;
+    asset.public = false;
 
     asset.metadata = new AssetMetaData();
 
     asset.metadata.bundleId = null;
     asset.metadata.bundleUploadTimestamp = getTimestamp();
 
+    // requests of a service account are attributed to it and to the human who created it
+    if (this.user.serviceAccount) {
+      asset.metadata.serviceAccountId = this.user.serviceAccount.serviceAccountId;
+      asset.metadata.actingFor = this.user.actingFor;
+    }
+
     asset.content = new AssetContent();
 
     asset.content.idData = new AssetIdData();
@@ -102,6 +222,14 @@ export class AssetService {
 
     asset.content.signature = signature;
 
-    await this.assetRepository.create(asset);
+    return asset;
+  }
+
+  private getOwnAssetQuery(assetId: string): APIQuery {
+    const apiQuery = new APIQuery({ assetId });
+    if (!this.user.isSuperAdmin) {
+      apiQuery.addToQuery({ organizationId: this.user.organizationId });
+    }
+    return apiQuery;
   }
 }
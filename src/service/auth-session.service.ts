@@ -0,0 +1,92 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../constant/types';
+import {
+  AccountRepository,
+  AuthSessionRepository
+} from '../database/repository';
+import { APIQuery, MongoPagedResult, UserPrincipal } from '../model';
+import { getTimestamp } from '../util';
+import { TokenRevocationService } from './token-revocation.service';
+
+import { NotFoundError, PermissionError } from '../errors';
+
+@injectable()
+export class AuthSessionService {
+  constructor(
+    @inject(TYPE.UserPrincipal) private readonly user: UserPrincipal,
+    @inject(TYPE.AuthSessionRepository) private readonly authSessionRepository: AuthSessionRepository,
+    @inject(TYPE.AccountRepository) private readonly accountRepository: AccountRepository,
+    @inject(TYPE.TokenRevocationService) private readonly tokenRevocationService: TokenRevocationService
+  ) { }
+
+  public getSessions(apiQuery: APIQuery): Promise<MongoPagedResult> {
+    apiQuery.addToQuery({
+      address: this.user.address,
+      validUntil: { $gte: getTimestamp() },
+      revokedOn: { $exists: false },
+    });
+    apiQuery.fields = {
+      _id: 0,
+      expiresAt: 0,
+    };
+    return this.authSessionRepository.findWithPagination(apiQuery);
+  }
+
+  public async revokeSession(signature: string): Promise<number> {
+    const revoked = await this.revoke({ signature, address: this.user.address });
+    if (revoked === 0) {
+      throw new NotFoundError({ reason: 'No active session with this signature' });
+    }
+    return revoked;
+  }
+
+  public revokeAllSessions(): Promise<number> {
+    return this.revokeAll(this.user.address);
+  }
+
+  public async revokeMemberSessions(address: string): Promise<number> {
+    const member = await this.accountRepository.getAccount(new APIQuery({ address }), 0, 1000, true);
+    if (!member) {
+      throw new NotFoundError({ reason: `Account with address=${address} not found` });
+    }
+    if (member.organization !== this.user.organizationId) {
+      throw new PermissionError({ reason: 'target and owner organization must be same' });
+    }
+
+    return this.revokeAll(member.address);
+  }
+
+  private async revokeAll(address: string): Promise<number> {
+    // tokens the node has not seen yet have no session to revoke, so the account remembers the cut-off
+    await this.accountRepository.update(address, { sessionsRevokedOn: getTimestamp() });
+
+    return this.revoke({ address });
+  }
+
+  private async revoke(query: object): Promise<number> {
+    const signatures = await this.authSessionRepository.revoke(
+      { ...query, validUntil: { $gte: getTimestamp() } },
+      this.user.address,
+      getTimestamp()
+    );
+
+    this.tokenRevocationService.forget(signatures);
+
+    return signatures.length;
+  }
+}
@@ -49,6 +49,11 @@ export class AuthService {
     }
 
     const { signature, idData } = decoded;
+    if (typeof idData.createdOn !== 'number') {
+      this.logger.debug('getAuthToken: createdOn missing in AMB_TOKEN');
+      throw new ValidationError({ reason: 'Invalid token' });
+    }
+
     if (!this.web3Service.validateSignature(idData.createdBy, signature, idData)) {
       this.logger.debug('getAuthToken: failed to validate signature');
       throw new ValidationError({ reason: 'Invalid token' });
@@ -57,6 +62,7 @@ export class AuthService {
     const authToken = new AuthToken();
     authToken.createdBy = idData.createdBy;
     authToken.validUntil = idData.validUntil;
+    authToken.createdOn = idData.createdOn;
     authToken.signature = signature;
     return authToken;
   }
@@ -16,7 +16,9 @@ import { inject, injectable } from 'inversify';
 
 import { TYPE } from '../constant/types';
 import {
+  AssetRepository,
   BundleRepository,
+  EventRepository,
   GridRepository,
   AccountRepository,
   WorkerIntervalsRepository,
@@ -25,6 +27,8 @@ import {
 import {
   APIQuery,
   Bundle,
+  IBundleEntryId,
+  IPendingBundleEntries,
   WorkerInterval,
   MongoPagedResult,
   UserPrincipal
@@ -34,6 +38,11 @@ import {
   ensureCanPushBundle
 } from '../security/access.check';
 
+// tslint:disable-next-line:no-var-requires
+const Pick = require('stream-json/filters/Pick');
+// tslint:disable-next-line:no-var-requires
+const StreamArray = require('stream-json/streamers/StreamArray');
+
 @injectable()
 export class BundleService {
   constructor(
@@ -41,7 +50,9 @@ export class BundleService {
     @inject(TYPE.BundleRepository) private readonly bundleRepository: BundleRepository,
     @inject(TYPE.AccountRepository) private readonly accountRepository: AccountRepository,
     @inject(TYPE.WorkerIntervalsRepository) private readonly workerIntervalsRepository: WorkerIntervalsRepository,
-    @inject(TYPE.GridRepository) private readonly gridRepository: GridRepository
+    @inject(TYPE.GridRepository) private readonly gridRepository: GridRepository,
+    @inject(TYPE.AssetRepository) private readonly assetRepository: AssetRepository,
+    @inject(TYPE.EventRepository) private readonly eventRepository: EventRepository
   ) {
   }
 
@@ -49,7 +60,10 @@ export class BundleService {
     return this.bundleRepository.existsOR({ bundleId }, 'bundleId');
   }
 
-  public getBundles(apiQuery: APIQuery): Promise<MongoPagedResult> {
+  public getBundles(apiQuery: APIQuery, status?: string): Promise<MongoPagedResult> {
+    if (status) {
+      apiQuery.addToQuery({ 'anchoring.status': status });
+    }
     apiQuery.fields = {
       'content.entries': 0,
     };
@@ -67,8 +81,126 @@ export class BundleService {
     return this.bundleRepository.findOne(apiQuery);
   }
 
-  public async getBundleStream(bundleId: string) {
-    return await this.gridRepository.getBundleStream(bundleId);
+  public getBundlesByIds(bundleIds: string[]): Promise<Bundle[]> {
+    const apiQuery = new APIQuery({ bundleId: { $in: bundleIds } });
+    apiQuery.fields = {
+      '_id': 0,
+      'content.entries': 0,
+    };
+
+    return this.bundleRepository.find(apiQuery);
+  }
+
+  public async getBundleStream(bundleId: string, range?: { start: number, end: number }) {
+    return await this.gridRepository.getBundleStream(bundleId, range);
+  }
+
+  public getBundleFile(bundleId: string): Promise<{ length: number, uploadDate: Date }> {
+    return this.gridRepository.getBundleFile(bundleId);
+  }
+
+  // only the requested page is kept in memory
+  public async getBundleEntries(
+    bundleId: string,
+    offset: number,
+    limit: number
+  ): Promise<{ entries: any[], hasNext: boolean }> {
+    const entries = [];
+    let hasNext = false;
+
+    await this.readBundleEntries(bundleId, (entry, index) => {
+      if (index >= offset + limit) {
+        hasNext = true;
+        return false;
+      }
+      if (index >= offset) {
+        entries.push(entry);
+      }
+      return true;
+    });
+
+    return { entries, hasNext };
+  }
+
+  public async getBundleEntryIds(bundleId: string): Promise<IBundleEntryId[]> {
+    const entryIds = [];
+
+    await this.readBundleEntries(bundleId, entry => {
+      entryIds.push(entry.eventId ? { type: 'event', id: entry.eventId } : { type: 'asset', id: entry.assetId });
+      return true;
+    });
+
+    return entryIds;
+  }
+
+  public setBundleMerkleRoot(bundleId: string, merkleRoot: string, merkleLeafCount: number) {
+    return this.bundleRepository.setMerkleRoot(bundleId, merkleRoot, merkleLeafCount);
+  }
+
+  public async findBundleEntry(bundleId: string, idField: string, id: string): Promise<any> {
+    let found;
+
+    await this.readBundleEntries(bundleId, entry => {
+      if (entry[idField] === id) {
+        found = entry;
+        return false;
+      }
+      return true;
+    });
+
+    return found;
+  }
+
+  // assets and events are waiting for a bundle until the worker sets their bundleId
+  public getVisiblePendingEntries(): Promise<IPendingBundleEntries> {
+    return this.getPendingEntries(this.user.isSuperAdmin ? undefined : this.user.organizationId);
+  }
+
+  public async getPendingEntries(organizationId?: number): Promise<IPendingBundleEntries> {
+    const match = { 'metadata.bundleId': null };
+    if (organizationId !== undefined) {
+      match['organizationId'] = organizationId;
+    }
+
+    const apiQuery = new APIQuery();
+    apiQuery.query = [
+      {
+        $match: match,
+      },
+      {
+        $group: {
+          _id: '$organizationId',
+          count: { $sum: 1 },
+          oldestTimestamp: { $min: '$metadata.bundleUploadTimestamp' },
+        },
+      },
+    ];
+
+    const organizations = {};
+    const countPending = (groups, field: string) => groups.map(group => {
+      const organization = organizations[group._id] ||
+        { organizationId: group._id, assets: 0, events: 0, oldestTimestamp: group.oldestTimestamp };
+      organization[field] = group.count;
+      organization.oldestTimestamp = Math.min(organization.oldestTimestamp, group.oldestTimestamp);
+      organizations[group._id] = organization;
+    });
+    countPending(await this.assetRepository.aggregate(apiQuery), 'assets');
+    countPending(await this.eventRepository.aggregate(apiQuery), 'events');
+
+    const pending: IPendingBundleEntries = {
+      assets: 0,
+      events: 0,
+      organizations: Object.keys(organizations).map(key => organizations[key]),
+    };
+    pending.organizations.map(organization => {
+      pending.assets += organization.assets;
+      pending.events += organization.events;
+      if (pending.oldestTimestamp === undefined || organization.oldestTimestamp < pending.oldestTimestamp) {
+        pending.oldestTimestamp = organization.oldestTimestamp;
+      }
+    });
+
+    return pending;
   }
 
   public async pushBundle() {
@@ -90,4 +222,30 @@ export class BundleService {
 
     return;
   }
+
+  // parses the stored bundle entry by entry, visit returns false to stop reading the rest of the file
+  private async readBundleEntries(bundleId: string, visit: (entry: any, index: number) => boolean): Promise<void> {
+    const stream = await this.getBundleStream(bundleId);
+
+    await new Promise((resolve, reject) => {
+      const items = stream
+        .pipe(Pick.withParser({ filter: 'content.entries' }))
+        .pipe(StreamArray.make());
+
+      let stopped = false;
+
+      stream.on('error', reject);
+      items.on('error', reject);
+      items.on('end', resolve);
+      items.on('data', ({ key, value }) => {
+        if (stopped || visit(value, key)) {
+          return;
+        }
+        stopped = true;
+        stream.abort();
+        items.destroy();
+        resolve();
+      });
+    });
+  }
 }
@@ -0,0 +1,132 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../constant/types';
+import {
+  BundlingPolicyRepository,
+  OrganizationRepository,
+  WorkerIntervalsRepository
+} from '../database/repository';
+import { APIQuery, BundlingPolicy, UserPrincipal } from '../model';
+import { getTimestamp, nextBundleTime, parseTimeOfDay } from '../util';
+import { BundleService } from './bundle.service';
+
+import { ValidationError } from '../errors';
+
+@injectable()
+export class BundlingPolicyService {
+  constructor(
+    @inject(TYPE.UserPrincipal) private readonly user: UserPrincipal,
+    @inject(TYPE.BundlingPolicyRepository) private readonly bundlingPolicyRepository: BundlingPolicyRepository,
+    @inject(TYPE.OrganizationRepository) private readonly organizationRepository: OrganizationRepository,
+    @inject(TYPE.WorkerIntervalsRepository) private readonly workerIntervalsRepository: WorkerIntervalsRepository,
+    @inject(TYPE.BundleService) private readonly bundleService: BundleService
+  ) { }
+
+  public async getPolicy(): Promise<BundlingPolicy> {
+    const defaults = BundlingPolicy.defaults();
+
+    const apiQuery = new APIQuery({ name: defaults.name });
+    apiQuery.fields = {
+      _id: 0,
+    };
+    const stored = await this.bundlingPolicyRepository.findOne(apiQuery);
+
+    return Object.assign(defaults, stored);
+  }
+
+  public async updatePolicy(changes: BundlingPolicy): Promise<BundlingPolicy> {
+    const bundlingPolicy = Object.assign(await this.getPolicy(), changes);
+
+    await this.validatePolicy(bundlingPolicy);
+
+    bundlingPolicy.updatedBy = this.user.address;
+    bundlingPolicy.updatedOn = getTimestamp();
+
+    await this.bundlingPolicyRepository.savePolicy(bundlingPolicy);
+
+    return this.getPolicy();
+  }
+
+  public async getSchedule() {
+    const policy = await this.getPolicy();
+    const worker = await this.workerIntervalsRepository.getWorkerState(policy.name);
+    const pending = await this.bundleService.getPendingEntries();
+
+    const priorities = {};
+    policy.organizationPriorities.map(organizationPriority => {
+      priorities[organizationPriority.organizationId] = organizationPriority.priority;
+    });
+
+    // the order in which the worker takes pending entries when a bundle is full
+    const organizations = pending.organizations
+      .map(organization => ({ ...organization, priority: priorities[organization.organizationId] || 0 }))
+      .sort((a, b) => (b.priority - a.priority) || (a.oldestTimestamp - b.oldestTimestamp));
+
+    const next = nextBundleTime({
+      minEntries: policy.minEntries,
+      maxAge: policy.maxAge,
+      windows: policy.windows,
+      pendingEntries: pending.assets + pending.events,
+      oldestPendingTimestamp: pending.oldestTimestamp,
+      pushRequested: worker.pushRequested,
+    }, getTimestamp());
+
+    return {
+      policy,
+      worker: {
+        name: policy.name,
+        ...worker,
+      },
+      pending: {
+        organizations,
+        assets: pending.assets,
+        events: pending.events,
+        oldestTimestamp: pending.oldestTimestamp,
+      },
+      nextBundleTime: next ? next.timestamp : null,
+      nextBundleReason: next ? next.reason : null,
+    };
+  }
+
+  private async validatePolicy(bundlingPolicy: BundlingPolicy) {
+    if (bundlingPolicy.minEntries > bundlingPolicy.maxEntries) {
+      throw new ValidationError({ reason: 'minEntries must not exceed maxEntries' });
+    }
+
+    for (const window of bundlingPolicy.windows) {
+      const from = parseTimeOfDay(window.from);
+      const to = parseTimeOfDay(window.to);
+      if (from === undefined || to === undefined) {
+        throw new ValidationError({ reason: `Invalid window ${window.from}-${window.to}, expected HH:MM` });
+      }
+      if (from === to) {
+        throw new ValidationError({ reason: `Window ${window.from}-${window.to} is empty` });
+      }
+    }
+
+    const organizationIds = bundlingPolicy.organizationPriorities.map(
+      organizationPriority => organizationPriority.organizationId
+    );
+    if (new Set(organizationIds).size !== organizationIds.length) {
+      throw new ValidationError({ reason: 'An organization has more than one priority' });
+    }
+    const found = await this.organizationRepository.count(new APIQuery({ organizationId: { $in: organizationIds } }));
+    if (found !== organizationIds.length) {
+      throw new ValidationError({ reason: 'organizationPriorities refer to unknown organizations' });
+    }
+  }
+}
@@ -0,0 +1,165 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import * as Ajv from 'ajv';
+import { inject, injectable } from 'inversify';
+import { DeleteWriteOpResultObject } from 'mongodb';
+
+import { TYPE } from '../constant/types';
+import { DataTypeSchemaRepository } from '../database/repository';
+import {
+  APIQuery,
+  DataTypeSchema,
+  MongoPagedResult,
+  UserPrincipal
+} from '../model';
+import { projectionModes } from '../util';
+
+import { ExistsError, ValidationError } from '../errors';
+
+interface ICompiledSchema {
+  source: string;
+  validator: Ajv.ValidateFunction;
+}
+
+// shared by all requests, keyed by the _id of the stored schema
+const compiledSchemas = new Map<string, ICompiledSchema>();
+
+@injectable()
+export class DataTypeSchemaService {
+  constructor(
+    @inject(TYPE.UserPrincipal) private readonly user: UserPrincipal,
+    @inject(TYPE.DataTypeSchemaRepository) private readonly dataTypeSchemaRepository: DataTypeSchemaRepository
+  ) { }
+
+  public getDataTypeSchemas(apiQuery: APIQuery): Promise<MongoPagedResult> {
+    apiQuery.addToQuery({ organizationId: this.user.organizationId });
+    return this.dataTypeSchemaRepository.findWithPagination(apiQuery);
+  }
+
+  public getDataTypeSchema(type: string): Promise<DataTypeSchema> {
+    const apiQuery = new APIQuery({ type, organizationId: this.user.organizationId });
+    return this.dataTypeSchemaRepository.findOne(apiQuery);
+  }
+
+  public async createDataTypeSchema(dataTypeSchema: DataTypeSchema): Promise<DataTypeSchema> {
+    this.compileSchema(dataTypeSchema.schema);
+
+    if (await this.getDataTypeSchema(dataTypeSchema.type)) {
+      throw new ExistsError({ reason: `A schema already exists for type ${dataTypeSchema.type}.` });
+    }
+
+    dataTypeSchema.organizationId = this.user.organizationId;
+    dataTypeSchema.setCreationTimestamp(this.user.address);
+
+    await this.dataTypeSchemaRepository.create(dataTypeSchema);
+
+    return this.getDataTypeSchema(dataTypeSchema.type);
+  }
+
+  public updateDataTypeSchema(type: string, dataTypeSchema: DataTypeSchema): Promise<DataTypeSchema> {
+    if (dataTypeSchema.schema !== undefined) {
+      this.compileSchema(dataTypeSchema.schema);
+    }
+
+    dataTypeSchema.setMutationTimestamp(this.user.address);
+
+    const apiQuery = new APIQuery({ type, organizationId: this.user.organizationId });
+    return this.dataTypeSchemaRepository.update(apiQuery, dataTypeSchema);
+  }
+
+  public deleteDataTypeSchema(type: string): Promise<DeleteWriteOpResultObject> {
+    const apiQuery = new APIQuery({ type, organizationId: this.user.organizationId });
+    return this.dataTypeSchemaRepository.deleteOne(apiQuery);
+  }
+
+  public async getProjectionModes(organizationId: number): Promise<object> {
+    const apiQuery = new APIQuery({ organizationId, projection: { $in: projectionModes } });
+    apiQuery.fields = {
+      type: 1,
+      projection: 1,
+    };
+
+    const modes = {};
+    (await this.dataTypeSchemaRepository.find(apiQuery)).map(dataTypeSchema => {
+      modes[dataTypeSchema.type] = dataTypeSchema.projection;
+    });
+    return modes;
+  }
+
+  public async validateEventData(organizationId: number, data: object[]): Promise<void> {
+    if (!Array.isArray(data)) {
+      return;
+    }
+
+    const types = data
+      .map(entry => entry['type'])
+      .filter(type => typeof type === 'string');
+
+    if (types.length === 0) {
+      return;
+    }
+
+    const apiQuery = new APIQuery({ organizationId, type: { $in: types } });
+    const dataTypeSchemas = await this.dataTypeSchemaRepository.find(apiQuery);
+
+    const validators = {};
+    dataTypeSchemas.map(dataTypeSchema => {
+      validators[dataTypeSchema.type] = this.getValidator(dataTypeSchema);
+    });
+
+    const messages = [];
+    data.map((entry, index) => {
+      const validator = validators[entry['type']];
+
+      if (validator && !validator(entry)) {
+        validator.errors.map(error => {
+          messages.push(`content.data[${index}]${error.dataPath} ${error.message}`);
+        });
+      }
+    });
+
+    if (messages.length > 0) {
+      throw new ValidationError({ reason: messages.join(', ') });
+    }
+  }
+
+  // an updated schema has a different source, so it is compiled again
+  private getValidator(dataTypeSchema: DataTypeSchema): Ajv.ValidateFunction {
+    const key = String(dataTypeSchema._id);
+    const source = JSON.stringify(dataTypeSchema.schema);
+
+    const compiled = compiledSchemas.get(key);
+    if (compiled && compiled.source === source) {
+      return compiled.validator;
+    }
+
+    const validator = this.compileSchema(dataTypeSchema.schema);
+    compiledSchemas.set(key, { source, validator });
+    return validator;
+  }
+
+  private compileSchema(schema: object): Ajv.ValidateFunction {
+    if (schema['$async']) {
+      throw new ValidationError({ reason: 'Asynchronous schemas are not supported' });
+    }
+
+    try {
+      const ajv = new Ajv({ allErrors: true });
+      return ajv.compile(schema);
+    } catch (error) {
+      throw new ValidationError({ reason: `Invalid schema: ${error.message}` });
+    }
+  }
+}
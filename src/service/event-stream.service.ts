@@ -0,0 +1,62 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { EventEmitter } from 'events';
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../constant/types';
+import { ILogger } from '../interface/logger.inferface';
+import { Event } from '../model';
+import { EventStreamFilter } from '../model/event/event-stream-filter.model';
+
+@injectable()
+export class EventStreamService {
+  private readonly emitter = new EventEmitter();
+
+  constructor(
+    @inject(TYPE.LoggerService) private readonly logger: ILogger
+  ) {
+    this.emitter.setMaxListeners(0);
+  }
+
+  get subscriberCount(): number {
+    return this.emitter.listenerCount('event');
+  }
+
+  public publish(event: Event) {
+    this.emitter.emit('event', event);
+  }
+
+  public subscribe(
+    filter: EventStreamFilter,
+    listener: (event: Event) => Promise<void>
+  ): () => void {
+    const handler = (event: Event) => {
+      if (!filter.matches(event)) {
+        return;
+      }
+
+      // every subscriber decrypts its own copy
+      listener(JSON.parse(JSON.stringify(event))).catch(error => {
+        this.logger.warn(`event stream: ${error}`);
+      });
+    };
+
+    this.emitter.on('event', handler);
+
+    return () => {
+      this.emitter.removeListener('event', handler);
+    };
+  }
+}
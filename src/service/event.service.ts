@@ -13,19 +13,23 @@
  */
 
 import { inject, injectable } from 'inversify';
+import { Cursor } from 'mongodb';
+import base64url from 'base64url';
 
 import { TYPE } from '../constant/types';
-import { EventRepository } from '../database/repository';
+import { EventRepository, OrganizationRepository } from '../database/repository';
 import {
   APIQuery,
+  Asset,
   Event,
   MongoPagedResult,
   UserPrincipal
 } from '../model';
-import { getTimestamp } from '../util';
-import { ensureCanCreateEvent } from '../security/access.check';
+import { getTimestamp, extractGeoLocation, getErrorReason } from '../util';
+import { canReadEvent, ensureCanAttachEvent, ensureCanCreateEvent, getEventReadFilter } from '../security/access.check';
 
 import {
+  NotFoundError,
   ValidationError,
   PermissionError
 } from '../errors';
@@ -34,48 +38,62 @@ import { AssetService } from '../service/asset.service';
 import { EventContent } from '../model/event/event-content.model';
 import { EventIdData } from '../model/event/event-iddata.model';
 import { EventMetaData } from '../model/event/event-metadata.model';
+import { IEventPayload } from '../model/event/event-payload.model';
 
 import { AccountService } from '../service/account.service';
+import { BundleService } from '../service/bundle.service';
 import { OrganizationService } from '../service/organization.service';
+import { DataTypeSchemaService } from '../service/data-type-schema.service';
+import { EventStreamService } from '../service/event-stream.service';
+import { AssetHierarchyService, IContainmentLink } from '../service/asset-hierarchy.service';
+import { AssetIdentifierService, IAssignedIdentifier } from '../service/asset-identifier.service';
+import { AssetStateService } from '../service/asset-state.service';
 import { CompositionSettingsList } from 'twilio/lib/rest/video/v1/compositionSettings';
 
-const maxAccessLevel = 1000;
-
 @injectable()
 export class EventService {
   constructor(
     @inject(TYPE.UserPrincipal) private readonly user: UserPrincipal,
     @inject(TYPE.EventRepository) private readonly eventRepository: EventRepository,
+    @inject(TYPE.OrganizationRepository) private readonly organizationRepository: OrganizationRepository,
     @inject(TYPE.AssetService) private assetService: AssetService,
     @inject(TYPE.AccountService) private accountService: AccountService,
-    @inject(TYPE.OrganizationService) private organizationService: OrganizationService
+    @inject(TYPE.OrganizationService) private organizationService: OrganizationService,
+    @inject(TYPE.DataTypeSchemaService) private dataTypeSchemaService: DataTypeSchemaService,
+    @inject(TYPE.EventStreamService) private eventStreamService: EventStreamService,
+    @inject(TYPE.BundleService) private bundleService: BundleService,
+    @inject(TYPE.AssetHierarchyService) private assetHierarchyService: AssetHierarchyService,
+    @inject(TYPE.AssetIdentifierService) private assetIdentifierService: AssetIdentifierService,
+    @inject(TYPE.AssetStateService) private assetStateService: AssetStateService
   ) { }
 
   public getEventExists(eventId: string) {
     return this.eventRepository.existsOR({ eventId }, 'eventId');
   }
 
-  // (this.user && this.user.accessLevel) || 0
-
   public getEvents(apiQuery: APIQuery): Promise<MongoPagedResult> {
-    return this.eventRepository.queryEvents(apiQuery, maxAccessLevel);
+    return this.eventRepository.queryEvents(apiQuery, getEventReadFilter(this.user));
   }
 
   public getEventsOld(apiQuery: APIQuery): Promise<any> {
-    return this.eventRepository.queryEventsOld(apiQuery, maxAccessLevel);
+    return this.eventRepository.queryEventsOld(apiQuery, getEventReadFilter(this.user));
+  }
+
+  public getEventsCursor(apiQuery: APIQuery): Promise<Cursor<Event>> {
+    return this.eventRepository.queryEventsCursor(apiQuery, getEventReadFilter(this.user));
   }
 
   public searchEvents(apiQuery: APIQuery): Promise<MongoPagedResult> {
-    return this.eventRepository.searchEvents(apiQuery, maxAccessLevel);
+    return this.eventRepository.searchEvents(apiQuery, getEventReadFilter(this.user));
   }
 
   public getEventDistinctField(field: string): Promise<any> {
-    return this.eventRepository.distinct(field);
+    return this.eventRepository.distinct(field, getEventReadFilter(this.user));
   }
 
   public getEvent(eventId: string): Promise<Event> {
     const apiQuery = new APIQuery({ eventId });
-    return this.eventRepository.queryEvent(apiQuery, maxAccessLevel);
+    return this.eventRepository.queryEvent(apiQuery, getEventReadFilter(this.user));
   }
 
   public async checkEventDecryption(event: Event): Promise<Event> {
@@ -83,7 +101,7 @@ export class EventService {
 
     for (let i = 0; i < event.content.data.length; i = i + 1) {
       if (event.content.data[i]['encrypted'] !== undefined) {
-        if (this.user.accessLevel >= event.content.idData.accessLevel) {
+        if (this.canDecryptEvent(event)) {
           const decryptedData = await this.organizationService.decrypt(event.content.data[i]['encrypted'], result.organizationId);
 
           result.content.data[i] = JSON.parse(decryptedData);
@@ -100,6 +118,30 @@ export class EventService {
     return result;
   }
 
+  public isEventVisible(event: Event): boolean {
+    return canReadEvent(this.user, event);
+  }
+
+  public async setEventPublic(eventId: string, isPublic: boolean): Promise<Event> {
+    const update = new Event();
+    update.public = isPublic;
+
+    const apiQuery = new APIQuery({ eventId });
+    if (!this.user.isSuperAdmin) {
+      apiQuery.addToQuery({ organizationId: this.user.organizationId });
+    }
+
+    const event = await this.eventRepository.update(apiQuery, update);
+    if (!event) {
+      throw new NotFoundError({ reason: `Event with eventId=${eventId} not found in the sender's organization` });
+    }
+
+    // the asset state only folds in public events
+    await this.assetStateService.refreshAssetState(event.content.idData.assetId);
+
+    return event;
+  }
+
   public async checkEventsDecryptionPaged(data: MongoPagedResult): Promise<MongoPagedResult> {
     const eventList = data['results'];
 
@@ -166,33 +208,130 @@ export class EventService {
     return eventList;
   }
 
+  public async getAssetTimeline(
+    asset: Asset,
+    apiQuery: APIQuery,
+    includeContainers: boolean = false
+  ): Promise<MongoPagedResult> {
+    apiQuery.query = { 'content.idData.assetId': asset.assetId };
+
+    // events recorded on containers are shown for the time the asset was packed inside them
+    if (includeContainers) {
+      const windows = await this.assetHierarchyService.getContainerWindows(asset.assetId);
+      if (windows.length > 0) {
+        apiQuery.query = {
+          $or: [
+            apiQuery.query,
+            ...windows.map(window => ({
+              'content.idData.assetId': window.assetId,
+              'content.idData.timestamp': window.to === null ?
+                { $gte: window.from } :
+                { $gte: window.from, $lte: window.to },
+            })),
+          ],
+        };
+      }
+    }
+
+    const result = await this.checkEventsDecryptionPaged(await this.getEvents(apiQuery));
+
+    const entries: any[] = result.results.map(event => ({
+      type: 'event',
+      id: event.eventId,
+      timestamp: event.content.idData.timestamp,
+      createdBy: event.content.idData.createdBy,
+      bundleId: event.metadata ? event.metadata.bundleId : null,
+      inheritedFrom: event.content.idData.assetId !== asset.assetId ? event.content.idData.assetId : undefined,
+      content: event.content,
+    }));
+
+    // events are paged newest first, so the asset creation closes the last page
+    if (!result.hasNext) {
+      entries.push({
+        type: 'asset',
+        id: asset.assetId,
+        timestamp: asset.content.idData.timestamp,
+        createdBy: asset.content.idData.createdBy,
+        bundleId: asset.metadata ? asset.metadata.bundleId : null,
+        content: asset.content,
+      });
+    }
+
+    const creators = {};
+    for (const address of Array.from(new Set(entries.map(entry => entry.createdBy)))) {
+      try {
+        creators[address] = await this.accountService.getPublicAccountDetails(address);
+      } catch (error) {
+        creators[address] = null;
+      }
+    }
+
+    const bundleIds = Array.from(new Set(entries.map(entry => entry.bundleId).filter(bundleId => !!bundleId)));
+    const bundles = {};
+    if (bundleIds.length > 0) {
+      (await this.bundleService.getBundlesByIds(bundleIds)).map(bundle => {
+        bundles[bundle.bundleId] = bundle;
+      });
+    }
+
+    result.results = entries.map(entry => {
+      const { bundleId, ...timelineEntry } = entry;
+
+      return {
+        ...timelineEntry,
+        creator: creators[entry.createdBy],
+        bundle: bundleId ? (bundles[bundleId] || { bundleId }) : null,
+      };
+    });
+
+    return result;
+  }
+
+  // legacy shape, all requested assets in one aggregation
+  public async getAllLatestAssetEventsOfType(assets: string[], types: string[]): Promise<any[]> {
+    const events = await this.eventRepository.assetEventsOfType(
+      Array.from(new Set(assets)),
+      types,
+      getEventReadFilter(this.user)
+    );
+
+    return events.map(({ eventId, content, metadata }) => ({ eventId, content, metadata }));
+  }
+
   public async getLatestAssetEventsOfType(
     assets: string[],
-    type: string,
+    types: string[],
     apiQuery: APIQuery
-  ): Promise<any> {
-    const query = new APIQuery({
-      'content.data.type': type,
-      'content.idData.assetId': {
-        $in: assets,
-      },
-    });
-
-    const infoEvents = await this.eventRepository.find(query);
+  ): Promise<MongoPagedResult> {
+    // the requested assets are paged by assetId, each page running one aggregation
+    const assetIds = Array.from(new Set(assets)).sort();
+
+    let start = 0;
+    let end = assetIds.length;
+    if (apiQuery.next) {
+      const next = base64url.decode(apiQuery.next);
+      start = assetIds.filter(assetId => assetId <= next).length;
+      end = Math.min(start + apiQuery.limit, assetIds.length);
+    } else if (apiQuery.previous) {
+      const previous = base64url.decode(apiQuery.previous);
+      end = assetIds.filter(assetId => assetId < previous).length;
+      start = Math.max(end - apiQuery.limit, 0);
+    } else {
+      end = Math.min(apiQuery.limit, assetIds.length);
+    }
 
-    const events = {};
-    infoEvents.map((event: any) => {
-      const exists = events[event.content.idData.assetId];
-      const sameTimestamp = exists && exists.content.idData.timestamp === event.content.idData.timestamp;
+    const page = assetIds.slice(start, end);
 
-      if (!exists ||
-        (sameTimestamp && exists._id.toString() < event._id.toString()) ||
-        exists.content.idData.timestamp < event.content.idData.timestamp) {
-        events[event.content.idData.assetId] = event;
-      }
-    });
+    const result = new MongoPagedResult();
+    result.results = page.length > 0 ?
+      await this.eventRepository.assetEventsOfType(page, types, getEventReadFilter(this.user)) :
+      [];
+    result.hasPrevious = start > 0;
+    result.previous = page.length > 0 ? base64url.encode(page[0]) : undefined;
+    result.hasNext = end < assetIds.length;
+    result.next = page.length > 0 ? base64url.encode(page[page.length - 1]) : undefined;
 
-    return Object.keys(events).map(event => events[event]);
+    return result;
   }
 
   public async createEvent(
@@ -205,17 +344,13 @@ export class EventService {
     signature: string,
     data: object[]
   ) {
-    await ensureCanCreateEvent();
+    const [asset] = await this.assetService.getAssetsByIds([assetId]);
 
-    const testAsset = await this.assetService.getAsset(assetId);
-
-    if ((!testAsset) || (testAsset === null)) {
+    if (!asset) {
       throw new ValidationError( {reason: `Asset with assetId=${assetId} not found` } );
     }
 
-    const testEvent = await this.getEvent(eventId);
-
-    if (testEvent && (testEvent !== null)) {
+    if (await this.getEventExists(eventId)) {
       throw new ValidationError( {reason: `Event with eventId=${eventId} already exists` } );
     }
 
@@ -224,16 +359,192 @@ export class EventService {
       throw new PermissionError({ reason: 'Unauthorized' });
     }
 
+    await ensureCanCreateEvent(this.organizationRepository, creator);
+    ensureCanAttachEvent(creator, asset, accessLevel);
+
+    await this.dataTypeSchemaService.validateEventData(creator.organization, data);
+
+    await this.assetHierarchyService.validateContainment(creator, assetId, accessLevel, data);
+    await this.assetIdentifierService.validateIdentifiers(creator.organization, assetId, accessLevel, data);
+
+    const event = await this.buildEvent(
+      eventId,
+      creator.organization,
+      assetId,
+      accessLevel,
+      timestamp,
+      createdBy,
+      dataHash,
+      signature,
+      data
+    );
+
+    await this.eventRepository.create(event);
+
+    await this.assetIdentifierService.recordIdentifiers(event);
+
+    await this.assetHierarchyService.recordContainment(event);
+
+    await this.assetStateService.applyEvent(event);
+
+    this.eventStreamService.publish(event);
+  }
+
+  public async createEvents(
+    createdBy: string,
+    items: IEventPayload[]
+  ): Promise<any[]> {
+    const creator = await this.accountService.getAccount(createdBy);
+    if (!creator) {
+      throw new PermissionError({ reason: 'Unauthorized' });
+    }
+
+    await ensureCanCreateEvent(this.organizationRepository, creator);
+
+    const assetIds = items.map(item => item.content.idData.assetId);
+    const existingAssets = {};
+    (await this.assetService.getAssetsByIds(assetIds)).map(asset => {
+      existingAssets[asset.assetId] = asset;
+    });
+
+    const eventIds = items.map(item => item.eventId);
+    const existingEvents = (await this.getEventsByIds(eventIds)).map(event => event.eventId);
+
+    const results = [];
+    const events: Event[] = [];
+    const eventResults = [];
+    const batchEventIds = [];
+    const batchLinks: IContainmentLink[] = [];
+    const batchIdentifiers: IAssignedIdentifier[] = [];
+
+    for (const item of items) {
+      const idData = item.content.idData;
+
+      if (!existingAssets[idData.assetId]) {
+        results.push({ eventId: item.eventId, success: false, reason: `Asset with assetId=${idData.assetId} not found` });
+        continue;
+      }
+
+      try {
+        ensureCanAttachEvent(creator, existingAssets[idData.assetId], idData.accessLevel);
+      } catch (error) {
+        results.push({ eventId: item.eventId, success: false, reason: getErrorReason(error) });
+        continue;
+      }
+
+      if (existingEvents.indexOf(item.eventId) > -1 || batchEventIds.indexOf(item.eventId) > -1) {
+        results.push({ eventId: item.eventId, success: false, reason: `Event with eventId=${item.eventId} already exists` });
+        continue;
+      }
+
+      try {
+        await this.dataTypeSchemaService.validateEventData(creator.organization, item.content.data);
+        await this.assetHierarchyService.validateContainment(
+          creator,
+          idData.assetId,
+          idData.accessLevel,
+          item.content.data,
+          batchLinks
+        );
+        await this.assetIdentifierService.validateIdentifiers(
+          creator.organization,
+          idData.assetId,
+          idData.accessLevel,
+          item.content.data,
+          batchIdentifiers
+        );
+      } catch (error) {
+        results.push({ eventId: item.eventId, success: false, reason: getErrorReason(error) });
+        continue;
+      }
+
+      events.push(await this.buildEvent(
+        item.eventId,
+        creator.organization,
+        idData.assetId,
+        idData.accessLevel,
+        idData.timestamp,
+        createdBy,
+        idData.dataHash,
+        item.content.signature,
+        item.content.data
+      ));
+      batchEventIds.push(item.eventId);
+      batchLinks.push(...this.assetHierarchyService.getContainmentLinks(idData.assetId, idData.accessLevel, item.content.data));
+      batchIdentifiers.push(...this.assetIdentifierService.getUniqueIdentifiers(idData.assetId, idData.accessLevel, item.content.data));
+
+      // filled in once the insert tells whether the event was stored
+      const result = { eventId: item.eventId };
+      results.push(result);
+      eventResults.push(result);
+    }
+
+    if (events.length > 0) {
+      const failures = await this.eventRepository.createBulkUnordered(events);
+      failures.map(failure => Object.assign(eventResults[failure.index], {
+        success: false,
+        reason: failure.code === 11000 ? `Event with eventId=${events[failure.index].eventId} already exists` : failure.reason,
+      }));
+
+      const createdEvents = events.filter((event, index) => eventResults[index].success === undefined);
+      for (const event of createdEvents) {
+        Object.assign(eventResults[events.indexOf(event)], { success: true });
+
+        await this.assetIdentifierService.recordIdentifiers(event);
+        await this.assetHierarchyService.recordContainment(event);
+        await this.assetStateService.applyEvent(event);
+      }
+
+      createdEvents.map(event => this.eventStreamService.publish(event));
+    }
+
+    return results;
+  }
+
+  private canDecryptEvent(event: Event): boolean {
+    if (event.organizationId !== this.user.organizationId && !this.user.isSuperAdmin) {
+      return false;
+    }
+
+    return this.user.accessLevel >= event.content.idData.accessLevel;
+  }
+
+  private getEventsByIds(eventIds: string[]): Promise<Event[]> {
+    const apiQuery = new APIQuery({ eventId: { $in: eventIds } });
+    apiQuery.fields = {
+      eventId: 1,
+    };
+    return this.eventRepository.find(apiQuery);
+  }
+
+  private async buildEvent(
+    eventId: string,
+    organizationId: number,
+    assetId: string,
+    accessLevel: number,
+    timestamp: number,
+    createdBy: string,
+    dataHash: string,
+    signature: string,
+    data: object[]
+  ): Promise<Event> {
     const event = new Event();
     event.eventId = eventId;
 
-    event.organizationId = creator.organization;
+    event.organizationId = organizationId;
+    event.public = false;
 
     event.metadata = new EventMetaData();
 
     event.metadata.bundleId = null;
     event.metadata.bundleUploadTimestamp = getTimestamp();
 
+    // requests of a service account are attributed to it and to the human who created it
+    if (this.user.serviceAccount) {
+      event.metadata.serviceAccountId = this.user.serviceAccount.serviceAccountId;
+      event.metadata.actingFor = this.user.actingFor;
+    }
+
     event.content = new EventContent();
 
     event.content.idData = new EventIdData();
@@ -246,9 +557,17 @@ export class EventService {
 
     event.content.signature = signature;
 
+    // only public data is copied out into the indexed location field
+    if (accessLevel === 0) {
+      const geoLocation = extractGeoLocation(data);
+      if (geoLocation) {
+        event.geoLocation = geoLocation;
+      }
+    }
+
     if (accessLevel > 0) {
       for (let i = 0; i < data.length; i = i + 1) {
-        const encryptedData = await this.organizationService.encrypt(JSON.stringify(data[i]), creator.organization);
+        const encryptedData = await this.organizationService.encrypt(JSON.stringify(data[i]), organizationId);
 
         const dataType = data[i]['type'];
 
@@ -261,6 +580,6 @@ export class EventService {
 
     event.content.data = data;
 
-    await this.eventRepository.create(event);
+    return event;
   }
 }
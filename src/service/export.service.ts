@@ -0,0 +1,137 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+import * as _ from 'lodash';
+import { Cursor } from 'mongodb';
+import { Writable } from 'stream';
+
+import { TYPE } from '../constant/types';
+import { APIQuery, ExportOptions, IExportColumn } from '../model';
+import { toCsvRow } from '../util';
+import { AssetService } from './asset.service';
+import { EventService } from './event.service';
+
+const defaultEventColumns: IExportColumn[] = [
+  { name: 'eventId', path: 'eventId' },
+  { name: 'assetId', path: 'content.idData.assetId' },
+  { name: 'createdBy', path: 'content.idData.createdBy' },
+  { name: 'timestamp', path: 'content.idData.timestamp' },
+  { name: 'accessLevel', path: 'content.idData.accessLevel' },
+  { name: 'bundleId', path: 'metadata.bundleId' },
+  { name: 'data', path: 'content.data' },
+];
+
+const defaultAssetColumns: IExportColumn[] = [
+  { name: 'assetId', path: 'assetId' },
+  { name: 'organizationId', path: 'organizationId' },
+  { name: 'createdBy', path: 'content.idData.createdBy' },
+  { name: 'timestamp', path: 'content.idData.timestamp' },
+  { name: 'sequenceNumber', path: 'content.idData.sequenceNumber' },
+  { name: 'bundleId', path: 'metadata.bundleId' },
+];
+
+const getColumnValue = (doc, column: IExportColumn) => {
+  if (column.type !== undefined) {
+    const entry = _.find(_.get(doc, 'content.data', []), { type: column.type });
+    return column.field ? _.get(entry, column.field) : entry;
+  }
+  return _.get(doc, column.path);
+};
+
+@injectable()
+export class ExportService {
+  constructor(
+    @inject(TYPE.EventService) private readonly eventService: EventService,
+    @inject(TYPE.AssetService) private readonly assetService: AssetService
+  ) { }
+
+  public async exportEvents(apiQuery: APIQuery, options: ExportOptions, output: Writable) {
+    const cursor = await this.eventService.getEventsCursor(apiQuery);
+
+    await this.writeCursor(
+      cursor,
+      options,
+      defaultEventColumns,
+      output,
+      event => this.eventService.checkEventDecryption(event)
+    );
+  }
+
+  public async exportAssets(apiQuery: APIQuery, options: ExportOptions, output: Writable) {
+    const cursor = await this.assetService.getAssetsCursor(apiQuery);
+
+    await this.writeCursor(
+      cursor,
+      options,
+      defaultAssetColumns,
+      output,
+      async asset => asset
+    );
+  }
+
+  private async writeCursor(
+    cursor: Cursor,
+    options: ExportOptions,
+    defaultColumns: IExportColumn[],
+    output: Writable,
+    transform: (doc: any) => Promise<any>
+  ) {
+    let closed = false;
+    output.once('close', () => closed = true);
+
+    const write = (chunk: string) => new Promise(resolve => {
+      if (output.write(chunk)) {
+        return resolve();
+      }
+      const done = () => {
+        output.removeListener('drain', done);
+        output.removeListener('close', done);
+        resolve();
+      };
+      output.on('drain', done);
+      output.on('close', done);
+    });
+
+    const columns = options.columns || defaultColumns;
+
+    try {
+      if (options.format === 'csv') {
+        await write(toCsvRow(columns.map(column => column.name)));
+      }
+
+      while (!closed && await cursor.hasNext()) {
+        const doc = await transform(await cursor.next());
+
+        if (options.format === 'csv') {
+          await write(toCsvRow(columns.map(column => getColumnValue(doc, column))));
+        } else if (options.columns) {
+          const row = {};
+          columns.map(column => row[column.name] = getColumnValue(doc, column));
+          await write(`${JSON.stringify(row)}\n`);
+        } else {
+          await write(`${JSON.stringify(doc)}\n`);
+        }
+      }
+    } catch (error) {
+      // the status is already sent, aborting the chunked body tells the client the file is incomplete
+      output.destroy(error);
+      throw error;
+    } finally {
+      cursor.close();
+    }
+
+    output.end();
+  }
+}
@@ -0,0 +1,291 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+import * as _ from 'lodash';
+import { DeleteWriteOpResultObject } from 'mongodb';
+
+import { TYPE } from '../constant/types';
+import { ImportBatchRepository, ImportTemplateRepository } from '../database/repository';
+import {
+  APIQuery,
+  IImportColumn,
+  IImportRowResult,
+  IImportSignature,
+  ImportBatch,
+  ImportTemplate,
+  MongoPagedResult,
+  UserPrincipal
+} from '../model';
+import { EventIdData } from '../model/event/event-iddata.model';
+import { getTimestamp, parseCsv } from '../util';
+import { validateTimestamp } from '../validation/validate.utils';
+import { AssetService } from './asset.service';
+import { DataTypeSchemaService } from './data-type-schema.service';
+import { EventService } from './event.service';
+import { Web3Service } from './web3.service';
+
+import { ExistsError, NotFoundError, ValidationError } from '../errors';
+
+const maximumBatchRows = 500;
+
+@injectable()
+export class ImportService {
+  constructor(
+    @inject(TYPE.UserPrincipal) private readonly user: UserPrincipal,
+    @inject(TYPE.ImportTemplateRepository) private readonly importTemplateRepository: ImportTemplateRepository,
+    @inject(TYPE.ImportBatchRepository) private readonly importBatchRepository: ImportBatchRepository,
+    @inject(TYPE.AssetService) private readonly assetService: AssetService,
+    @inject(TYPE.EventService) private readonly eventService: EventService,
+    @inject(TYPE.DataTypeSchemaService) private readonly dataTypeSchemaService: DataTypeSchemaService,
+    @inject(TYPE.Web3Service) private readonly web3Service: Web3Service
+  ) { }
+
+  public getImportTemplates(apiQuery: APIQuery): Promise<MongoPagedResult> {
+    apiQuery.addToQuery({ organizationId: this.user.organizationId });
+    return this.importTemplateRepository.findWithPagination(apiQuery);
+  }
+
+  public getImportTemplate(name: string): Promise<ImportTemplate> {
+    const apiQuery = new APIQuery({ name, organizationId: this.user.organizationId });
+    return this.importTemplateRepository.findOne(apiQuery);
+  }
+
+  public async createImportTemplate(importTemplate: ImportTemplate): Promise<ImportTemplate> {
+    if (await this.getImportTemplate(importTemplate.name)) {
+      throw new ExistsError({ reason: `An import template named ${importTemplate.name} already exists.` });
+    }
+
+    importTemplate.organizationId = this.user.organizationId;
+    importTemplate.setCreationTimestamp(this.user.address);
+
+    await this.importTemplateRepository.create(importTemplate);
+
+    return this.getImportTemplate(importTemplate.name);
+  }
+
+  public updateImportTemplate(name: string, importTemplate: ImportTemplate): Promise<ImportTemplate> {
+    importTemplate.setMutationTimestamp(this.user.address);
+
+    const apiQuery = new APIQuery({ name, organizationId: this.user.organizationId });
+    return this.importTemplateRepository.update(apiQuery, importTemplate);
+  }
+
+  public deleteImportTemplate(name: string): Promise<DeleteWriteOpResultObject> {
+    const apiQuery = new APIQuery({ name, organizationId: this.user.organizationId });
+    return this.importTemplateRepository.deleteOne(apiQuery);
+  }
+
+  public getImportBatch(batchId: string): Promise<ImportBatch> {
+    const apiQuery = new APIQuery({ batchId, organizationId: this.user.organizationId });
+    return this.importBatchRepository.findOne(apiQuery);
+  }
+
+  public async prepareImportBatch(templateName: string, csv: string): Promise<ImportBatch> {
+    const template = await this.getImportTemplate(templateName);
+    if (!template) {
+      throw new NotFoundError({ reason: `Import template ${templateName} not found` });
+    }
+
+    const [header, ...records] = parseCsv(csv);
+    if (!header || records.length === 0) {
+      throw new ValidationError({ reason: 'CSV must contain a header row and at least one record' });
+    }
+    if (records.length > maximumBatchRows) {
+      throw new ValidationError({ reason: `CSV must not contain more than ${maximumBatchRows} records` });
+    }
+
+    const missingColumns = [template.assetIdColumn, template.timestampColumn]
+      .concat(template.columns.map(column => column.column))
+      .filter(column => column !== undefined && header.indexOf(column) < 0);
+    if (missingColumns.length > 0) {
+      throw new ValidationError({ reason: `Missing columns: ${_.uniq(missingColumns).join(', ')}` });
+    }
+
+    const assetIds = records.map(record => record[header.indexOf(template.assetIdColumn)]);
+    const existingAssets = (await this.assetService.getAssetsByIds(assetIds)).map(asset => asset.assetId);
+
+    const batch = ImportBatch.forTemplate(template.name, this.user);
+
+    for (let index = 0; index < records.length; index += 1) {
+      // row numbers match the line of the record in a spreadsheet, the header being row 1
+      const row = index + 2;
+      const values = _.zipObject(header, records[index]);
+
+      try {
+        const assetId = values[template.assetIdColumn];
+        if (!assetId) {
+          throw new ValidationError({ reason: `${template.assetIdColumn} is required` });
+        }
+        if (existingAssets.indexOf(assetId) < 0) {
+          throw new ValidationError({ reason: `Asset with assetId=${assetId} not found` });
+        }
+
+        const entry = { type: template.eventType };
+        template.columns.map(column => {
+          const value = this.convertValue(column, values[column.column]);
+          if (value !== undefined) {
+            _.set(entry, column.field, value);
+          }
+        });
+        const data = [entry];
+
+        await this.dataTypeSchemaService.validateEventData(this.user.organizationId, data);
+
+        const timestamp = template.timestampColumn ?
+          this.parseTimestamp(values[template.timestampColumn]) :
+          batch.createdOn;
+        validateTimestamp(timestamp);
+
+        const idData: EventIdData = {
+          assetId,
+          timestamp,
+          createdBy: this.user.address,
+          accessLevel: template.accessLevel,
+          dataHash: this.web3Service.calculateHash(data),
+        };
+
+        batch.rows.push({
+          row,
+          idData,
+          data,
+          payload: this.web3Service.serializeForHashing(idData),
+          hash: this.web3Service.calculateHash(idData),
+        });
+      } catch (error) {
+        batch.errors.push({ row, reason: (error.error && error.error.reason) || error.message });
+      }
+    }
+
+    await this.importBatchRepository.create(batch);
+
+    return this.getImportBatch(batch.batchId);
+  }
+
+  public async submitImportBatch(
+    batchId: string,
+    signatures: IImportSignature[]
+  ): Promise<IImportRowResult[]> {
+    const batch = await this.getImportBatch(batchId);
+    if (!batch) {
+      throw new NotFoundError({ reason: `Import batch ${batchId} not found` });
+    }
+    if (batch.createdBy !== this.user.address) {
+      throw new ValidationError({ reason: 'Import batch was prepared by another account' });
+    }
+
+    const submission = new ImportBatch();
+    submission.status = 'submitted';
+    submission.submittedOn = getTimestamp();
+
+    const claimed = await this.importBatchRepository.update(
+      new APIQuery({ batchId, organizationId: this.user.organizationId, status: 'pending' }),
+      submission
+    );
+    if (!claimed) {
+      throw new ValidationError({ reason: `Import batch ${batchId} was already submitted` });
+    }
+
+    const results: IImportRowResult[] = batch.errors.map(error => ({ row: error.row, success: false, reason: error.reason }));
+    const rows = {};
+    const items = [];
+
+    for (const importRow of batch.rows) {
+      const signed = signatures.find(item => item.row === importRow.row);
+      if (!signed) {
+        results.push({ row: importRow.row, success: false, reason: 'Signature missing' });
+        continue;
+      }
+
+      try {
+        this.web3Service.validateSignature2(batch.createdBy, signed.signature, importRow.idData);
+      } catch (error) {
+        results.push({ row: importRow.row, success: false, reason: (error.error && error.error.reason) || error.message });
+        continue;
+      }
+
+      const content = {
+        idData: importRow.idData,
+        signature: signed.signature,
+        data: importRow.data,
+      };
+      const eventId = this.web3Service.calculateHash(content);
+
+      rows[eventId] = importRow.row;
+      items.push({ eventId, content });
+    }
+
+    if (items.length > 0) {
+      try {
+        const created = await this.eventService.createEvents(batch.createdBy, items);
+        created.map(result => results.push({ row: rows[result.eventId], ...result }));
+      } catch (error) {
+        // nothing is reported, the batch can be submitted again and rows created so far fail as existing
+        const reset = new ImportBatch();
+        reset.status = 'pending';
+
+        await this.importBatchRepository.update(
+          new APIQuery({ batchId, organizationId: this.user.organizationId }),
+          reset
+        );
+        throw error;
+      }
+    }
+
+    results.sort((a, b) => a.row - b.row);
+
+    const reported = new ImportBatch();
+    reported.report = results;
+
+    await this.importBatchRepository.update(
+      new APIQuery({ batchId, organizationId: this.user.organizationId }),
+      reported
+    );
+
+    return results;
+  }
+
+  private convertValue(column: IImportColumn, value: string) {
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+
+    switch (column.type) {
+      case 'number':
+        const numeric = Number(value);
+        if (isNaN(numeric)) {
+          throw new ValidationError({ reason: `${column.column} must be a number` });
+        }
+        return numeric;
+      case 'boolean':
+        if (['true', '1', 'yes'].indexOf(value.toLowerCase()) > -1) {
+          return true;
+        }
+        if (['false', '0', 'no'].indexOf(value.toLowerCase()) > -1) {
+          return false;
+        }
+        throw new ValidationError({ reason: `${column.column} must be a boolean` });
+      default:
+        return value;
+    }
+  }
+
+  private parseTimestamp(value: string): number {
+    const timestamp = /^\d+$/.test(value) ? Number(value) : Math.floor(Date.parse(value) / 1000);
+    if (isNaN(timestamp)) {
+      throw new ValidationError({ reason: `Invalid timestamp ${value}` });
+    }
+    return timestamp;
+  }
+}
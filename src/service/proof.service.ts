@@ -0,0 +1,142 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../constant/types';
+import { Bundle, BundleProof, IBundleEntryId, VerificationReport } from '../model';
+import { IMerkleProofStep, merkleLeaf, merkleProof, merkleRoot, merkleRootFromProof } from '../util';
+import { AssetService } from './asset.service';
+import { BundleService } from './bundle.service';
+import { EventService } from './event.service';
+
+import { NotFoundError } from '../errors';
+
+@injectable()
+export class ProofService {
+  constructor(
+    @inject(TYPE.AssetService) private readonly assetService: AssetService,
+    @inject(TYPE.EventService) private readonly eventService: EventService,
+    @inject(TYPE.BundleService) private readonly bundleService: BundleService
+  ) { }
+
+  public async getAssetProof(assetId: string): Promise<BundleProof> {
+    const asset = await this.assetService.getAsset(assetId);
+    if (!asset) {
+      throw new NotFoundError({ reason: `Asset with assetId=${assetId} not found` });
+    }
+
+    return this.getProof('asset', assetId, asset.metadata && asset.metadata.bundleId);
+  }
+
+  public async getEventProof(eventId: string): Promise<BundleProof> {
+    const event = await this.eventService.getEvent(eventId);
+    if (!event) {
+      throw new NotFoundError({ reason: `Event with eventId=${eventId} not found` });
+    }
+
+    return this.getProof('event', eventId, event.metadata && event.metadata.bundleId);
+  }
+
+  public async verifyProof(proof: {
+    entryId: string,
+    path: IMerkleProofStep[],
+    root: string,
+    leaf?: string,
+    bundleId?: string,
+    bundleTransactionHash?: string,
+  }): Promise<VerificationReport> {
+    const report = VerificationReport.forEntity('proof', proof.entryId);
+
+    if (proof.leaf !== undefined) {
+      report.compare('leaf', proof.leaf, merkleLeaf(proof.entryId));
+    }
+    report.compare('root', proof.root, merkleRootFromProof(proof.entryId, proof.path));
+
+    if (!proof.bundleId) {
+      report.skip('bundle', 'No bundleId supplied');
+      return report;
+    }
+
+    const bundle = await this.bundleService.getBundle(proof.bundleId);
+    if (!bundle) {
+      report.fail('bundle', `No bundle with id = ${proof.bundleId} found`);
+      return report;
+    }
+
+    try {
+      report.compare('bundle', await this.getBundleRoot(bundle), proof.root);
+    } catch (error) {
+      report.fail('bundle', (error.error && error.error.reason) || error.message);
+    }
+
+    if (proof.bundleTransactionHash !== undefined) {
+      report.compare('bundleTransactionHash', bundle.bundleTransactionHash, proof.bundleTransactionHash);
+    }
+
+    return report;
+  }
+
+  private async getProof(entryType: string, entryId: string, bundleId: string): Promise<BundleProof> {
+    if (!bundleId) {
+      throw new NotFoundError({ reason: `${entryId} is not bundled yet` });
+    }
+
+    const bundle = await this.bundleService.getBundle(bundleId);
+    if (!bundle) {
+      throw new NotFoundError({ reason: `No bundle with id = ${bundleId} found` });
+    }
+
+    const entryIds = await this.bundleService.getBundleEntryIds(bundleId);
+    const leafIndex = entryIds.findIndex(entry => entry.type === entryType && entry.id === entryId);
+    if (leafIndex < 0) {
+      throw new NotFoundError({ reason: `Bundle ${bundleId} does not contain ${entryId}` });
+    }
+
+    const leaves = await this.getLeaves(bundle, entryIds);
+
+    const proof = BundleProof.forEntry(
+      bundleId,
+      entryType,
+      entryId,
+      leaves[leafIndex],
+      merkleProof(leaves, leafIndex),
+      merkleRoot(leaves)
+    );
+    proof.bundleTransactionHash = bundle.bundleTransactionHash;
+    proof.proofBlock = bundle.bundleProofBlock;
+
+    return proof;
+  }
+
+  private async getBundleRoot(bundle: Bundle): Promise<string> {
+    if (bundle.merkleRoot) {
+      return bundle.merkleRoot;
+    }
+
+    const leaves = await this.getLeaves(bundle, await this.bundleService.getBundleEntryIds(bundle.bundleId));
+    return merkleRoot(leaves);
+  }
+
+  // bundles are immutable, so the root is stored the first time it is computed
+  private async getLeaves(bundle: Bundle, entryIds: IBundleEntryId[]): Promise<string[]> {
+    const leaves = entryIds.map(entry => merkleLeaf(entry.id));
+
+    if (!bundle.merkleRoot && leaves.length > 0) {
+      await this.bundleService.setBundleMerkleRoot(bundle.bundleId, merkleRoot(leaves), leaves.length);
+    }
+
+    return leaves;
+  }
+}
@@ -0,0 +1,136 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../constant/types';
+import { AssetRepository, EventRepository } from '../database/repository';
+import { APIQuery, UserPrincipal } from '../model';
+import { getMatchedFields } from '../util';
+import { AssetIdentifierService } from './asset-identifier.service';
+import { EventService } from './event.service';
+
+@injectable()
+export class SearchService {
+  constructor(
+    @inject(TYPE.UserPrincipal) private readonly user: UserPrincipal,
+    @inject(TYPE.AssetRepository) private readonly assetRepository: AssetRepository,
+    @inject(TYPE.EventRepository) private readonly eventRepository: EventRepository,
+    @inject(TYPE.EventService) private readonly eventService: EventService,
+    @inject(TYPE.AssetIdentifierService) private readonly assetIdentifierService: AssetIdentifierService
+  ) { }
+
+  public async ensureIndexes() {
+    await this.eventRepository.ensureTextIndex();
+    await this.assetRepository.ensureTextIndex();
+  }
+
+  public async search(text: string, scope: string, limit: number): Promise<any[]> {
+    let results = [];
+
+    if (scope !== 'assets') {
+      results = results.concat(await this.searchEvents(text, limit));
+    }
+    if (scope !== 'events') {
+      results = results.concat(await this.searchAssets(text, limit));
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // text scores depend on the index they come from, so each collection is scaled to its best hit
+  private scaleScores(results: any[]): any[] {
+    const best = results.reduce((max, result) => Math.max(max, result.score), 0);
+    return results.map(result => ({ ...result, score: best > 0 ? result.score / best : 0 }));
+  }
+
+  private async searchEvents(text: string, limit: number): Promise<any[]> {
+    const apiQuery = this.getSearchQuery(text, limit);
+    apiQuery.addToQuery({ 'content.idData.accessLevel': { $lte: this.user.accessLevel } });
+    apiQuery.fields = {
+      repository: 0,
+    };
+
+    const fields = Object.keys(this.eventRepository.textIndexWeights);
+    const events = await this.eventRepository.searchText(apiQuery);
+
+    return this.scaleScores(await Promise.all(events.map(async event => {
+      const { score, ...document } = event;
+
+      return {
+        score,
+        type: 'event',
+        id: event.eventId,
+        matchedFields: getMatchedFields(event, fields, text),
+        document: await this.eventService.checkEventDecryption(document),
+      };
+    })));
+  }
+
+  // an exact identifier match ranks like the best text match
+  private async searchAssets(text: string, limit: number): Promise<any[]> {
+    const identifiers = await this.assetIdentifierService.findSearchedIdentifiers(text, this.user.organizationId);
+    const matchedIdentifiers = {};
+    identifiers.map(identifier => {
+      matchedIdentifiers[identifier.assetId] = (matchedIdentifiers[identifier.assetId] || []).concat(`identifiers.${identifier.type}`);
+    });
+
+    const identifiedQuery = new APIQuery({
+      organizationId: this.user.organizationId,
+      assetId: { $in: Object.keys(matchedIdentifiers) },
+    });
+    identifiedQuery.fields = {
+      repository: 0,
+    };
+    const identified = Object.keys(matchedIdentifiers).length ? await this.assetRepository.find(identifiedQuery) : [];
+
+    const apiQuery = this.getSearchQuery(text, limit);
+    apiQuery.addToQuery({ assetId: { $nin: Object.keys(matchedIdentifiers) } });
+    apiQuery.fields = {
+      repository: 0,
+    };
+
+    const fields = Object.keys(this.assetRepository.textIndexWeights);
+    const assets = await this.assetRepository.searchText(apiQuery);
+
+    return identified
+      .map(asset => ({
+        score: 1,
+        document: asset,
+        type: 'asset',
+        id: asset.assetId,
+        matchedFields: Array.from(new Set(matchedIdentifiers[asset.assetId])),
+      }))
+      .concat(this.scaleScores(assets.map(asset => {
+        const { score, ...document } = asset;
+
+        return {
+          score,
+          document,
+          type: 'asset',
+          id: asset.assetId,
+          matchedFields: getMatchedFields(asset, fields, text),
+        };
+      })));
+  }
+
+  private getSearchQuery(text: string, limit: number): APIQuery {
+    const apiQuery = new APIQuery({ organizationId: this.user.organizationId });
+    apiQuery.search = text;
+    apiQuery.limit = limit;
+    return apiQuery;
+  }
+}
@@ -0,0 +1,175 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../constant/types';
+import {
+  AccountRepository,
+  OrganizationRepository,
+  ServiceAccountRepository
+} from '../database/repository';
+import {
+  Account,
+  APIQuery,
+  IServiceAccountKey,
+  MongoPagedResult,
+  ServiceAccount,
+  UserPrincipal
+} from '../model';
+import { getTimestamp, isValidIpRule } from '../util';
+import { Web3Service } from './web3.service';
+
+import { NotFoundError, ValidationError } from '../errors';
+
+import { ensureCanManageServiceAccount } from '../security/access.check';
+
+@injectable()
+export class ServiceAccountService {
+  constructor(
+    @inject(TYPE.UserPrincipal) private readonly user: UserPrincipal,
+    @inject(TYPE.ServiceAccountRepository) private readonly serviceAccountRepository: ServiceAccountRepository,
+    @inject(TYPE.AccountRepository) private readonly accountRepository: AccountRepository,
+    @inject(TYPE.OrganizationRepository) private readonly organizationRepository: OrganizationRepository,
+    @inject(TYPE.Web3Service) private readonly web3Service: Web3Service
+  ) { }
+
+  public getServiceAccounts(apiQuery: APIQuery): Promise<MongoPagedResult> {
+    if (!this.user.isSuperAdmin) {
+      apiQuery.addToQuery({ organizationId: this.user.organizationId });
+    }
+    apiQuery.fields = {
+      _id: 0,
+    };
+    return this.serviceAccountRepository.findWithPagination(apiQuery);
+  }
+
+  public async getServiceAccount(serviceAccountId: string): Promise<ServiceAccount> {
+    const apiQuery = new APIQuery({ serviceAccountId });
+    if (!this.user.isSuperAdmin) {
+      apiQuery.addToQuery({ organizationId: this.user.organizationId });
+    }
+    apiQuery.fields = {
+      _id: 0,
+    };
+
+    const serviceAccount = await this.serviceAccountRepository.findOne(apiQuery);
+    if (!serviceAccount) {
+      throw new NotFoundError({ reason: `Service account with serviceAccountId=${serviceAccountId} not found` });
+    }
+    return serviceAccount;
+  }
+
+  public getServiceAccountForAuth(serviceAccountId: string): Promise<ServiceAccount> {
+    return this.serviceAccountRepository.findOne(new APIQuery({ serviceAccountId }));
+  }
+
+  public async createServiceAccount(
+    serviceAccount: ServiceAccount,
+    permissions: string[],
+    accessLevel: number
+  ): Promise<IServiceAccountKey> {
+    const manager = await this.getManager(permissions, accessLevel);
+
+    this.validateServiceAccount(serviceAccount);
+
+    const keyPair = this.web3Service.createKeyPair();
+
+    serviceAccount.address = keyPair.address;
+    serviceAccount.organizationId = manager.organization;
+    serviceAccount.createdBy = manager.address;
+
+    await this.accountRepository.create(this.buildAccount(serviceAccount, permissions, accessLevel));
+    await this.serviceAccountRepository.create(serviceAccount);
+
+    return {
+      serviceAccount: await this.getServiceAccount(serviceAccount.serviceAccountId),
+      privateKey: keyPair.privateKey,
+    };
+  }
+
+  // the old key stops working at once, records it signed stay attributed to the service account
+  public async rotateServiceAccount(serviceAccountId: string): Promise<IServiceAccountKey> {
+    const serviceAccount = await this.getServiceAccount(serviceAccountId);
+    if (serviceAccount.revokedOn !== undefined) {
+      throw new ValidationError({ reason: 'A revoked service account can not be rotated' });
+    }
+
+    const current = await this.accountRepository.getAccount(new APIQuery({ address: serviceAccount.address }), 0, 1000, true);
+    const manager = await this.getManager(current.permissions, current.accessLevel);
+
+    const keyPair = this.web3Service.createKeyPair();
+
+    serviceAccount.address = keyPair.address;
+
+    await this.accountRepository.create(this.buildAccount(serviceAccount, current.permissions, current.accessLevel));
+    await this.accountRepository.update(current.address, { active: false });
+    await this.serviceAccountRepository.rotateAddress(serviceAccountId, keyPair.address, manager.address, getTimestamp());
+
+    return {
+      serviceAccount: await this.getServiceAccount(serviceAccountId),
+      privateKey: keyPair.privateKey,
+    };
+  }
+
+  public async revokeServiceAccount(serviceAccountId: string): Promise<ServiceAccount> {
+    const serviceAccount = await this.getServiceAccount(serviceAccountId);
+    if (serviceAccount.revokedOn !== undefined) {
+      return serviceAccount;
+    }
+
+    const manager = await this.getManager([], 0);
+
+    const revoked = new ServiceAccount();
+    revoked.revokedOn = getTimestamp();
+    revoked.revokedBy = manager.address;
+
+    await this.serviceAccountRepository.update(new APIQuery({ serviceAccountId }), revoked);
+    await this.accountRepository.update(serviceAccount.address, { active: false });
+
+    return this.getServiceAccount(serviceAccountId);
+  }
+
+  private async getManager(permissions: string[], accessLevel: number): Promise<Account> {
+    const manager = await this.accountRepository.getAccount(new APIQuery({ address: this.user.address }), 0, 1000, true);
+
+    await ensureCanManageServiceAccount(this.organizationRepository, manager, permissions, accessLevel);
+
+    return manager;
+  }
+
+  private validateServiceAccount(serviceAccount: ServiceAccount) {
+    if (serviceAccount.expiresOn <= getTimestamp()) {
+      throw new ValidationError({ reason: 'expiresOn must be in the future' });
+    }
+
+    const invalid = serviceAccount.allowedIps.filter(rule => !isValidIpRule(rule));
+    if (invalid.length > 0) {
+      throw new ValidationError({ reason: `Invalid allowedIps: ${invalid.join(', ')}` });
+    }
+  }
+
+  private buildAccount(serviceAccount: ServiceAccount, permissions: string[], accessLevel: number): Account {
+    const account = new Account();
+    account.address = serviceAccount.address;
+    account.active = true;
+    account.accessLevel = accessLevel;
+    account.organization = serviceAccount.organizationId;
+    account.permissions = permissions;
+    account.registeredBy = serviceAccount.createdBy;
+    account.registeredOn = getTimestamp();
+    account.serviceAccountId = serviceAccount.serviceAccountId;
+    return account;
+  }
+}
@@ -0,0 +1,71 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { config } from '../config';
+import { TYPE } from '../constant/types';
+import { AuthSessionRepository } from '../database/repository';
+import { AuthSession, AuthToken } from '../model';
+import { getTimestamp } from '../util';
+
+interface ICachedSession {
+  revoked: boolean;
+  checkedOn: number;
+}
+
+// shared by all requests, so it must not depend on the UserPrincipal
+@injectable()
+export class TokenRevocationService {
+  private sessions = new Map<string, ICachedSession>();
+
+  constructor(
+    @inject(TYPE.AuthSessionRepository) private readonly authSessionRepository: AuthSessionRepository
+  ) { }
+
+  // revocations made through another node reach this one within authSessions.cacheTtl
+  public async isRevoked(authToken: AuthToken, sessionsRevokedOn?: number, ip?: string): Promise<boolean> {
+    // covers tokens signed before a revocation of all sessions but never presented before it
+    if (sessionsRevokedOn !== undefined && sessionsRevokedOn !== null && !(authToken.createdOn > sessionsRevokedOn)) {
+      return true;
+    }
+
+    const now = getTimestamp();
+
+    const cached = this.sessions.get(authToken.signature);
+    if (cached && cached.checkedOn + config.authSessions.cacheTtl > now) {
+      return cached.revoked;
+    }
+
+    const authSession = await this.authSessionRepository.recordUse(AuthSession.forToken(authToken, ip));
+    const revoked = authSession.revokedOn !== undefined && authSession.revokedOn !== null;
+
+    this.remember(authToken.signature, { revoked, checkedOn: now });
+
+    return revoked;
+  }
+
+  public forget(signatures: string[]) {
+    signatures.map(signature => this.sessions.delete(signature));
+  }
+
+  private remember(signature: string, cachedSession: ICachedSession) {
+    this.sessions.delete(signature);
+    if (this.sessions.size >= config.authSessions.cacheSize) {
+      // maps iterate in insertion order, so the first key is the longest unchecked one
+      this.sessions.delete(this.sessions.keys().next().value);
+    }
+    this.sessions.set(signature, cachedSession);
+  }
+}
@@ -0,0 +1,274 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../constant/types';
+import {
+  AssetIdentifierRepository,
+  AssetRepository,
+  AssetStateRepository,
+  AssetTransferRepository,
+  OrganizationRepository
+} from '../database/repository';
+import {
+  APIQuery,
+  Asset,
+  AssetIdentifier,
+  AssetState,
+  AssetTransfer,
+  IAssetTransferContent,
+  MongoPagedResult,
+  UserPrincipal
+} from '../model';
+import { getTimestamp, getTimestampAddDays } from '../util';
+import { validateTimestamp } from '../validation/validate.utils';
+import { Web3Service } from './web3.service';
+
+import { NotFoundError, ValidationError } from '../errors';
+
+const maximumTransferDays = 30;
+
+@injectable()
+export class TransferService {
+  constructor(
+    @inject(TYPE.UserPrincipal) private readonly user: UserPrincipal,
+    @inject(TYPE.AssetTransferRepository) private readonly assetTransferRepository: AssetTransferRepository,
+    @inject(TYPE.AssetRepository) private readonly assetRepository: AssetRepository,
+    @inject(TYPE.OrganizationRepository) private readonly organizationRepository: OrganizationRepository,
+    @inject(TYPE.AssetIdentifierRepository) private readonly assetIdentifierRepository: AssetIdentifierRepository,
+    @inject(TYPE.AssetStateRepository) private readonly assetStateRepository: AssetStateRepository,
+    @inject(TYPE.Web3Service) private readonly web3Service: Web3Service
+  ) { }
+
+  public async getTransfers(
+    apiQuery: APIQuery,
+    status?: string,
+    direction?: string,
+    assetId?: string
+  ): Promise<MongoPagedResult> {
+    await this.assetTransferRepository.expirePending();
+
+    if (direction === 'incoming') {
+      apiQuery.addToQuery({ toOrganizationId: this.user.organizationId });
+    } else if (direction === 'outgoing') {
+      apiQuery.addToQuery({ fromOrganizationId: this.user.organizationId });
+    } else {
+      apiQuery.addToQuery(this.getInvolvedQuery());
+    }
+    if (status) {
+      apiQuery.addToQuery({ status });
+    }
+    if (assetId) {
+      apiQuery.addToQuery({ assets: assetId });
+    }
+
+    return this.assetTransferRepository.findWithPagination(apiQuery);
+  }
+
+  public async getTransfer(transferId: string): Promise<AssetTransfer> {
+    await this.assetTransferRepository.expirePending();
+
+    const apiQuery = new APIQuery({ transferId, ...this.getInvolvedQuery() });
+    return this.assetTransferRepository.findOne(apiQuery);
+  }
+
+  public async offerTransfer(content: IAssetTransferContent): Promise<AssetTransfer> {
+    const idData = content.idData;
+    const assets = Array.from(new Set(idData.assets));
+
+    if (idData.createdBy.toLowerCase() !== this.user.address.toLowerCase()) {
+      throw new ValidationError({ reason: 'Transfer offer must be created by the sender' });
+    }
+    this.web3Service.validateSignature2(idData.createdBy, content.signature, idData);
+    validateTimestamp(idData.timestamp);
+
+    if (idData.toOrganizationId === this.user.organizationId) {
+      throw new ValidationError({ reason: 'Assets cannot be transferred to their own organization' });
+    }
+    if (idData.validUntil <= getTimestamp() || idData.validUntil > getTimestampAddDays(maximumTransferDays)) {
+      throw new ValidationError({ reason: `validUntil must be within the next ${maximumTransferDays} days` });
+    }
+
+    const organization = await this.organizationRepository.findOne(
+      new APIQuery({ organizationId: idData.toOrganizationId })
+    );
+    if (!organization || !organization.active) {
+      throw new ValidationError({ reason: `Organization with organizationId=${idData.toOrganizationId} not found or not active` });
+    }
+
+    const foreignAssets = await this.getMissingAssets(assets, this.user.organizationId);
+    if (foreignAssets.length > 0) {
+      throw new ValidationError({ reason: `Assets not owned by the sender's organization: ${foreignAssets.join(', ')}` });
+    }
+
+    await this.assetTransferRepository.expirePending();
+
+    const pending = await this.assetTransferRepository.find(new APIQuery({ assets: { $in: assets }, status: 'pending' }));
+    if (pending.length > 0) {
+      throw new ValidationError({ reason: `Assets are already offered in transfer ${pending[0].transferId}` });
+    }
+
+    const transferId = this.web3Service.calculateHash(content);
+    if (await this.assetTransferRepository.existsOR({ transferId }, 'transferId')) {
+      throw new ValidationError({ reason: `Transfer with transferId=${transferId} already exists` });
+    }
+
+    const transfer = AssetTransfer.forOffer(transferId, content, this.user.organizationId);
+    if (this.user.serviceAccount) {
+      transfer.serviceAccountId = this.user.serviceAccount.serviceAccountId;
+      transfer.actingFor = this.user.actingFor;
+    }
+    await this.assetTransferRepository.create(transfer);
+
+    return this.getTransfer(transferId);
+  }
+
+  // the offer is held as accepting while its assets move, so it can not be cancelled, rejected or accepted twice meanwhile
+  public async acceptTransfer(transferId: string): Promise<AssetTransfer> {
+    const transfer = await this.resolveTransfer(
+      transferId,
+      AssetTransfer.forStatus('accepting'),
+      { toOrganizationId: this.user.organizationId }
+    );
+
+    try {
+      await this.moveAssets(transfer);
+    } catch (error) {
+      await this.assetTransferRepository.update(new APIQuery({ transferId, status: 'accepting' }), AssetTransfer.forStatus('pending'));
+      throw error;
+    }
+
+    return this.assetTransferRepository.update(
+      new APIQuery({ transferId, status: 'accepting' }),
+      AssetTransfer.forResolution('accepted', this.user.address)
+    );
+  }
+
+  public rejectTransfer(transferId: string): Promise<AssetTransfer> {
+    return this.resolveTransfer(
+      transferId,
+      AssetTransfer.forResolution('rejected', this.user.address),
+      { toOrganizationId: this.user.organizationId }
+    );
+  }
+
+  public cancelTransfer(transferId: string): Promise<AssetTransfer> {
+    return this.resolveTransfer(
+      transferId,
+      AssetTransfer.forResolution('cancelled', this.user.address),
+      { fromOrganizationId: this.user.organizationId }
+    );
+  }
+
+  // every asset moves or none does
+  private async moveAssets(transfer: AssetTransfer) {
+    const { assets, fromOrganizationId, toOrganizationId } = transfer;
+
+    const missingAssets = await this.getMissingAssets(assets, fromOrganizationId);
+    if (missingAssets.length > 0) {
+      throw new ValidationError({ reason: `Assets no longer owned by the sender's organization: ${missingAssets.join(', ')}` });
+    }
+
+    const conflicts = await this.getIdentifierConflicts(assets, toOrganizationId);
+    if (conflicts.length > 0) {
+      throw new ValidationError({ reason: `Identifiers already used by the receiving organization: ${conflicts.join(', ')}` });
+    }
+
+    const moved = await this.assetRepository.transferOwnership(assets, fromOrganizationId, toOrganizationId);
+    if (moved !== assets.length) {
+      // the owner of some assets changed after the check, the ones that moved go back
+      const stayed = await this.getMissingAssets(assets, toOrganizationId);
+      const movedAssets = assets.filter(assetId => stayed.indexOf(assetId) < 0);
+      await this.assetRepository.transferOwnership(movedAssets, toOrganizationId, fromOrganizationId);
+
+      throw new ValidationError({ reason: `Assets no longer owned by the sender's organization: ${stayed.join(', ')}` });
+    }
+
+    const assetQuery = new APIQuery({ assetId: { $in: assets } });
+
+    // sharing was granted by the previous owner, the new owner starts without it
+    const unshared = new Asset();
+    unshared.sharedWith = [];
+    await this.assetRepository.updateMany(assetQuery, unshared);
+
+    const identifierOwner = new AssetIdentifier();
+    identifierOwner.organizationId = toOrganizationId;
+    await this.assetIdentifierRepository.updateMany(assetQuery, identifierOwner);
+
+    const stateOwner = new AssetState();
+    stateOwner.organizationId = toOrganizationId;
+    await this.assetStateRepository.updateMany(assetQuery, stateOwner);
+  }
+
+  // unique identifiers are unique per organization, so the receiver must not use them already
+  private async getIdentifierConflicts(assets: string[], organizationId: number): Promise<string[]> {
+    const identifiers = await this.assetIdentifierRepository.find(new APIQuery({ assetId: { $in: assets }, unique: true }));
+    if (identifiers.length === 0) {
+      return [];
+    }
+
+    const used = await this.assetIdentifierRepository.find(new APIQuery({
+      organizationId,
+      unique: true,
+      $or: identifiers.map(({ type, value, serial }) => ({ type, value, serial })),
+    }));
+    return used.map(identifier => identifier.serial ?
+      `${identifier.type}:${identifier.value}:${identifier.serial}` :
+      `${identifier.type}:${identifier.value}`
+    );
+  }
+
+  // the status only moves away from pending once, concurrent resolutions of the same offer fail
+  private async resolveTransfer(transferId: string, update: AssetTransfer, party: object): Promise<AssetTransfer> {
+    await this.assetTransferRepository.expirePending();
+
+    const transfer = await this.assetTransferRepository.findOne(new APIQuery({ transferId, ...party }));
+    if (!transfer) {
+      throw new NotFoundError({ reason: `Transfer with transferId=${transferId} not found` });
+    }
+
+    const resolved = await this.assetTransferRepository.update(
+      new APIQuery({ transferId, ...party, status: 'pending', validUntil: { $gt: getTimestamp() } }),
+      update
+    );
+    if (!resolved) {
+      throw new ValidationError({ reason: `Transfer with transferId=${transferId} is ${transfer.status}` });
+    }
+
+    return resolved;
+  }
+
+  private async getMissingAssets(assets: string[], organizationId: number): Promise<string[]> {
+    const apiQuery = new APIQuery({ organizationId, assetId: { $in: assets } });
+    apiQuery.fields = {
+      assetId: 1,
+    };
+    const owned = (await this.assetRepository.find(apiQuery)).map(asset => asset.assetId);
+    return assets.filter(assetId => owned.indexOf(assetId) < 0);
+  }
+
+  private getInvolvedQuery(): object {
+    if (this.user.isSuperAdmin) {
+      return {};
+    }
+
+    return {
+      $or: [
+        { fromOrganizationId: this.user.organizationId },
+        { toOrganizationId: this.user.organizationId },
+      ],
+    };
+  }
+}
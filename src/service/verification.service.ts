@@ -0,0 +1,134 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { inject, injectable } from 'inversify';
+
+import { TYPE } from '../constant/types';
+import { UserPrincipal, VerificationReport } from '../model';
+import { AssetService } from './asset.service';
+import { BundleService } from './bundle.service';
+import { EventService } from './event.service';
+import { OrganizationService } from './organization.service';
+import { Web3Service } from './web3.service';
+
+import { NotFoundError } from '../errors';
+
+@injectable()
+export class VerificationService {
+  constructor(
+    @inject(TYPE.UserPrincipal) private readonly user: UserPrincipal,
+    @inject(TYPE.AssetService) private readonly assetService: AssetService,
+    @inject(TYPE.EventService) private readonly eventService: EventService,
+    @inject(TYPE.BundleService) private readonly bundleService: BundleService,
+    @inject(TYPE.OrganizationService) private readonly organizationService: OrganizationService,
+    @inject(TYPE.Web3Service) private readonly web3Service: Web3Service
+  ) { }
+
+  public async verifyEvent(eventId: string): Promise<VerificationReport> {
+    const event = await this.eventService.getEvent(eventId);
+    if (!event) {
+      throw new NotFoundError({ reason: `Event with eventId=${eventId} not found` });
+    }
+
+    const report = VerificationReport.forEntity('event', eventId);
+    const { idData, signature } = event.content;
+
+    const data = await this.getPlainData(event.content.data, idData.accessLevel, event.organizationId);
+    if (data) {
+      report.compare('dataHash', idData.dataHash, this.web3Service.calculateHash(data));
+      report.compare('eventId', eventId, this.web3Service.calculateHash({ idData, signature, data }));
+    } else {
+      report.skip('dataHash', `accessLevel.${idData.accessLevel}.required`);
+      report.skip('eventId', `accessLevel.${idData.accessLevel}.required`);
+    }
+
+    this.verifySignature(report, idData, signature);
+
+    await this.verifyBundleEntry(report, event.metadata && event.metadata.bundleId, 'eventId', eventId, event.content);
+
+    return report;
+  }
+
+  public async verifyAsset(assetId: string): Promise<VerificationReport> {
+    const asset = await this.assetService.getAsset(assetId);
+    if (!asset) {
+      throw new NotFoundError({ reason: `Asset with assetId=${assetId} not found` });
+    }
+
+    const report = VerificationReport.forEntity('asset', assetId);
+    const { idData, signature } = asset.content;
+
+    report.compare('assetId', assetId, this.web3Service.calculateHash({ idData, signature }));
+
+    this.verifySignature(report, idData, signature);
+
+    await this.verifyBundleEntry(report, asset.metadata && asset.metadata.bundleId, 'assetId', assetId, asset.content);
+
+    return report;
+  }
+
+  private verifySignature(report: VerificationReport, idData, signature: string) {
+    try {
+      this.web3Service.validateSignature2(idData.createdBy, signature, idData);
+      report.pass('signature');
+    } catch (error) {
+      report.fail('signature', (error.error && error.error.reason) || error.message);
+    }
+  }
+
+  private async verifyBundleEntry(report: VerificationReport, bundleId: string, idField: string, id: string, content) {
+    if (!bundleId) {
+      report.skip('bundle', 'Not bundled yet');
+      return;
+    }
+
+    let entry;
+    try {
+      entry = await this.bundleService.findBundleEntry(bundleId, idField, id);
+    } catch (error) {
+      report.fail('bundle', (error.error && error.error.reason) || error.message);
+      return;
+    }
+
+    if (!entry || !entry.content) {
+      report.fail('bundle', `Bundle ${bundleId} does not contain ${id}`);
+      return;
+    }
+
+    // private event data is stripped from bundles, so only the signed part is compared
+    report.compare(
+      'bundle',
+      this.web3Service.calculateHash({ idData: content.idData, signature: content.signature }),
+      this.web3Service.calculateHash({ idData: entry.content.idData, signature: entry.content.signature })
+    );
+  }
+
+  private async getPlainData(data: object[], accessLevel: number, organizationId: number): Promise<object[]> {
+    const canDecrypt = (this.user.organizationId === organizationId || this.user.isSuperAdmin) &&
+      this.user.accessLevel >= accessLevel;
+    const plainData = [];
+
+    for (const entry of data) {
+      if (entry['encrypted'] === undefined) {
+        plainData.push(entry);
+      } else if (canDecrypt) {
+        plainData.push(JSON.parse(await this.organizationService.decrypt(entry['encrypted'], organizationId)));
+      } else {
+        return undefined;
+      }
+    }
+
+    return plainData;
+  }
+}
@@ -53,6 +53,7 @@ export class Web3Service {
     const idData = {
       createdBy: this.addressFromSecret(secret),
       validUntil: timestamp || moment().add(5, 'days').unix(),
+      createdOn: moment().unix(),
     };
 
     return base64url(this.serializeForHashing({
@@ -65,6 +66,14 @@ export class Web3Service {
     return await this.web3.eth.getBalance(this.w3Account.address);
   }
 
+  public async getBlockNumber(): Promise<number> {
+    return await this.web3.eth.getBlockNumber();
+  }
+
+  public async getTransactionReceipt(transactionHash: string) {
+    return await this.web3.eth.getTransactionReceipt(transactionHash);
+  }
+
   public createKeyPair() {
     return this.web3.eth.accounts.create(this.web3.utils.randomHex(32));
   }
@@ -0,0 +1,54 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+export const anchoringStatuses = ['pending', 'confirmed', 'failed', 'reorged'];
+
+export interface IAnchoringReceipt {
+  status: boolean;
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface IAnchoringObservation {
+  status: string;
+  confirmations: number;
+  blockNumber?: number;
+  blockHash?: string;
+}
+
+// a transaction that left the block it was seen in, or the chain altogether, was reorganised away
+export const observeAnchoring = (
+  previous: IAnchoringObservation,
+  receipt: IAnchoringReceipt,
+  currentBlock: number,
+  requiredConfirmations: number
+): IAnchoringObservation => {
+  const wasMined = !!previous && previous.blockHash !== undefined;
+
+  if (!receipt) {
+    return { status: wasMined ? 'reorged' : 'pending', confirmations: 0 };
+  }
+
+  if (wasMined && previous.blockHash !== receipt.blockHash) {
+    return { status: 'reorged', confirmations: 0, blockNumber: receipt.blockNumber, blockHash: receipt.blockHash };
+  }
+
+  const confirmations = Math.max(currentBlock - receipt.blockNumber + 1, 0);
+  let status = confirmations >= requiredConfirmations ? 'confirmed' : 'pending';
+  if (!receipt.status) {
+    status = 'failed';
+  }
+
+  return { status, confirmations, blockNumber: receipt.blockNumber, blockHash: receipt.blockHash };
+};
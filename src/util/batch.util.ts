@@ -0,0 +1,59 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+export interface IBatchResult {
+  success: boolean;
+  reason?: string;
+}
+
+export const getErrorReason = (error): string => (error.error && error.error.reason) || error.message;
+
+// items failing validation never reach create, results are returned in the order of the items
+export const createBatch = async <T>(
+  items: T[],
+  idField: string,
+  validateItem: (item: T) => void,
+  createItems: (validItems: T[]) => Promise<IBatchResult[]>
+): Promise<IBatchResult[]> => {
+  const results: IBatchResult[] = [];
+  const validItems: T[] = [];
+
+  for (const item of items) {
+    try {
+      validateItem(item);
+
+      validItems.push(item);
+    } catch (error) {
+      results.push({ [idField]: item[idField], success: false, reason: getErrorReason(error) } as IBatchResult);
+    }
+  }
+
+  if (validItems.length > 0) {
+    results.push(...await createItems(validItems));
+  }
+
+  const order = {};
+  items.map((item, index) => {
+    if (order[item[idField]] === undefined) {
+      order[item[idField]] = index;
+    }
+  });
+
+  return results.sort((a, b) => order[a[idField]] - order[b[idField]]);
+};
+
+export const getBatchSummary = (results: IBatchResult[]) => ({
+  created: results.filter(result => result.success).length,
+  failed: results.filter(result => !result.success).length,
+});
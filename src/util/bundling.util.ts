@@ -0,0 +1,86 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+export interface IBundlingWindow {
+  from: string;
+  to: string;
+}
+
+export interface IBundlingState {
+  minEntries: number;
+  maxAge: number;
+  windows: IBundlingWindow[];
+  pendingEntries: number;
+  oldestPendingTimestamp?: number;
+  pushRequested: boolean;
+}
+
+const secondsPerDay = 24 * 60 * 60;
+
+// times of day are 'HH:MM' in UTC
+export const parseTimeOfDay = (text: string): number => {
+  const match = /^([01][0-9]|2[0-3]):([0-5][0-9])$/.exec(text || '');
+  return match ? (+match[1] * 60 + +match[2]) * 60 : undefined;
+};
+
+// a window whose end is before its start runs over midnight
+const isWithinWindow = (window: IBundlingWindow, second: number) => {
+  const from = parseTimeOfDay(window.from);
+  const to = parseTimeOfDay(window.to);
+  return from <= to ?
+    second >= from && second < to :
+    second >= from || second < to;
+};
+
+const secondOfDay = (timestamp: number) => ((timestamp % secondsPerDay) + secondsPerDay) % secondsPerDay;
+
+export const isWithinWindows = (windows: IBundlingWindow[], timestamp: number): boolean =>
+  windows.length === 0 || windows.some(window => isWithinWindow(window, secondOfDay(timestamp)));
+
+export const nextWindowStart = (windows: IBundlingWindow[], timestamp: number): number => {
+  if (isWithinWindows(windows, timestamp)) {
+    return timestamp;
+  }
+
+  const dayStart = timestamp - secondOfDay(timestamp);
+  return Math.min(...windows.map(window => {
+    const start = dayStart + parseTimeOfDay(window.from);
+    return start > timestamp ? start : start + secondsPerDay;
+  }));
+};
+
+// the time the worker is expected to bundle, or undefined when there is nothing to bundle
+export const nextBundleTime = (state: IBundlingState, now: number): { timestamp: number, reason: string } => {
+  let due: { timestamp: number, reason: string };
+
+  // a manual push is not held back by the windows
+  if (state.pushRequested) {
+    return { timestamp: now, reason: 'push' };
+  }
+
+  if (state.pendingEntries === 0 || state.oldestPendingTimestamp === undefined) {
+    return undefined;
+  }
+
+  if (state.pendingEntries >= state.minEntries) {
+    due = { timestamp: now, reason: 'size' };
+  } else {
+    due = { timestamp: Math.max(state.oldestPendingTimestamp + state.maxAge, now), reason: 'age' };
+  }
+
+  return {
+    timestamp: nextWindowStart(state.windows, due.timestamp),
+    reason: due.reason,
+  };
+};
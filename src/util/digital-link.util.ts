@@ -0,0 +1,108 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+import { ITypedIdentifier, normalizeIdentifier } from './identifier.util';
+
+export interface IDigitalLink {
+  primaryKey: string;
+  identifiers: ITypedIdentifier[];
+  attributes: object;
+}
+
+// identifier types the application identifiers are stored under, see Identifiers in the API docs
+const primaryKeys = {
+  '00': 'sscc',
+  '01': 'gtin',
+  '253': 'gdti',
+  '401': 'ginc',
+  '402': 'gsin',
+  '414': 'gln',
+  '417': 'gln',
+  '8003': 'grai',
+  '8004': 'giai',
+};
+
+const qualifiers = {
+  '10': 'lot',
+  '21': 'serial',
+  '22': 'cpv',
+  '235': 'tpx',
+  '254': 'glnx',
+};
+
+const shortNames = {
+  cpv: '22',
+  giai: '8004',
+  gln: '414',
+  grai: '8003',
+  gtin: '01',
+  lot: '10',
+  ser: '21',
+  sscc: '00',
+};
+
+const toApplicationIdentifier = (segment: string) => shortNames[segment] || segment;
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch (error) {
+    return undefined;
+  }
+};
+
+// paths may start with a resolver prefix, parsing starts at the first primary key
+export const parseDigitalLink = (path: string): IDigitalLink => {
+  const segments = `${path}`.split('/').filter(segment => segment.length > 0);
+
+  const start = segments.findIndex((segment, index) =>
+    !!primaryKeys[toApplicationIdentifier(segment)] && index + 1 < segments.length);
+  if (start < 0 || (segments.length - start) % 2 !== 0) {
+    return undefined;
+  }
+
+  const values = {};
+  for (let index = start; index < segments.length; index += 2) {
+    const ai = toApplicationIdentifier(segments[index]);
+    const value = decodeSegment(segments[index + 1]);
+    if ((index > start && !qualifiers[ai]) || !value) {
+      return undefined;
+    }
+    values[ai] = value;
+  }
+
+  const primaryKey = toApplicationIdentifier(segments[start]);
+  const type = primaryKeys[primaryKey];
+  const primaryValue = normalizeIdentifier(type, values[primaryKey]);
+  if (!primaryValue) {
+    return undefined;
+  }
+
+  const identifiers: ITypedIdentifier[] = [];
+  if (type === 'gtin' && values['21']) {
+    identifiers.push({ type, value: primaryValue, serial: values['21'] });
+  } else {
+    identifiers.push({ type, value: primaryValue });
+  }
+  if (values['10']) {
+    identifiers.push({ type: 'lot', value: values['10'] });
+  }
+
+  const attributes = {};
+  Object.keys(values)
+    .filter(ai => ai !== primaryKey)
+    .map(ai => attributes[qualifiers[ai]] = values[ai]);
+
+  return { primaryKey, identifiers, attributes };
+};
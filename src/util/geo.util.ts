@@ -0,0 +1,132 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+const earthRadiusMeters = 6378100;
+
+const isLongitude = value => typeof value === 'number' && value >= -180 && value <= 180;
+
+const isLatitude = value => typeof value === 'number' && value >= -90 && value <= 90;
+
+const isPosition = position =>
+  Array.isArray(position) && position.length >= 2 && isLongitude(position[0]) && isLatitude(position[1]);
+
+// numbers and numeric strings only, so empty or null fields do not end up at 0
+const toCoordinate = value => {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    return Number(value);
+  }
+  return NaN;
+};
+
+export const toGeoPoint = (longitude, latitude) => {
+  if (!isLongitude(longitude) || !isLatitude(latitude)) {
+    return undefined;
+  }
+  return { type: 'Point', coordinates: [longitude, latitude] };
+};
+
+const locationFromEntry = entry => {
+  if (!entry || typeof entry !== 'object') {
+    return undefined;
+  }
+
+  const geoJson = entry.geoJson;
+  if (geoJson && geoJson.type === 'Point' && isPosition(geoJson.coordinates)) {
+    return toGeoPoint(geoJson.coordinates[0], geoJson.coordinates[1]);
+  }
+  if (entry.latitude !== undefined && entry.longitude !== undefined) {
+    return toGeoPoint(toCoordinate(entry.longitude), toCoordinate(entry.latitude));
+  }
+  if (entry.lat !== undefined && entry.lng !== undefined) {
+    return toGeoPoint(toCoordinate(entry.lng), toCoordinate(entry.lat));
+  }
+  return undefined;
+};
+
+// ambrosus.event.location entries take precedence over other entries with coordinates
+export const extractGeoLocation = (data: object[]) => {
+  if (!Array.isArray(data)) {
+    return undefined;
+  }
+
+  const sorted = [
+    ...data.filter(entry => entry && entry['type'] === 'ambrosus.event.location'),
+    ...data.filter(entry => !entry || entry['type'] !== 'ambrosus.event.location'),
+  ];
+
+  for (const entry of sorted) {
+    const location = locationFromEntry(entry);
+    if (location) {
+      return location;
+    }
+  }
+  return undefined;
+};
+
+export const getGeoFilter = (operator: string, value) => {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  switch (operator) {
+    case 'near': {
+      const point = toGeoPoint(value.longitude, value.latitude);
+      if (!point) {
+        return undefined;
+      }
+      const near = { $geometry: point };
+      if (value.maxDistance !== undefined) {
+        near['$maxDistance'] = +value.maxDistance;
+      }
+      if (value.minDistance !== undefined) {
+        near['$minDistance'] = +value.minDistance;
+      }
+      return { $nearSphere: near };
+    }
+
+    case 'within-radius': {
+      if (!isLongitude(value.longitude) || !isLatitude(value.latitude) || !(value.radius > 0)) {
+        return undefined;
+      }
+      return {
+        $geoWithin: {
+          $centerSphere: [[value.longitude, value.latitude], value.radius / earthRadiusMeters],
+        },
+      };
+    }
+
+    case 'within-polygon': {
+      if (!Array.isArray(value) || value.length < 3 || !value.every(isPosition)) {
+        return undefined;
+      }
+      const ring = [...value];
+      const first = ring[0];
+      const last = ring[ring.length - 1];
+      if (first[0] !== last[0] || first[1] !== last[1]) {
+        ring.push(first);
+      }
+      return {
+        $geoWithin: {
+          $geometry: { type: 'Polygon', coordinates: [ring] },
+        },
+      };
+    }
+
+    default:
+      return undefined;
+  }
+};
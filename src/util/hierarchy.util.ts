@@ -0,0 +1,42 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+export interface IContainment {
+  type: string;
+  children?: string[];
+}
+
+const containmentTypes = ['ambrosus.event.aggregation', 'ambrosus.event.disaggregation'];
+
+const childrenFromEntry = entry => {
+  if (!Array.isArray(entry.children)) {
+    return undefined;
+  }
+  return Array.from(new Set(entry.children.filter(child => typeof child === 'string' && child.length > 0))) as string[];
+};
+
+// a disaggregation without children unpacks everything the container holds
+export const extractContainment = (data: object[]): IContainment[] => {
+  if (!Array.isArray(data)) {
+    return [];
+  }
+
+  return data
+    .filter(entry => entry && containmentTypes.indexOf(entry['type']) > -1)
+    .map(entry => ({ type: entry['type'], children: childrenFromEntry(entry) }))
+    .filter(containment => containment.type === 'ambrosus.event.disaggregation' ||
+      (containment.children && containment.children.length > 0));
+};
+
+export const isAggregation = (containment: IContainment) => containment.type === 'ambrosus.event.aggregation';
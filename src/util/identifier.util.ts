@@ -0,0 +1,111 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+export interface ITypedIdentifier {
+  type: string;
+  value: string;
+  serial?: string;
+}
+
+const uniqueTypes = ['sscc', 'epc'];
+
+// GS1 mod 10: weights 3 and 1 alternate from the rightmost digit before the check digit
+export const gs1CheckDigit = (digits: string): number => {
+  const sum = digits
+    .split('')
+    .reverse()
+    .reduce((total, digit, index) => total + (+digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+const isValidGs1Key = (value: string): boolean =>
+  gs1CheckDigit(value.slice(0, -1)) === +value.slice(-1);
+
+export const normalizeIdentifier = (type: string, value): string => {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const text = `${value}`.trim();
+
+  switch (type) {
+    case 'gtin': {
+      if (!/^(\d{8}|\d{12,14})$/.test(text) || !isValidGs1Key(text)) {
+        return undefined;
+      }
+      return `00000000000000${text}`.slice(-14);
+    }
+    case 'sscc': {
+      if (!/^\d{18}$/.test(text) || !isValidGs1Key(text)) {
+        return undefined;
+      }
+      return text;
+    }
+    case 'epc': {
+      const match = /^urn:epc:id:([a-z0-9-]+):(.+)$/i.exec(text);
+      if (!match) {
+        return undefined;
+      }
+      return `urn:epc:id:${match[1].toLowerCase()}:${match[2]}`;
+    }
+    default:
+      return text.length > 0 ? text : undefined;
+  }
+};
+
+export const normalizeIdentifierType = (type: string): string => `${type}`.trim().toLowerCase();
+
+export const isUniqueIdentifier = (identifier: ITypedIdentifier): boolean =>
+  uniqueTypes.indexOf(identifier.type) > -1 || (identifier.type === 'gtin' && !!identifier.serial);
+
+const toValues = values => (Array.isArray(values) ? values : [values])
+  .filter(value => typeof value === 'string' || typeof value === 'number');
+
+// a serial is combined with every gtin of the same entry, invalid values are returned with value undefined
+export const extractTypedIdentifiers = (data: object[]): ITypedIdentifier[] => {
+  if (!Array.isArray(data)) {
+    return [];
+  }
+
+  const identifiers: ITypedIdentifier[] = [];
+  data
+    .filter(entry => entry && entry['type'] === 'ambrosus.asset.identifiers' && entry['identifiers'])
+    .map(entry => {
+      const entryIdentifiers = {};
+      Object.keys(entry['identifiers']).map(key => {
+        const type = normalizeIdentifierType(key);
+        entryIdentifiers[type] = (entryIdentifiers[type] || []).concat(toValues(entry['identifiers'][key]));
+      });
+
+      const serials = (entryIdentifiers['serial'] || []).map(serial => `${serial}`.trim()).filter(serial => serial.length > 0);
+
+      Object.keys(entryIdentifiers)
+        .filter(type => type !== 'serial')
+        .map(type => {
+          entryIdentifiers[type].map(value => {
+            const normalized = normalizeIdentifier(type, value);
+            if (type === 'gtin' && serials.length > 0) {
+              serials.map(serial => identifiers.push({ type, serial, value: normalized }));
+            } else {
+              identifiers.push({ type, value: normalized });
+            }
+          });
+        });
+
+      if (serials.length > 0 && !entryIdentifiers['gtin']) {
+        serials.map(serial => identifiers.push({ type: 'serial', value: serial }));
+      }
+    });
+
+  return identifiers;
+};
@@ -17,6 +17,18 @@ export * from './mongo.util';
 export * from './request.util';
 export * from './crypto.util';
 export * from './email.util';
+export * from './geo.util';
+export * from './search.util';
+export * from './csv.util';
+export * from './hierarchy.util';
+export * from './identifier.util';
+export * from './digital-link.util';
+export * from './projection.util';
+export * from './merkle.util';
+export * from './bundling.util';
+export * from './anchoring.util';
+export * from './ip.util';
+export * from './batch.util';
 
 export const matchHexOfLength = (text, length) =>
   new RegExp(`^0x[a-f0-9]{${length}}$`, 'gi').test(text);
@@ -0,0 +1,68 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+const ipv4Pattern = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+// express reports IPv4 clients of a dual-stack socket as ::ffff:a.b.c.d
+export const normalizeIp = (ip: string): string => {
+  if (!ip) {
+    return ip;
+  }
+  const address = ip.trim().toLowerCase();
+  return address.startsWith('::ffff:') && ipv4Pattern.test(address.substr(7)) ? address.substr(7) : address;
+};
+
+const ipv4ToNumber = (ip: string): number => {
+  const match = ipv4Pattern.exec(ip);
+  if (!match) {
+    return undefined;
+  }
+  const octets = match.slice(1).map(octet => Number.parseInt(octet, 10));
+  if (octets.some(octet => octet > 255)) {
+    return undefined;
+  }
+  return octets.reduce((value, octet) => value * 256 + octet, 0);
+};
+
+export const isValidIpRule = (rule: string): boolean => {
+  const [address, bits] = rule.split('/');
+  if (bits === undefined) {
+    return ipv4ToNumber(address) !== undefined || (/^[0-9a-f:.]+$/i.test(address) && address.indexOf(':') > -1);
+  }
+  return ipv4ToNumber(address) !== undefined && /^\d{1,2}$/.test(bits) && Number.parseInt(bits, 10) <= 32;
+};
+
+// rules are single addresses or IPv4 CIDR ranges; an empty list allows everyone
+export const isIpAllowed = (rules: string[], ip: string): boolean => {
+  if (!rules || rules.length === 0) {
+    return true;
+  }
+  const address = normalizeIp(ip);
+  if (!address) {
+    return false;
+  }
+  return rules.some(rule => {
+    const [ruleAddress, bits] = rule.split('/');
+    if (bits === undefined) {
+      return normalizeIp(ruleAddress) === address;
+    }
+    const value = ipv4ToNumber(address);
+    const range = ipv4ToNumber(ruleAddress);
+    if (value === undefined || range === undefined) {
+      return false;
+    }
+    const size = Math.pow(2, 32 - Number.parseInt(bits, 10));
+    return Math.floor(value / size) === Math.floor(range / size);
+  });
+};
@@ -0,0 +1,76 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+// tslint:disable-next-line:no-var-requires
+const web3 = require('web3');
+
+export interface IMerkleProofStep {
+  position: string;
+  hash: string;
+}
+
+const strip = (hash: string) => hash.toLowerCase().replace(/^0x/, '');
+
+// leaves and inner nodes are hashed with different prefixes, so an inner node can never pass for a leaf
+export const merkleLeaf = (entryId: string): string =>
+  web3.utils.keccak256(`0x00${strip(entryId)}`);
+
+const merkleNode = (left: string, right: string): string =>
+  web3.utils.keccak256(`0x01${strip(left)}${strip(right)}`);
+
+// an odd node at the end of a level is carried up unchanged
+const nextLevel = (level: string[]): string[] => {
+  const next = [];
+  for (let index = 0; index < level.length; index += 2) {
+    next.push(index + 1 < level.length ? merkleNode(level[index], level[index + 1]) : level[index]);
+  }
+  return next;
+};
+
+export const merkleRoot = (leaves: string[]): string => {
+  if (leaves.length === 0) {
+    return undefined;
+  }
+
+  let level = leaves;
+  while (level.length > 1) {
+    level = nextLevel(level);
+  }
+  return level[0];
+};
+
+export const merkleProof = (leaves: string[], leafIndex: number): IMerkleProofStep[] => {
+  const path: IMerkleProofStep[] = [];
+
+  let level = leaves;
+  let index = leafIndex;
+  while (level.length > 1) {
+    const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+    if (siblingIndex < level.length) {
+      path.push({
+        position: siblingIndex < index ? 'left' : 'right',
+        hash: level[siblingIndex],
+      });
+    }
+    level = nextLevel(level);
+    index = Math.floor(index / 2);
+  }
+  return path;
+};
+
+export const merkleRootFromProof = (entryId: string, path: IMerkleProofStep[]): string =>
+  path.reduce(
+    (hash, step) => step.position === 'left' ? merkleNode(step.hash, hash) : merkleNode(hash, step.hash),
+    merkleLeaf(entryId)
+  );
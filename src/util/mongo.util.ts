@@ -13,6 +13,9 @@
  */
 
 import * as _ from 'lodash';
+import { getGeoFilter } from './geo.util';
+
+const geoOperators = ['near', 'within-polygon', 'within-radius'];
 
 export const matchMongoOperator = operator => {
   if (operator === 'equal') {
@@ -55,6 +58,14 @@ export const matchMongoOperator = operator => {
     return '$regex';
   }
 
+  if (operator === 'near') {
+    return '$nearSphere';
+  }
+
+  if (operator === 'within-polygon' || operator === 'within-radius') {
+    return '$geoWithin';
+  }
+
   return undefined;
 };
 
@@ -71,6 +82,8 @@ export const validateOperators = q => {
       const op = filter.operator;
       if (!matchMongoOperator(op)) {
         errors.push(`Invalid query operator: ${op}`);
+      } else if (geoOperators.indexOf(op) > -1 && !getGeoFilter(op, filter.value)) {
+        errors.push(`Invalid value for query operator: ${op}`);
       }
     }
   });
@@ -97,6 +110,8 @@ export const getMongoFilter = q => {
         const opB = matchMongoOperator(Object.keys(val)[1]);
         result[field][opA] = val[Object.keys(val)[0]];
         result[field][opB] = val[Object.keys(val)[1]];
+      } else if (geoOperators.indexOf(op) > -1) {
+        Object.assign(result[field], getGeoFilter(op, val));
       } else if (op === 'startsWith') {
         result[field][matchMongoOperator(op)] = `(?i)^${val}`;
       } else if (op === 'contains') {
@@ -109,3 +124,10 @@ export const getMongoFilter = q => {
     {}
   );
 };
+
+export const addMongoFilter = (query: object, filter: object) => {
+  const conflicts = Object.keys(filter).filter(key => query && query[key] !== undefined);
+
+  // keeping the filter at the top level where possible leaves geo operators usable
+  return conflicts.length > 0 ? { $and: [query, filter] } : { ...query, ...filter };
+};
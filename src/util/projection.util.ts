@@ -0,0 +1,106 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+export const projectionModes = ['merge', 'append', 'ignore'];
+
+// containment is kept as links by the hierarchy, not as properties of the container
+const builtInModes = {
+  'ambrosus.event.aggregation': 'ignore',
+  'ambrosus.event.disaggregation': 'ignore',
+};
+
+const maximumAppendedEntries = 100;
+
+export interface IProjectedState {
+  properties: object;
+  timestamps: object;
+  location?: object;
+  lastEventId?: string;
+  lastEventTimestamp?: number;
+  eventCount: number;
+}
+
+interface ITypedEntry {
+  type: string;
+  [key: string]: any;
+}
+
+const isTypedEntry = (entry): entry is ITypedEntry => !!entry && typeof entry['type'] === 'string';
+
+export interface IProjectedEvent {
+  eventId: string;
+  timestamp: number;
+  data: object[];
+  geoLocation?: object;
+}
+
+export const getProjectionMode = (modes: object, type: string): string =>
+  modes[type] || builtInModes[type] || 'merge';
+
+// fields merge last-write-wins by event timestamp, so events can be applied in any order
+export const projectEvent = (state: IProjectedState, event: IProjectedEvent, modes: object): IProjectedState => {
+  const properties = { ...state.properties };
+  const timestamps = { ...state.timestamps };
+
+  (Array.isArray(event.data) ? event.data : [])
+    .filter(isTypedEntry)
+    .map(entry => {
+      const { type, ...fields } = entry;
+
+      switch (getProjectionMode(modes, type)) {
+        case 'merge': {
+          const merged = { ...properties[type] };
+          const mergedTimestamps = { ...timestamps[type] };
+          Object.keys(fields).map(field => {
+            if (mergedTimestamps[field] === undefined || mergedTimestamps[field] <= event.timestamp) {
+              merged[field] = fields[field];
+              mergedTimestamps[field] = event.timestamp;
+            }
+          });
+          properties[type] = merged;
+          timestamps[type] = mergedTimestamps;
+          break;
+        }
+        case 'append': {
+          const entries = (Array.isArray(properties[type]) ? properties[type] : [])
+            .filter(appended => appended.eventId !== event.eventId)
+            .concat({ eventId: event.eventId, timestamp: event.timestamp, data: fields })
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .slice(0, maximumAppendedEntries);
+          properties[type] = entries;
+          timestamps[type] = entries[0].timestamp;
+          break;
+        }
+        default:
+          break;
+      }
+    });
+
+  const isLatest = state.lastEventTimestamp === undefined || state.lastEventTimestamp <= event.timestamp;
+
+  const projected: IProjectedState = {
+    properties,
+    timestamps,
+    location: state.location,
+    lastEventId: isLatest ? event.eventId : state.lastEventId,
+    lastEventTimestamp: isLatest ? event.timestamp : state.lastEventTimestamp,
+    eventCount: state.eventCount + 1,
+  };
+
+  if (event.geoLocation && (!state.location || state.location['timestamp'] <= event.timestamp)) {
+    projected.location = { ...event.geoLocation, timestamp: event.timestamp };
+  }
+
+  return projected;
+};
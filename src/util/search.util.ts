@@ -0,0 +1,49 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+export const getSearchTerms = (text: string): string[] => {
+  if (!text) {
+    return [];
+  }
+  return text
+    .split(/\s+/)
+    .filter(word => word.length && word[0] !== '-')
+    .map(word => word.replace(/[^\w]/g, '').toLowerCase())
+    .filter(word => word.length);
+};
+
+export const getFieldValues = (doc, path: string): any[] => {
+  let values = [doc];
+  for (const key of path.split('.')) {
+    values = values
+      .map(value => (value !== null && typeof value === 'object') ? value[key] : undefined)
+      .reduce((result, value) => result.concat(Array.isArray(value) ? value : [value]), [])
+      .filter(value => value !== undefined && value !== null);
+  }
+  return values;
+};
+
+export const getMatchedFields = (doc, fields: string[], text: string): string[] => {
+  const terms = getSearchTerms(text);
+
+  return fields.filter(field =>
+    getFieldValues(doc, field)
+      .filter(value => typeof value === 'string')
+      .some(value => value
+        .toLowerCase()
+        .split(/[^\w]+/)
+        .some(token => terms.indexOf(token) > -1)
+      )
+  );
+};
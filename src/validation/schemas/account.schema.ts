@@ -114,5 +114,50 @@ export const accountSchema = {
 
         },
         "additionalProperties": false
+    },
+    serviceAccountCreate: {
+        "$async": true,
+        "title": "Service account create",
+        "type": "object",
+        "properties": {
+            "label": {
+                "type": "string",
+                "minLength": 2,
+                "maxLength": 100
+            },
+            "permissions": {
+                "type": "array",
+                "uniqueItems": true,
+                "minItems": 1,
+                "items": {
+                    "type": "string",
+                    "enum": [Permission.create_asset, Permission.create_event]
+                }
+            },
+            "accessLevel": {
+                "type": "integer",
+                "minimum": 0,
+                "maximum": 1000
+            },
+            "allowedIps": {
+                "type": "array",
+                "uniqueItems": true,
+                "maxItems": 50,
+                "items": {
+                    "type": "string",
+                    "maxLength": 45
+                }
+            },
+            "expiresOn": {
+                "type": "integer",
+                "minimum": 0
+            }
+        },
+        "additionalProperties": false,
+        "required": [
+            "label",
+            "permissions",
+            "expiresOn"
+        ]
     }
 }
@@ -30,5 +30,117 @@ export const assetSchema = {
         "required": [
             "content"
         ]
+    },
+    assetCreateBatch: {
+        "$async": true,
+        "title": "Asset create batch",
+        "type": "object",
+        "properties": {
+            "assets": {
+                "type": "array",
+                "minItems": 1,
+                "maxItems": 500,
+                "items": {
+                    "type": "object",
+                    "properties": {
+                        "assetId": {
+                            "type": "string"
+                        },
+                        "content": {
+                            "type": "object"
+                        }
+                    },
+                    "additionalProperties": false,
+                    "required": [
+                        "assetId",
+                        "content"
+                    ]
+                }
+            }
+        },
+        "additionalProperties": false,
+        "required": [
+            "assets"
+        ]
+    },
+    assetHierarchy: {
+        "$async": true,
+        "title": "Asset hierarchy",
+        "type": "object",
+        "properties": {
+            "at": {
+                "type": "integer",
+                "minimum": 0
+            },
+            "depth": {
+                "type": "integer",
+                "minimum": 1,
+                "maximum": 10
+            }
+        },
+        "additionalProperties": false
+    },
+    assetLookup: {
+        "$async": true,
+        "title": "Asset lookup",
+        "type": "object",
+        "properties": {
+            "type": {
+                "type": "string",
+                "minLength": 1
+            },
+            "value": {
+                "type": ["string", "number"]
+            },
+            "serial": {
+                "type": ["string", "number"]
+            },
+            "organizationId": {
+                "type": "integer"
+            },
+            "limit": {
+                "type": "integer",
+                "minimum": 1
+            },
+            "next": {
+                "type": "string"
+            },
+            "previous": {
+                "type": "string"
+            }
+        },
+        "additionalProperties": false,
+        "required": [
+            "type",
+            "value"
+        ]
+    },
+    assetShare: {
+        "$async": true,
+        "title": "Asset share",
+        "type": "object",
+        "properties": {
+            "organizationId": {
+                "type": "integer"
+            }
+        },
+        "additionalProperties": false,
+        "required": [
+            "organizationId"
+        ]
+    },
+    assetVisibility: {
+        "$async": true,
+        "title": "Asset visibility",
+        "type": "object",
+        "properties": {
+            "public": {
+                "type": "boolean"
+            }
+        },
+        "additionalProperties": false,
+        "required": [
+            "public"
+        ]
     }
 }
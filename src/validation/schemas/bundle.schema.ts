@@ -0,0 +1,147 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+/* tslint:disable */
+export const bundleSchema = {
+    bundleList: {
+        "$async": true,
+        "title": "Bundle list",
+        "type": "object",
+        "properties": {
+            "status": {
+                "type": "string",
+                "enum": ["pending", "confirmed", "failed", "reorged"]
+            },
+            "query": {
+                "type": "string"
+            },
+            "search": {
+                "type": "string"
+            },
+            "limit": {
+                "type": "integer",
+                "minimum": 1
+            },
+            "next": {
+                "type": "string"
+            },
+            "previous": {
+                "type": "string"
+            }
+        },
+        "additionalProperties": false
+    },
+    bundleContents: {
+        "$async": true,
+        "title": "Bundle contents",
+        "type": "object",
+        "properties": {
+            "query": {
+                "type": "string"
+            },
+            "limit": {
+                "type": "integer",
+                "minimum": 1
+            },
+            "next": {
+                "type": "string"
+            },
+            "previous": {
+                "type": "string"
+            }
+        },
+        "additionalProperties": false
+    },
+    bundleEntries: {
+        "$async": true,
+        "title": "Bundle entries",
+        "type": "object",
+        "properties": {
+            "offset": {
+                "type": "integer",
+                "minimum": 0
+            },
+            "limit": {
+                "type": "integer",
+                "minimum": 1,
+                "maximum": 500
+            }
+        },
+        "additionalProperties": false
+    },
+    bundlingPolicyUpdate: {
+        "$async": true,
+        "title": "Bundling policy update",
+        "type": "object",
+        "properties": {
+            "minEntries": {
+                "type": "integer",
+                "minimum": 1
+            },
+            "maxEntries": {
+                "type": "integer",
+                "minimum": 1,
+                "maximum": 65536
+            },
+            "maxAge": {
+                "type": "integer",
+                "minimum": 60
+            },
+            "windows": {
+                "type": "array",
+                "maxItems": 24,
+                "items": {
+                    "type": "object",
+                    "properties": {
+                        "from": {
+                            "type": "string",
+                            "pattern": "^([01][0-9]|2[0-3]):[0-5][0-9]$"
+                        },
+                        "to": {
+                            "type": "string",
+                            "pattern": "^([01][0-9]|2[0-3]):[0-5][0-9]$"
+                        }
+                    },
+                    "additionalProperties": false,
+                    "required": [
+                        "from",
+                        "to"
+                    ]
+                }
+            },
+            "organizationPriorities": {
+                "type": "array",
+                "items": {
+                    "type": "object",
+                    "properties": {
+                        "organizationId": {
+                            "type": "integer"
+                        },
+                        "priority": {
+                            "type": "integer",
+                            "minimum": -100,
+                            "maximum": 100
+                        }
+                    },
+                    "additionalProperties": false,
+                    "required": [
+                        "organizationId",
+                        "priority"
+                    ]
+                }
+            }
+        },
+        "additionalProperties": false
+    },
+};
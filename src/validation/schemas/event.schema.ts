@@ -30,5 +30,175 @@ export const eventSchema = {
         "required": [
             "content"
         ]
+    },
+    eventCreateBatch: {
+        "$async": true,
+        "title": "Event create batch",
+        "type": "object",
+        "properties": {
+            "events": {
+                "type": "array",
+                "minItems": 1,
+                "maxItems": 500,
+                "items": {
+                    "type": "object",
+                    "properties": {
+                        "eventId": {
+                            "type": "string"
+                        },
+                        "content": {
+                            "type": "object"
+                        }
+                    },
+                    "additionalProperties": false,
+                    "required": [
+                        "eventId",
+                        "content"
+                    ]
+                }
+            }
+        },
+        "additionalProperties": false,
+        "required": [
+            "events"
+        ]
+    },
+    dataTypeSchemaCreate: {
+        "$async": true,
+        "title": "Data type schema create",
+        "type": "object",
+        "properties": {
+            "type": {
+                "type": "string",
+                "minLength": 1,
+                "maxLength": 255
+            },
+            "description": {
+                "type": "string",
+                "maxLength": 1024
+            },
+            "schema": {
+                "type": "object"
+            },
+            "projection": {
+                "type": "string",
+                "enum": ["merge", "append", "ignore"]
+            }
+        },
+        "additionalProperties": false,
+        "required": [
+            "type",
+            "schema"
+        ]
+    },
+    eventVisibility: {
+        "$async": true,
+        "title": "Event visibility",
+        "type": "object",
+        "properties": {
+            "public": {
+                "type": "boolean"
+            }
+        },
+        "additionalProperties": false,
+        "required": [
+            "public"
+        ]
+    },
+    eventLatestType: {
+        "$async": true,
+        "title": "Latest events of type",
+        "type": "object",
+        "properties": {
+            "assets": {
+                "type": "array",
+                "minItems": 1,
+                "items": {
+                    "type": "string"
+                }
+            },
+            "type": {
+                "oneOf": [
+                    {
+                        "type": "string"
+                    },
+                    {
+                        "type": "array",
+                        "minItems": 1,
+                        "items": {
+                            "type": "string"
+                        }
+                    }
+                ]
+            },
+            "limit": {
+                "type": "integer",
+                "minimum": 1
+            },
+            "next": {
+                "type": "string"
+            },
+            "previous": {
+                "type": "string"
+            }
+        },
+        "additionalProperties": false,
+        "required": [
+            "assets",
+            "type"
+        ]
+    },
+    eventLatestTypeLegacy: {
+        "$async": true,
+        "title": "Latest events of type (legacy)",
+        "type": "object",
+        "properties": {
+            "assets": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                }
+            },
+            "type": {
+                "oneOf": [
+                    {
+                        "type": "string"
+                    },
+                    {
+                        "type": "array",
+                        "minItems": 1,
+                        "items": {
+                            "type": "string"
+                        }
+                    }
+                ]
+            }
+        },
+        "required": [
+            "assets",
+            "type"
+        ]
+    },
+    dataTypeSchemaUpdate: {
+        "$async": true,
+        "title": "Data type schema update",
+        "type": "object",
+        "properties": {
+            "type": {
+                "type": "string"
+            },
+            "description": {
+                "type": "string",
+                "maxLength": 1024
+            },
+            "schema": {
+                "type": "object"
+            },
+            "projection": {
+                "type": "string",
+                "enum": ["merge", "append", "ignore"]
+            }
+        },
+        "additionalProperties": false
     }
 }
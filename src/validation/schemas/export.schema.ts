@@ -0,0 +1,93 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+/* tslint:disable */
+const exportColumns = {
+    "type": "array",
+    "minItems": 1,
+    "items": {
+        "type": "object",
+        "properties": {
+            "name": {
+                "type": "string"
+            },
+            "path": {
+                "type": "string"
+            },
+            "type": {
+                "type": "string"
+            },
+            "field": {
+                "type": "string"
+            }
+        },
+        "additionalProperties": false,
+        "required": [
+            "name"
+        ],
+        "oneOf": [
+            { "required": ["path"] },
+            { "required": ["type"] }
+        ]
+    }
+};
+
+export const exportSchema = {
+    eventExport: {
+        "$async": true,
+        "title": "Event export",
+        "type": "object",
+        "properties": {
+            "query": {
+                "type": "array",
+                "uniqueItems": true,
+                "items": {
+                    "type": "object"
+                }
+            },
+            "assets": {
+                "type": "array",
+                "items": {
+                    "type": "string"
+                }
+            },
+            "format": {
+                "type": "string",
+                "enum": ["ndjson", "csv"]
+            },
+            "columns": exportColumns
+        },
+        "additionalProperties": false
+    },
+    assetExport: {
+        "$async": true,
+        "title": "Asset export",
+        "type": "object",
+        "properties": {
+            "query": {
+                "type": "array",
+                "uniqueItems": true,
+                "items": {
+                    "type": "object"
+                }
+            },
+            "format": {
+                "type": "string",
+                "enum": ["ndjson", "csv"]
+            },
+            "columns": exportColumns
+        },
+        "additionalProperties": false
+    }
+}
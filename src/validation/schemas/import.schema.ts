@@ -0,0 +1,156 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+/* tslint:disable */
+const importColumns = {
+    "type": "array",
+    "minItems": 1,
+    "items": {
+        "type": "object",
+        "properties": {
+            "column": {
+                "type": "string",
+                "minLength": 1
+            },
+            "field": {
+                "type": "string",
+                "minLength": 1
+            },
+            "type": {
+                "type": "string",
+                "enum": ["string", "number", "boolean"]
+            }
+        },
+        "additionalProperties": false,
+        "required": [
+            "column",
+            "field"
+        ]
+    }
+};
+
+export const importSchema = {
+    templateCreate: {
+        "$async": true,
+        "title": "Import template create",
+        "type": "object",
+        "properties": {
+            "name": {
+                "type": "string",
+                "pattern": "^[A-Za-z0-9._-]+$"
+            },
+            "description": {
+                "type": "string"
+            },
+            "eventType": {
+                "type": "string",
+                "minLength": 1
+            },
+            "assetIdColumn": {
+                "type": "string",
+                "minLength": 1
+            },
+            "timestampColumn": {
+                "type": "string",
+                "minLength": 1
+            },
+            "accessLevel": {
+                "type": "integer",
+                "minimum": 0
+            },
+            "columns": importColumns
+        },
+        "additionalProperties": false,
+        "required": [
+            "name",
+            "eventType",
+            "assetIdColumn",
+            "columns"
+        ]
+    },
+    templateUpdate: {
+        "$async": true,
+        "title": "Import template update",
+        "type": "object",
+        "properties": {
+            "description": {
+                "type": "string"
+            },
+            "eventType": {
+                "type": "string",
+                "minLength": 1
+            },
+            "assetIdColumn": {
+                "type": "string",
+                "minLength": 1
+            },
+            "timestampColumn": {
+                "type": "string",
+                "minLength": 1
+            },
+            "accessLevel": {
+                "type": "integer",
+                "minimum": 0
+            },
+            "columns": importColumns
+        },
+        "additionalProperties": false
+    },
+    batchPrepare: {
+        "$async": true,
+        "title": "Import batch prepare",
+        "type": "object",
+        "properties": {
+            "csv": {
+                "type": "string",
+                "minLength": 1
+            }
+        },
+        "additionalProperties": false,
+        "required": [
+            "csv"
+        ]
+    },
+    batchSubmit: {
+        "$async": true,
+        "title": "Import batch submit",
+        "type": "object",
+        "properties": {
+            "signatures": {
+                "type": "array",
+                "minItems": 1,
+                "items": {
+                    "type": "object",
+                    "properties": {
+                        "row": {
+                            "type": "integer"
+                        },
+                        "signature": {
+                            "type": "string"
+                        }
+                    },
+                    "additionalProperties": false,
+                    "required": [
+                        "row",
+                        "signature"
+                    ]
+                }
+            }
+        },
+        "additionalProperties": false,
+        "required": [
+            "signatures"
+        ]
+    }
+}
@@ -18,3 +18,9 @@ export * from './asset.schema';
 export * from './event.schema';
 export * from './util.schema';
 export * from './organization.schema';
+export * from './search.schema';
+export * from './export.schema';
+export * from './import.schema';
+export * from './transfer.schema';
+export * from './bundle.schema';
+export * from './proof.schema';
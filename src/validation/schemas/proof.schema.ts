@@ -0,0 +1,73 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+/* tslint:disable */
+export const proofSchema = {
+    proofVerify: {
+        "$async": true,
+        "title": "Bundle proof verify",
+        "type": "object",
+        "properties": {
+            "bundleId": {
+                "type": "string"
+            },
+            "entryType": {
+                "type": "string",
+                "enum": ["asset", "event"]
+            },
+            "entryId": {
+                "type": "string"
+            },
+            "leaf": {
+                "type": "string"
+            },
+            "path": {
+                "type": "array",
+                "maxItems": 64,
+                "items": {
+                    "type": "object",
+                    "properties": {
+                        "position": {
+                            "type": "string",
+                            "enum": ["left", "right"]
+                        },
+                        "hash": {
+                            "type": "string"
+                        }
+                    },
+                    "additionalProperties": false,
+                    "required": [
+                        "position",
+                        "hash"
+                    ]
+                }
+            },
+            "root": {
+                "type": "string"
+            },
+            "bundleTransactionHash": {
+                "type": ["string", "null"]
+            },
+            "proofBlock": {
+                "type": ["integer", "null"]
+            }
+        },
+        "additionalProperties": false,
+        "required": [
+            "entryId",
+            "path",
+            "root"
+        ]
+    },
+};
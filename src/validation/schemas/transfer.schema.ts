@@ -0,0 +1,104 @@
+/*
+ * Copyright: Ambrosus Inc.
+ * Email: tech@ambrosus.io
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of this software and associated documentation files
+ * (the "Software"), to deal in the Software without restriction, including without limitation the rights to use, copy, modify, merge, publish,
+ * distribute, sublicense, and/or sell copies of the Software, and to permit persons to whom the Software is furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+ * IN NO EVENT SHALL THE AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ */
+
+/* tslint:disable */
+export const transferSchema = {
+    transferOffer: {
+        "$async": true,
+        "title": "Asset transfer offer",
+        "type": "object",
+        "properties": {
+            "content": {
+                "type": "object",
+                "properties": {
+                    "idData": {
+                        "type": "object",
+                        "properties": {
+                            "assets": {
+                                "type": "array",
+                                "minItems": 1,
+                                "maxItems": 500,
+                                "items": {
+                                    "type": "string"
+                                }
+                            },
+                            "toOrganizationId": {
+                                "type": "integer"
+                            },
+                            "createdBy": {
+                                "type": "string",
+                                "isAddress": ''
+                            },
+                            "timestamp": {
+                                "type": "integer"
+                            },
+                            "validUntil": {
+                                "type": "integer"
+                            }
+                        },
+                        "additionalProperties": false,
+                        "required": [
+                            "assets",
+                            "toOrganizationId",
+                            "createdBy",
+                            "timestamp",
+                            "validUntil"
+                        ]
+                    },
+                    "signature": {
+                        "type": "string"
+                    }
+                },
+                "additionalProperties": false,
+                "required": [
+                    "idData",
+                    "signature"
+                ]
+            }
+        },
+        "additionalProperties": false,
+        "required": [
+            "content"
+        ]
+    },
+    transferList: {
+        "$async": true,
+        "title": "Asset transfer list",
+        "type": "object",
+        "properties": {
+            "status": {
+                "type": "string",
+                "enum": ["pending", "accepting", "accepted", "rejected", "cancelled", "expired"]
+            },
+            "direction": {
+                "type": "string",
+                "enum": ["incoming", "outgoing"]
+            },
+            "assetId": {
+                "type": "string"
+            },
+            "limit": {
+                "type": "integer",
+                "minimum": 1
+            },
+            "next": {
+                "type": "string"
+            },
+            "previous": {
+                "type": "string"
+            }
+        },
+        "additionalProperties": false
+    }
+}
@@ -0,0 +1,100 @@
+/* tslint:disable */
+import * as chai from 'chai';
+import { Readable, Writable } from 'stream';
+
+const { expect } = chai;
+
+import 'reflect-metadata';
+import { BundleController } from '../../src/controller/bundle.controller';
+import { logger } from '../fixtures';
+
+
+const makeResponse = () => {
+    const res: any = new Writable({
+        write(chunk, encoding, callback) {
+            res.body += chunk;
+            callback();
+        },
+        final(callback) {
+            res.finished = true;
+            callback();
+        },
+    });
+    res.body = '';
+    res.finished = false;
+    res.writeHead = (status, headers) => {
+        res.status = status;
+        res.headers = headers;
+    };
+    return res;
+};
+
+const makeRequest = (ranges): any => ({ range: () => ranges });
+
+describe('(Controller) Bundle download', () => {
+    const content = '{"bundleId":"0x01","content":{"entries":[]}}';
+    let stream: any;
+
+    const makeController = (chunks: string[]) => new BundleController({
+        getBundleFile: async () => ({ length: content.length }),
+        getBundleStream: async (bundleId, range) => {
+            const data = range ? [content.slice(range.start, range.end + 1), null] : chunks;
+            stream = new Readable({
+                read() {
+                    if (data.length) {
+                        this.push(data.shift());
+                    }
+                },
+            });
+            stream.abort = () => {
+                stream.aborted = true;
+                stream.destroy();
+            };
+            return stream;
+        },
+    } as any, logger);
+
+    it('should send the whole bundle', async () => {
+        const res = makeResponse();
+
+        await makeController([content, null]).getBundle(makeRequest(-2), res, '0x01');
+
+        expect(res.status).to.equal(200);
+        expect(res.headers['Content-Length']).to.equal(content.length);
+        expect(res.body).to.equal(content);
+    });
+
+    it('should send a single byte range', async () => {
+        const res = makeResponse();
+        const ranges: any = [{ start: 0, end: 11 }];
+        ranges.type = 'bytes';
+
+        await makeController([]).getBundle(makeRequest(ranges), res, '0x01');
+
+        expect(res.status).to.equal(206);
+        expect(res.headers['Content-Range']).to.equal(`bytes 0-11/${content.length}`);
+        expect(res.headers['Content-Length']).to.equal(12);
+    });
+
+    it('should refuse an unsatisfiable range', async () => {
+        const res = makeResponse();
+        res.end = () => res.finished = true;
+
+        await makeController([]).getBundle(makeRequest(-1), res, '0x01');
+
+        expect(res.status).to.equal(416);
+        expect(res.headers['Content-Range']).to.equal(`bytes */${content.length}`);
+    });
+
+    it('should abort the bundle stream when the client disconnects', async () => {
+        const res = makeResponse();
+        const download = makeController([content.slice(0, 10)]).getBundle(makeRequest(-2), res, '0x01');
+
+        await new Promise(resolve => setTimeout(resolve, 10));
+        res.emit('close');
+        await download;
+
+        expect(stream.aborted).to.be.true;
+        expect(res.finished).to.be.false;
+    });
+});
@@ -0,0 +1,132 @@
+/* tslint:disable */
+import * as chai from 'chai';
+
+const { expect } = chai;
+
+import 'reflect-metadata';
+import { Bundle2Controller } from '../../src/controller/bundle2.controller';
+import { APIResponse } from '../../src/model';
+import { AssetService } from '../../src/service/asset.service';
+import { BundleService } from '../../src/service/bundle.service';
+import { EventService } from '../../src/service/event.service';
+import { logger } from '../fixtures';
+
+const record = (idField: string, id: string, bundleId: string, timestamp: number) => ({
+    [idField]: id,
+    organizationId: 1,
+    content: { idData: { timestamp, accessLevel: 0 }, data: [{ type: 'ambrosus.event.note' }] },
+    metadata: { bundleId },
+});
+
+// pages the records of the queried bundle by timestamp, the way the paging repositories do
+const makeRepository = (records: any[], queries: any[]) => {
+    const findWithPagination = async apiQuery => {
+        queries.push(apiQuery.query);
+        const sorted = records
+            .filter(entry => entry.metadata.bundleId === apiQuery.query['metadata.bundleId'])
+            .sort((a, b) => b.content.idData.timestamp - a.content.idData.timestamp);
+        const start = apiQuery.next ? Number(apiQuery.next) : 0;
+        const results = sorted.slice(start, start + apiQuery.limit);
+        const hasNext = start + apiQuery.limit < sorted.length;
+        return {
+            results,
+            hasNext,
+            next: hasNext ? String(start + apiQuery.limit) : undefined,
+            hasPrevious: start > 0,
+            previous: start > 0 ? String(start) : undefined,
+        };
+    };
+    return {
+        findWithPagination,
+        queryEvents: apiQuery => findWithPagination(apiQuery),
+        aggregate: async () => [{ _id: 1, count: 2, oldestTimestamp: 100 }],
+    } as any;
+};
+
+describe('(Controller) Bundle2 contents', () => {
+    const user: any = { organizationId: 1, accessLevel: 0, isSuperAdmin: true, isAuthorized: () => true };
+    let queries: any[];
+
+    const assets = [
+        record('assetId', '0xa1', '0xb1', 10),
+        record('assetId', '0xa2', '0xb1', 30),
+        record('assetId', '0xa3', '0xb2', 20),
+        record('assetId', '0xa4', '0xb1', 20),
+    ];
+    const events = [
+        record('eventId', '0xe1', '0xb1', 10),
+        record('eventId', '0xe2', '0xb2', 20),
+    ];
+
+    const makeController = () => new Bundle2Controller(
+        new BundleService(user, undefined, undefined, undefined, undefined, makeRepository(assets, queries), makeRepository(events, queries)),
+        new AssetService(user, makeRepository(assets, queries), undefined, undefined),
+        new EventService(user, makeRepository(events, queries), undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined, undefined),
+        logger
+    );
+
+    const makeRequest = (query: object): any => ({ query });
+
+    // reads the response the way a client receives it
+    const read = async (response: Promise<APIResponse>) => JSON.parse(await (await response).content.readAsStringAsync());
+
+    beforeEach(() => {
+        queries = [];
+    });
+
+    describe('getBundleAssets', () => {
+
+        it('should page the assets of the bundle, newest first', async () => {
+            const first = await read(makeController().getBundleAssets('0xb1', makeRequest({ limit: '2' })));
+
+            expect(first.data.map(asset => asset.assetId)).to.deep.equal(['0xa2', '0xa4']);
+            expect(first.pagination).to.include({ hasNext: true, next: '2', hasPrevious: false });
+            expect(queries[0]).to.include({ 'metadata.bundleId': '0xb1' });
+
+            const second = await read(makeController().getBundleAssets('0xb1', makeRequest({ limit: '2', next: first.pagination.next })));
+
+            expect(second.data.map(asset => asset.assetId)).to.deep.equal(['0xa1']);
+            expect(second.pagination).to.include({ hasNext: false, hasPrevious: true, previous: '2' });
+        });
+
+        it('should return an empty page for a bundle without assets', async () => {
+            const result = await read(makeController().getBundleAssets('0xb9', makeRequest({})));
+
+            expect(result.data).to.deep.equal([]);
+            expect(result.meta.count).to.equal(0);
+            expect(result.pagination.hasNext).to.be.false;
+        });
+    });
+
+    describe('getBundleEvents', () => {
+
+        it('should return the events of the bundle with their encryption state', async () => {
+            const result = await read(makeController().getBundleEvents('0xb2', makeRequest({})));
+
+            expect(result.data.map(event => event.eventId)).to.deep.equal(['0xe2']);
+            expect(result.data[0].content.data[0].encryption).to.equal('off');
+            expect(queries[0]).to.include({ 'metadata.bundleId': '0xb2' });
+        });
+
+        it('should return an empty page for a bundle without events', async () => {
+            const result = await read(makeController().getBundleEvents('0xb9', makeRequest({})));
+
+            expect(result.data).to.deep.equal([]);
+            expect(result.pagination.hasNext).to.be.false;
+        });
+    });
+
+    describe('getPendingEntries', () => {
+
+        it('should return the entries still waiting for a bundle', async () => {
+            const result = await read(makeController().getPendingEntries());
+
+            expect(result.data).to.deep.equal({
+                assets: 2,
+                events: 2,
+                oldestTimestamp: 100,
+                organizations: [{ organizationId: 1, assets: 2, events: 2, oldestTimestamp: 100 }],
+            });
+        });
+    });
+});
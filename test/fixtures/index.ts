@@ -5,3 +5,4 @@ export * from './events';
 export * from './bundles';
 export * from './organizationInvites';
 export * from './organizationRequests';
+export * from './logger';
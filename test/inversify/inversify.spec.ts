@@ -76,6 +76,76 @@ describe('(Inversify)', () => {
       assert.equal(instance1, instance2, 'OrganizationInviteRepository is Singleton');
     });
 
+    it('should resolve DataTypeSchemaRepository as Singleton', async () => {
+      const instance1 = iocContainer.get(TYPE.DataTypeSchemaRepository);
+      const instance2 = iocContainer.get(TYPE.DataTypeSchemaRepository);
+
+      assert.equal(instance1, instance2, 'DataTypeSchemaRepository is Singleton');
+    });
+
+    it('should resolve ImportTemplateRepository as Singleton', async () => {
+      const instance1 = iocContainer.get(TYPE.ImportTemplateRepository);
+      const instance2 = iocContainer.get(TYPE.ImportTemplateRepository);
+
+      assert.equal(instance1, instance2, 'ImportTemplateRepository is Singleton');
+    });
+
+    it('should resolve ImportBatchRepository as Singleton', async () => {
+      const instance1 = iocContainer.get(TYPE.ImportBatchRepository);
+      const instance2 = iocContainer.get(TYPE.ImportBatchRepository);
+
+      assert.equal(instance1, instance2, 'ImportBatchRepository is Singleton');
+    });
+
+    it('should resolve AssetLinkRepository as Singleton', async () => {
+      const instance1 = iocContainer.get(TYPE.AssetLinkRepository);
+      const instance2 = iocContainer.get(TYPE.AssetLinkRepository);
+
+      assert.equal(instance1, instance2, 'AssetLinkRepository is Singleton');
+    });
+
+    it('should resolve AssetTransferRepository as Singleton', async () => {
+      const instance1 = iocContainer.get(TYPE.AssetTransferRepository);
+      const instance2 = iocContainer.get(TYPE.AssetTransferRepository);
+
+      assert.equal(instance1, instance2, 'AssetTransferRepository is Singleton');
+    });
+
+    it('should resolve AssetIdentifierRepository as Singleton', async () => {
+      const instance1 = iocContainer.get(TYPE.AssetIdentifierRepository);
+      const instance2 = iocContainer.get(TYPE.AssetIdentifierRepository);
+
+      assert.equal(instance1, instance2, 'AssetIdentifierRepository is Singleton');
+    });
+
+    it('should resolve AssetStateRepository as Singleton', async () => {
+      const instance1 = iocContainer.get(TYPE.AssetStateRepository);
+      const instance2 = iocContainer.get(TYPE.AssetStateRepository);
+
+      assert.equal(instance1, instance2, 'AssetStateRepository is Singleton');
+    });
+
+    it('should resolve BundlingPolicyRepository as Singleton', async () => {
+      const instance1 = iocContainer.get(TYPE.BundlingPolicyRepository);
+      const instance2 = iocContainer.get(TYPE.BundlingPolicyRepository);
+
+      assert.equal(instance1, instance2, 'BundlingPolicyRepository is Singleton');
+    });
+
+    it('should resolve ServiceAccountRepository as Singleton', async () => {
+      const instance1 = iocContainer.get(TYPE.ServiceAccountRepository);
+      const instance2 = iocContainer.get(TYPE.ServiceAccountRepository);
+
+      assert.equal(instance1, instance2, 'ServiceAccountRepository is Singleton');
+    });
+
+    it('should resolve AuthSessionRepository as Singleton', async () => {
+      const instance1 = iocContainer.get(TYPE.AuthSessionRepository);
+      const instance2 = iocContainer.get(TYPE.AuthSessionRepository);
+
+      assert.equal(instance1, instance2, 'AuthSessionRepository is Singleton');
+    });
+
   });
 
   describe('Controller', () => {
@@ -0,0 +1,215 @@
+/* tslint:disable */
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+chai.use(chaiAsPromised);
+const { expect } = chai;
+
+import 'reflect-metadata';
+import {
+  canReadEvent,
+  ensureCanAttachEvent,
+  ensureCanCreateEvent,
+  ensureCanManageServiceAccount,
+  ensureCanModifyAccount,
+  getAssetReadFilter,
+  getEventReadFilter
+} from '../../src/security/access.check';
+import { PermissionError } from '../../src/errors';
+
+const makeCreator = (overrides = {}): any => ({
+  address: '0x2D2a0BE476559200D87EdD128Bd31c100be74e0f',
+  active: true,
+  accessLevel: 5,
+  organization: 1,
+  permissions: ['create_event'],
+  ...overrides,
+});
+
+const makeAsset = (overrides = {}): any => ({
+  assetId: '0x01',
+  organizationId: 1,
+  ...overrides,
+});
+
+const makeOrganizationRepository = (organization): any => ({
+  findOne: async () => organization,
+});
+
+const makeUser = (overrides = {}): any => ({
+  organizationId: 1,
+  accessLevel: 2,
+  isSuperAdmin: false,
+  isAuthorized: () => true,
+  ...overrides,
+});
+
+const makeEvent = (overrides = {}): any => ({
+  organizationId: 1,
+  public: false,
+  content: { idData: { accessLevel: 2 } },
+  ...overrides,
+});
+
+describe('(Security) Access check', () => {
+
+  describe('ensureCanCreateEvent', () => {
+
+    it('should reject an inactive creator account', async () => {
+      await expect(ensureCanCreateEvent(
+        makeOrganizationRepository({ active: true }),
+        makeCreator({ active: false })
+      )).to.be.rejectedWith(PermissionError);
+    });
+
+    it('should reject a creator of an inactive organization', async () => {
+      await expect(ensureCanCreateEvent(
+        makeOrganizationRepository({ active: false }),
+        makeCreator()
+      )).to.be.rejectedWith(PermissionError);
+    });
+
+    it('should accept an active creator of an active organization', async () => {
+      await ensureCanCreateEvent(makeOrganizationRepository({ active: true }), makeCreator());
+    });
+  });
+
+  describe('ensureCanAttachEvent', () => {
+
+    it('should reject an accessLevel above the creators', () => {
+      expect(() => ensureCanAttachEvent(makeCreator(), makeAsset(), 6)).to.throw(PermissionError);
+    });
+
+    it('should reject an asset of another organization', () => {
+      expect(() => ensureCanAttachEvent(makeCreator(), makeAsset({ organizationId: 2 }), 0)).to.throw(PermissionError);
+    });
+
+    it('should accept an asset shared with the creators organization', () => {
+      expect(() => ensureCanAttachEvent(makeCreator(), makeAsset({ organizationId: 2, sharedWith: [1] }), 0)).to.not.throw();
+    });
+
+    it('should accept any asset for a super account', () => {
+      const creator = makeCreator({ permissions: ['super_account'] });
+      expect(() => ensureCanAttachEvent(creator, makeAsset({ organizationId: 2 }), 0)).to.not.throw();
+    });
+  });
+
+  describe('getEventReadFilter', () => {
+
+    it('should limit anonymous users to public events', () => {
+      expect(getEventReadFilter(undefined)).to.deep.equal({ public: true });
+      expect(getEventReadFilter(makeUser({ isAuthorized: () => false }))).to.deep.equal({ public: true });
+    });
+
+    it('should not filter for a super admin', () => {
+      expect(getEventReadFilter(makeUser({ isSuperAdmin: true }))).to.deep.equal({});
+    });
+
+    it('should add own events up to the users access level', () => {
+      expect(getEventReadFilter(makeUser())).to.deep.equal({
+        $or: [
+          { public: true },
+          { organizationId: 1, 'content.idData.accessLevel': { $lte: 2 } },
+        ],
+      });
+    });
+  });
+
+  describe('getAssetReadFilter', () => {
+
+    it('should limit anonymous users to public assets', () => {
+      expect(getAssetReadFilter(undefined)).to.deep.equal({ public: true });
+    });
+
+    it('should add own and shared assets', () => {
+      expect(getAssetReadFilter(makeUser())).to.deep.equal({
+        $or: [
+          { public: true },
+          { organizationId: 1 },
+          { sharedWith: 1 },
+        ],
+      });
+    });
+  });
+
+  describe('canReadEvent', () => {
+
+    it('should allow anyone to read a public event', () => {
+      expect(canReadEvent(undefined, makeEvent({ public: true, organizationId: 2 }))).to.be.true;
+    });
+
+    it('should reject anonymous users for private events', () => {
+      expect(canReadEvent(makeUser({ isAuthorized: () => false }), makeEvent())).to.be.false;
+    });
+
+    it('should reject private events of other organizations', () => {
+      expect(canReadEvent(makeUser(), makeEvent({ organizationId: 2 }))).to.be.false;
+    });
+
+    it('should reject events above the users access level', () => {
+      expect(canReadEvent(makeUser({ accessLevel: 1 }), makeEvent())).to.be.false;
+    });
+
+    it('should allow own events within the access level and every event for a super admin', () => {
+      expect(canReadEvent(makeUser(), makeEvent())).to.be.true;
+      expect(canReadEvent(makeUser({ isSuperAdmin: true }), makeEvent({ organizationId: 2 }))).to.be.true;
+    });
+  });
+
+  describe('ensureCanManageServiceAccount', () => {
+
+    it('should reject a service account as manager', async () => {
+      await expect(ensureCanManageServiceAccount(
+        makeOrganizationRepository({ active: true }),
+        makeCreator({ serviceAccountId: 'a1' }),
+        ['create_event'],
+        0
+      )).to.be.rejectedWith(PermissionError);
+    });
+
+    it('should reject permissions outside the service account subset', async () => {
+      await expect(ensureCanManageServiceAccount(
+        makeOrganizationRepository({ active: true }),
+        makeCreator({ permissions: ['manage_accounts', 'create_event'] }),
+        ['manage_accounts'],
+        0
+      )).to.be.rejectedWith(PermissionError);
+    });
+
+    it('should reject permissions the manager does not have', async () => {
+      await expect(ensureCanManageServiceAccount(
+        makeOrganizationRepository({ active: true }),
+        makeCreator(),
+        ['create_asset'],
+        0
+      )).to.be.rejectedWith(PermissionError);
+    });
+
+    it('should accept a subset of the managers permissions', async () => {
+      await ensureCanManageServiceAccount(makeOrganizationRepository({ active: true }), makeCreator(), ['create_event'], 1);
+    });
+  });
+
+  describe('ensureCanModifyAccount', () => {
+
+    it('should reject a service account as target', async () => {
+      await expect(ensureCanModifyAccount(
+        makeOrganizationRepository({ active: true }),
+        makeCreator({ permissions: ['super_account'] }),
+        makeCreator({ address: '0x01', accessLevel: 0, serviceAccountId: 'a1' }),
+        undefined,
+        ['create_event', 'manage_accounts']
+      )).to.be.rejectedWith(PermissionError);
+    });
+
+    it('should accept a regular account of the same organization', async () => {
+      await ensureCanModifyAccount(
+        makeOrganizationRepository({ active: true }),
+        makeCreator({ permissions: ['manage_accounts'] }),
+        makeCreator({ address: '0x01', accessLevel: 0 }),
+        1,
+        ['create_event']
+      );
+    });
+  });
+});
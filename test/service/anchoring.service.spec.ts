@@ -0,0 +1,100 @@
+/* tslint:disable */
+import * as chai from 'chai';
+import * as http from 'http';
+
+const { expect } = chai;
+
+import 'reflect-metadata';
+import { config } from '../../src/config';
+import { AnchoringService } from '../../src/service/anchoring.service';
+import { Web3Service } from '../../src/service/web3.service';
+import { logger } from '../fixtures';
+
+// answers the few JSON-RPC calls of the tracker like an Ethereum node would
+const startRpcStandIn = (chain: { blockNumber: number, receipts: object }): Promise<http.Server> =>
+    new Promise(resolve => {
+        const server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => {
+                const { id, method, params } = JSON.parse(body);
+                let result = null;
+                if (method === 'eth_blockNumber') {
+                    result = `0x${chain.blockNumber.toString(16)}`;
+                } else if (method === 'eth_getTransactionReceipt') {
+                    result = chain.receipts[params[0]] || null;
+                }
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ id, result, jsonrpc: '2.0' }));
+            });
+        });
+        server.listen(0, '127.0.0.1', () => resolve(server));
+    });
+
+const transactionHash = `0x${'ab'.repeat(32)}`;
+
+const rpcReceipt = (blockNumber: number, blockHash: string, status: string) => ({
+    transactionHash,
+    blockHash,
+    status,
+    blockNumber: `0x${blockNumber.toString(16)}`,
+    transactionIndex: '0x0',
+    from: `0x${'11'.repeat(20)}`,
+    to: `0x${'22'.repeat(20)}`,
+    cumulativeGasUsed: '0x5208',
+    gasUsed: '0x5208',
+    contractAddress: null,
+    logs: [],
+    logsBloom: `0x${'00'.repeat(256)}`,
+});
+
+describe('(Service) Anchoring', () => {
+    const chain = { blockNumber: 100, receipts: {} };
+    const saved = {};
+    const bundleRepository: any = {
+        findAnchoredSince: async () => [{ bundleId: '0x01', bundleTransactionHash: transactionHash, anchoring: saved['0x01'] }],
+        setAnchoring: async (bundleId, anchoring) => saved[bundleId] = anchoring,
+    };
+    let server: http.Server;
+    let rpc: string;
+    let anchoringService: AnchoringService;
+
+    before(async () => {
+        server = await startRpcStandIn(chain);
+        rpc = config.web3.rpc;
+        config.web3.rpc = `http://127.0.0.1:${(server.address() as any).port}`;
+        anchoringService = new AnchoringService(bundleRepository, new Web3Service(logger), logger);
+    });
+
+    after(() => {
+        config.web3.rpc = rpc;
+        server.close();
+    });
+
+    it('should follow a transaction from pending to confirmed', async () => {
+        await anchoringService.checkRecentBundles();
+        expect(saved['0x01'].status).to.equal('pending');
+
+        chain.receipts[transactionHash] = rpcReceipt(95, `0x${'0a'.repeat(32)}`, '0x1');
+        await anchoringService.checkRecentBundles();
+        expect(saved['0x01'].status).to.equal('pending');
+        expect(saved['0x01'].confirmations).to.equal(6);
+
+        chain.blockNumber = 110;
+        await anchoringService.checkRecentBundles();
+        expect(saved['0x01'].status).to.equal('confirmed');
+        expect(saved['0x01'].history.map(transition => transition.status)).to.deep.equal(['pending', 'confirmed']);
+    });
+
+    it('should record a reorganisation', async () => {
+        chain.receipts[transactionHash] = rpcReceipt(105, `0x${'0b'.repeat(32)}`, '0x1');
+        await anchoringService.checkRecentBundles();
+        expect(saved['0x01'].status).to.equal('reorged');
+    });
+
+    it('should record a failed transaction', async () => {
+        chain.receipts[transactionHash] = rpcReceipt(105, `0x${'0b'.repeat(32)}`, '0x0');
+        await anchoringService.checkRecentBundles();
+        expect(saved['0x01'].status).to.equal('failed');
+    });
+});
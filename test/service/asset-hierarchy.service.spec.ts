@@ -0,0 +1,94 @@
+/* tslint:disable */
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+chai.use(chaiAsPromised);
+const { expect } = chai;
+
+import 'reflect-metadata';
+import { AssetHierarchyService } from '../../src/service/asset-hierarchy.service';
+import { ValidationError } from '../../src/errors';
+
+// stored links, closed ones carry unpackedAt
+const makeLinkRepository = (links: any[]): any => ({
+    find: async apiQuery => links.filter(link => apiQuery.query.childId.$in.indexOf(link.childId) > -1),
+    findAncestorLinks: async (childId: string) => {
+        const ancestors = [];
+        let current = links.find(link => link.childId === childId && !link.unpackedAt);
+        while (current) {
+            ancestors.push(current);
+            const parentId = current.parentId;
+            current = links.find(link => link.childId === parentId && !link.unpackedAt);
+        }
+        return ancestors;
+    },
+});
+
+const makeAssetService = (): any => ({
+    getAssetsByIds: async (assetIds: string[]) => assetIds.map(assetId => ({ assetId, organizationId: 1 })),
+});
+
+const creator: any = { accessLevel: 0, organization: 1, permissions: ['create_event'] };
+
+const aggregation = (...children: string[]) => [{ type: 'ambrosus.event.aggregation', children }];
+
+describe('(Service) Asset hierarchy', () => {
+
+    describe('getContainerWindows', () => {
+
+        it('should narrow the windows of transitive containers', async () => {
+            const service = new AssetHierarchyService(makeLinkRepository([
+                { parentId: 'case', childId: 'item', packedAt: 10, unpackedAt: 50 },
+                { parentId: 'pallet', childId: 'case', packedAt: 20, unpackedAt: null },
+                { parentId: 'truck', childId: 'pallet', packedAt: 60, unpackedAt: 70 },
+            ]), makeAssetService());
+
+            expect(await service.getContainerWindows('item')).to.deep.equal([
+                { assetId: 'case', from: 10, to: 50 },
+                { assetId: 'pallet', from: 20, to: 50 },
+            ]);
+        });
+
+        it('should keep open windows open', async () => {
+            const service = new AssetHierarchyService(makeLinkRepository([
+                { parentId: 'case', childId: 'item', packedAt: 10, unpackedAt: null },
+            ]), makeAssetService());
+
+            expect(await service.getContainerWindows('item')).to.deep.equal([{ assetId: 'case', from: 10, to: null }]);
+        });
+    });
+
+    describe('validateContainment', () => {
+
+        it('should reject packing an asset into itself', async () => {
+            const service = new AssetHierarchyService(makeLinkRepository([]), makeAssetService());
+
+            await expect(service.validateContainment(creator, 'a', 0, aggregation('a'))).to.be.rejectedWith(ValidationError);
+        });
+
+        it('should reject a cycle with stored links', async () => {
+            const service = new AssetHierarchyService(makeLinkRepository([
+                { parentId: 'b', childId: 'a', packedAt: 10, unpackedAt: null },
+            ]), makeAssetService());
+
+            await expect(service.validateContainment(creator, 'a', 0, aggregation('b'))).to.be.rejectedWith(ValidationError);
+        });
+
+        it('should reject a cycle with links packed earlier in the batch', async () => {
+            const service = new AssetHierarchyService(makeLinkRepository([
+                { parentId: 'c', childId: 'b', packedAt: 10, unpackedAt: null },
+            ]), makeAssetService());
+            const batchLinks = service.getContainmentLinks('a', 0, aggregation('c'));
+
+            await expect(service.validateContainment(creator, 'b', 0, aggregation('a'), batchLinks)).to.be.rejectedWith(ValidationError);
+            await service.validateContainment(creator, 'b', 0, aggregation('d'), batchLinks);
+        });
+
+        it('should not link private containment', () => {
+            const service = new AssetHierarchyService(makeLinkRepository([]), makeAssetService());
+
+            expect(service.getContainmentLinks('a', 1, aggregation('b'))).to.deep.equal([]);
+            expect(service.getContainmentLinks('a', 0, aggregation('b'))).to.deep.equal([{ childId: 'b', parentId: 'a' }]);
+        });
+    });
+});
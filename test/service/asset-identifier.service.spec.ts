@@ -0,0 +1,47 @@
+/* tslint:disable */
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+chai.use(chaiAsPromised);
+const { expect } = chai;
+
+import 'reflect-metadata';
+import { AssetIdentifierService } from '../../src/service/asset-identifier.service';
+import { ValidationError } from '../../src/errors';
+
+const identifiers = (gtin: string, serial: string) => [{
+    type: 'ambrosus.asset.identifiers',
+    identifiers: { gtin: [gtin], serial: [serial] },
+}];
+
+describe('(Service) Asset identifiers', () => {
+
+    describe('validateIdentifiers', () => {
+
+        it('should reject an identifier stored for another asset', async () => {
+            const service = new AssetIdentifierService({
+                find: async () => [{ type: 'gtin', value: '09506000134352', serial: 'A1', assetId: '0x02' }],
+            } as any, undefined);
+
+            await expect(service.validateIdentifiers(1, '0x01', 0, identifiers('9506000134352', 'A1')))
+                .to.be.rejectedWith(ValidationError);
+        });
+
+        it('should reject an identifier assigned earlier in the same batch', async () => {
+            const service = new AssetIdentifierService({ find: async () => [] } as any, undefined);
+            const batchIdentifiers = service.getUniqueIdentifiers('0x02', 0, identifiers('9506000134352', 'A1'));
+
+            await expect(service.validateIdentifiers(1, '0x01', 0, identifiers('9506000134352', 'A1'), batchIdentifiers))
+                .to.be.rejectedWith(ValidationError)
+                .and.eventually.have.nested.property('error.reason', 'Identifier gtin 09506000134352 serial A1 already identifies asset 0x02');
+            await service.validateIdentifiers(1, '0x01', 0, identifiers('9506000134352', 'A2'), batchIdentifiers);
+            await service.validateIdentifiers(1, '0x02', 0, identifiers('9506000134352', 'A1'), batchIdentifiers);
+        });
+
+        it('should not collect identifiers of private events', () => {
+            const service = new AssetIdentifierService({ find: async () => [] } as any, undefined);
+
+            expect(service.getUniqueIdentifiers('0x02', 1, identifiers('9506000134352', 'A1'))).to.deep.equal([]);
+        });
+    });
+});
@@ -0,0 +1,106 @@
+/* tslint:disable */
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+chai.use(chaiAsPromised);
+const { expect } = chai;
+
+import 'reflect-metadata';
+import { AssetService } from '../../src/service/asset.service';
+import { NotFoundError, PermissionError } from '../../src/errors';
+
+const item = (assetId: string) => ({ assetId, content: { idData: { createdBy: '0xa', timestamp: 1, sequenceNumber: 0 }, signature: '0xs' } });
+
+describe('(Service) Asset', () => {
+    let stored: any[];
+    let raced: string[];
+
+    const makeService = (account = { active: true, organization: 1 }, user: any = { organizationId: 1, isSuperAdmin: false }) => new AssetService(
+        user,
+        {
+            update: async (apiQuery, item) => {
+                const asset = stored.find(candidate =>
+                    candidate.assetId === apiQuery.query.assetId && candidate.organizationId === apiQuery.query.organizationId);
+                return asset ? Object.assign(asset, item) : null;
+            },
+            find: async apiQuery => stored.filter(asset => apiQuery.query.assetId.$in.indexOf(asset.assetId) > -1),
+            createBulkUnordered: async assets => assets
+                .map((asset, index) => {
+                    if (raced.indexOf(asset.assetId) > -1) {
+                        return { index, code: 11000, reason: 'E11000 duplicate key error' };
+                    }
+                    stored.push(asset);
+                })
+                .filter(failure => failure),
+        } as any,
+        { findOne: async () => ({ active: true }) } as any,
+        { getAccount: async () => account } as any
+    );
+
+    beforeEach(() => {
+        stored = [{ assetId: '0x01', organizationId: 1 }];
+        raced = [];
+    });
+
+    describe('createAssets', () => {
+
+        it('should create new assets and fail existing and repeated ones', async () => {
+            const results = await makeService().createAssets('0xa', [item('0x01'), item('0x02'), item('0x03'), item('0x02')] as any);
+
+            expect(results).to.deep.equal([
+                { assetId: '0x01', success: false, reason: 'Asset with assetId=0x01 already exists' },
+                { assetId: '0x02', success: true },
+                { assetId: '0x03', success: true },
+                { assetId: '0x02', success: false, reason: 'Asset with assetId=0x02 already exists' },
+            ]);
+            expect(stored.map(asset => asset.assetId)).to.deep.equal(['0x01', '0x02', '0x03']);
+            expect(stored[1].organizationId).to.equal(1);
+            expect(stored[1].public).to.be.false;
+        });
+
+        it('should keep the other assets when one is inserted concurrently', async () => {
+            raced = ['0x02'];
+
+            const results = await makeService().createAssets('0xa', [item('0x02'), item('0x03')] as any);
+
+            expect(results).to.deep.equal([
+                { assetId: '0x02', success: false, reason: 'Asset with assetId=0x02 already exists' },
+                { assetId: '0x03', success: true },
+            ]);
+            expect(stored.map(asset => asset.assetId)).to.deep.equal(['0x01', '0x03']);
+        });
+
+        it('should attribute the assets of a service account to it and its creator', async () => {
+            const user = { organizationId: 1, isSuperAdmin: false, serviceAccount: { serviceAccountId: 'sa1' }, actingFor: '0xhuman' };
+
+            await makeService(undefined, user).createAssets('0xa', [item('0x02')] as any);
+            await makeService().createAssets('0xa', [item('0x03')] as any);
+
+            expect(stored[1].metadata).to.include({ serviceAccountId: 'sa1', actingFor: '0xhuman' });
+            expect(stored[2].metadata).to.not.have.any.keys('serviceAccountId', 'actingFor');
+        });
+
+        it('should reject the whole batch of an inactive creator', async () => {
+            await expect(makeService({ active: false, organization: 1 }).createAssets('0xa', [item('0x02')] as any))
+                .to.be.rejectedWith(PermissionError);
+            expect(stored.length).to.equal(1);
+        });
+    });
+
+    describe('setAssetPublic', () => {
+
+        it('should publish an asset of the organization', async () => {
+            const asset = await makeService().setAssetPublic('0x01', true);
+
+            expect(asset.public).to.be.true;
+        });
+
+        it('should not find assets of other organizations', async () => {
+            stored.push({ assetId: '0x09', organizationId: 2 });
+
+            await expect(makeService().setAssetPublic('0x09', true)).to.be.rejectedWith(NotFoundError);
+            await expect(makeService().setAssetPublic('0x404', true)).to.be.rejectedWith(NotFoundError);
+            expect(stored[1].public).to.be.undefined;
+        });
+    });
+});
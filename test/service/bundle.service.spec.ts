@@ -0,0 +1,158 @@
+/* tslint:disable */
+import * as chai from 'chai';
+import { Readable } from 'stream';
+
+const { expect } = chai;
+
+import 'reflect-metadata';
+import { GridRepository } from '../../src/database/repository/grid.repository';
+import { BundleService } from '../../src/service/bundle.service';
+import { logger } from '../fixtures';
+
+const bundle = {
+    bundleId: '0x01',
+    content: {
+        idData: { createdBy: '0xa' },
+        entries: Array.from({ length: 5 }, (_, index) => ({ eventId: `0x0${index}`, content: { signature: `0xs${index}` } })),
+    },
+};
+
+// hands the bundle out in small chunks, like GridFS hands out its chunks
+const makeBundleStream = (json: string) => {
+    const chunks = json.match(/[\s\S]{1,16}/g);
+    const stream: any = new Readable({
+        read() {
+            this.push(chunks.length ? chunks.shift() : null);
+        },
+    });
+    stream.aborted = false;
+    stream.abort = () => {
+        stream.aborted = true;
+        stream.destroy();
+    };
+    return stream;
+};
+
+describe('(Service) Bundle', () => {
+    let opened: any[];
+    let stream: any;
+
+    const makeService = () => {
+        const gridRepository = new GridRepository(
+            logger,
+            { isFileInGridFSBucket: async () => true } as any
+        );
+        (gridRepository as any).bundlesBucket = {
+            openDownloadStreamByName: (bundleId, options) => {
+                opened.push(options);
+                stream = makeBundleStream(JSON.stringify(bundle));
+                return stream;
+            },
+        };
+        return new BundleService(undefined, undefined, undefined, undefined, gridRepository, undefined, undefined);
+    };
+
+    beforeEach(() => {
+        opened = [];
+    });
+
+    describe('getBundleStream', () => {
+
+        it('should open the inclusive byte range of a request', async () => {
+            await makeService().getBundleStream('0x01', { start: 0, end: 99 });
+            await makeService().getBundleStream('0x01');
+
+            expect(opened).to.deep.equal([{ start: 0, end: 100 }, {}]);
+        });
+    });
+
+    describe('getBundleEntries', () => {
+
+        it('should return a page and stop reading after it', async () => {
+            const result = await makeService().getBundleEntries('0x01', 0, 2);
+
+            expect(result.entries.map(entry => entry.eventId)).to.deep.equal(['0x00', '0x01']);
+            expect(result.hasNext).to.be.true;
+            expect(stream.aborted).to.be.true;
+        });
+
+        it('should return the last page without a next one', async () => {
+            const result = await makeService().getBundleEntries('0x01', 3, 2);
+
+            expect(result.entries.map(entry => entry.eventId)).to.deep.equal(['0x03', '0x04']);
+            expect(result.hasNext).to.be.false;
+        });
+
+        it('should return no entries past the end', async () => {
+            const result = await makeService().getBundleEntries('0x01', 10, 2);
+
+            expect(result).to.deep.equal({ entries: [], hasNext: false });
+        });
+    });
+
+    describe('findBundleEntry', () => {
+
+        it('should return the matching entry', async () => {
+            const entry = await makeService().findBundleEntry('0x01', 'eventId', '0x02');
+
+            expect(entry).to.deep.equal(bundle.content.entries[2]);
+            expect(stream.aborted).to.be.true;
+        });
+
+        it('should return undefined for a missing entry', async () => {
+            expect(await makeService().findBundleEntry('0x01', 'eventId', '0x09')).to.be.undefined;
+        });
+    });
+
+    describe('getPendingEntries', () => {
+        let matches: any[];
+
+        const makePendingService = (assetGroups: any[], eventGroups: any[]) => {
+            const repository = (groups: any[]) => ({
+                aggregate: async apiQuery => {
+                    matches.push(apiQuery.query[0].$match);
+                    return groups;
+                },
+            } as any);
+            return new BundleService(undefined, undefined, undefined, undefined, undefined, repository(assetGroups), repository(eventGroups));
+        };
+
+        beforeEach(() => {
+            matches = [];
+        });
+
+        it('should merge the asset and event counts of every organization', async () => {
+            const result = await makePendingService(
+                [{ _id: 1, count: 2, oldestTimestamp: 300 }, { _id: 2, count: 1, oldestTimestamp: 100 }],
+                [{ _id: 1, count: 5, oldestTimestamp: 200 }, { _id: 3, count: 4, oldestTimestamp: 400 }]
+            ).getPendingEntries();
+
+            expect(result).to.deep.equal({
+                assets: 3,
+                events: 9,
+                oldestTimestamp: 100,
+                organizations: [
+                    { organizationId: 1, assets: 2, events: 5, oldestTimestamp: 200 },
+                    { organizationId: 2, assets: 1, events: 0, oldestTimestamp: 100 },
+                    { organizationId: 3, assets: 0, events: 4, oldestTimestamp: 400 },
+                ],
+            });
+            expect(matches).to.deep.equal([{ 'metadata.bundleId': null }, { 'metadata.bundleId': null }]);
+        });
+
+        it('should only count the entries of the given organization', async () => {
+            await makePendingService([], []).getPendingEntries(2);
+
+            expect(matches).to.deep.equal([
+                { 'metadata.bundleId': null, organizationId: 2 },
+                { 'metadata.bundleId': null, organizationId: 2 },
+            ]);
+        });
+
+        it('should return zero counts when nothing is waiting', async () => {
+            const result = await makePendingService([], []).getPendingEntries();
+
+            expect(result).to.deep.equal({ assets: 0, events: 0, organizations: [] });
+        });
+    });
+});
@@ -0,0 +1,74 @@
+/* tslint:disable */
+import * as Ajv from 'ajv';
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+
+chai.use(chaiAsPromised);
+const { expect } = chai;
+
+import 'reflect-metadata';
+import { DataTypeSchemaService } from '../../src/service/data-type-schema.service';
+import { ValidationError } from '../../src/errors';
+
+describe('(Service) Data type schema', () => {
+    let schemas: any[];
+    let compile: sinon.SinonSpy;
+
+    const service = new DataTypeSchemaService(
+        undefined,
+        {
+            find: async apiQuery => schemas.filter(schema =>
+                schema.organizationId === apiQuery.query.organizationId && apiQuery.query.type.$in.indexOf(schema.type) > -1),
+        } as any
+    );
+
+    beforeEach(() => {
+        schemas = [{
+            _id: 'temperature-1',
+            organizationId: 1,
+            type: 'acme.temperature',
+            schema: { type: 'object', required: ['value'], properties: { value: { type: 'number' } } },
+        }];
+        compile = sinon.spy(Ajv.prototype, 'compile');
+    });
+
+    afterEach(() => {
+        compile.restore();
+    });
+
+    describe('validateEventData', () => {
+
+        it('should accept entries matching their schema and entries without one', async () => {
+            await service.validateEventData(1, [{ type: 'acme.temperature', value: 20 }, { type: 'ambrosus.event.note' }]);
+        });
+
+        it('should report every entry failing its schema', async () => {
+            await expect(service.validateEventData(1, [
+                { type: 'acme.temperature', value: 'warm' },
+                { type: 'ambrosus.event.note' },
+                { type: 'acme.temperature' },
+            ])).to.be.rejectedWith(ValidationError).and.eventually.have.nested.property(
+                'error.reason',
+                "content.data[0].value should be number, content.data[2] should have required property 'value'"
+            );
+        });
+
+        it('should ignore the schemas of other organizations', async () => {
+            await service.validateEventData(2, [{ type: 'acme.temperature', value: 'warm' }]);
+        });
+
+        it('should compile a schema once and again after it changed', async () => {
+            schemas[0]._id = 'temperature-2';
+
+            await service.validateEventData(1, [{ type: 'acme.temperature', value: 20 }]);
+            await service.validateEventData(1, [{ type: 'acme.temperature', value: 21 }]);
+            expect(compile.callCount).to.equal(1);
+
+            schemas[0].schema = { type: 'object', properties: { value: { type: 'string' } } };
+
+            await expect(service.validateEventData(1, [{ type: 'acme.temperature', value: 22 }])).to.be.rejectedWith(ValidationError);
+            expect(compile.callCount).to.equal(2);
+        });
+    });
+});
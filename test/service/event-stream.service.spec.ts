@@ -0,0 +1,68 @@
+/* tslint:disable */
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+chai.use(chaiAsPromised);
+const { expect } = chai;
+
+import 'reflect-metadata';
+import { TYPE } from '../../src/constant/types';
+import { iocContainer } from '../../src/inversify.config';
+import { EventStreamService } from '../../src/service/event-stream.service';
+import { EventStreamFilter } from '../../src/model/event/event-stream-filter.model';
+
+const makeEvent = (assetId: string, type: string, organizationId = 1): any => ({
+  eventId: `0x${assetId}${type}`,
+  organizationId,
+  content: {
+    idData: {
+      assetId,
+      createdBy: '0x2D2a0BE476559200D87EdD128Bd31c100be74e0f',
+    },
+    data: [{ type }],
+  },
+});
+
+describe('(Service) Event stream', () => {
+  let _EventStreamService: EventStreamService;
+
+  before(() => {
+    _EventStreamService = iocContainer.get(TYPE.EventStreamService);
+  });
+
+  it('should resolve EventStreamService as Singleton', () => {
+    expect(iocContainer.get(TYPE.EventStreamService)).to.equal(_EventStreamService);
+  });
+
+  it('should deliver only events matching the filter', async () => {
+    const received = [];
+    const unsubscribe = _EventStreamService.subscribe(
+      EventStreamFilter.fromQuery({ assetId: '0x01', type: 'ambrosus.asset.info' }),
+      async event => { received.push(event.eventId); }
+    );
+
+    _EventStreamService.publish(makeEvent('0x01', 'ambrosus.asset.info'));
+    _EventStreamService.publish(makeEvent('0x02', 'ambrosus.asset.info'));
+    _EventStreamService.publish(makeEvent('0x01', 'ambrosus.event.location'));
+
+    unsubscribe();
+
+    expect(received).to.deep.equal(['0x0x01ambrosus.asset.info']);
+  });
+
+  it('should match organizationId given as query string', () => {
+    const filter = EventStreamFilter.fromQuery({ organizationId: '2' });
+
+    expect(filter.matches(makeEvent('0x01', 'a', 2))).to.be.true;
+    expect(filter.matches(makeEvent('0x01', 'a', 1))).to.be.false;
+  });
+
+  it('should stop delivering after unsubscribe', () => {
+    const count = _EventStreamService.subscriberCount;
+    const unsubscribe = _EventStreamService.subscribe(new EventStreamFilter(), async () => {});
+
+    expect(_EventStreamService.subscriberCount).to.equal(count + 1);
+    unsubscribe();
+    expect(_EventStreamService.subscriberCount).to.equal(count);
+  });
+});
@@ -0,0 +1,273 @@
+/* tslint:disable */
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+chai.use(chaiAsPromised);
+const { expect } = chai;
+
+import base64url from 'base64url';
+import 'reflect-metadata';
+import { APIQuery } from '../../src/model';
+import { EventService } from '../../src/service/event.service';
+import { NotFoundError, ValidationError } from '../../src/errors';
+
+const item = (eventId: string, assetId: string, type = 'ambrosus.event.note') => ({
+    eventId,
+    content: {
+        idData: { assetId, accessLevel: 0, timestamp: 1, createdBy: '0xa', dataHash: '0xd' },
+        signature: '0xs',
+        data: [{ type }],
+    },
+});
+
+describe('(Service) Event', () => {
+    let stored: any[];
+    let published: string[];
+    let raced: string[];
+    let refreshed: string[];
+
+    const makeService = (user: any = { organizationId: 1, isSuperAdmin: false }) => new EventService(
+        user,
+        {
+            update: async (apiQuery, item) => {
+                const event = stored.find(candidate =>
+                    candidate.eventId === apiQuery.query.eventId && candidate.organizationId === apiQuery.query.organizationId);
+                return event ? Object.assign(event, item) : null;
+            },
+            find: async apiQuery => stored.filter(event => apiQuery.query.eventId.$in.indexOf(event.eventId) > -1),
+            createBulkUnordered: async events => events
+                .map((event, index) => {
+                    if (raced.indexOf(event.eventId) > -1) {
+                        return { index, code: 11000, reason: 'E11000 duplicate key error' };
+                    }
+                    stored.push(event);
+                })
+                .filter(failure => failure),
+        } as any,
+        { findOne: async () => ({ active: true }) } as any,
+        { getAssetsByIds: async assetIds => assetIds.filter(assetId => assetId !== '0xmissing').map(assetId => ({ assetId, organizationId: 1 })) } as any,
+        { getAccount: async () => ({ active: true, organization: 1, accessLevel: 0, permissions: ['create_event'] }) } as any,
+        undefined,
+        {
+            validateEventData: async (organizationId, data) => {
+                if (data[0].type === 'bad') {
+                    throw new ValidationError({ reason: 'Data does not match the schema of bad' });
+                }
+            },
+        } as any,
+        { publish: event => published.push(event.eventId) } as any,
+        undefined,
+        { validateContainment: async () => {}, getContainmentLinks: () => [], recordContainment: async () => {} } as any,
+        { validateIdentifiers: async () => {}, getUniqueIdentifiers: () => [], recordIdentifiers: async () => {} } as any,
+        { applyEvent: async () => {}, refreshAssetState: async assetId => refreshed.push(assetId) } as any
+    );
+
+    beforeEach(() => {
+        stored = [{ eventId: '0x01' }];
+        published = [];
+        raced = [];
+        refreshed = [];
+    });
+
+    describe('createEvents', () => {
+
+        it('should create the valid events and report every failed one', async () => {
+            const results = await makeService().createEvents('0xa', [
+                item('0x01', '0xa1'),
+                item('0x02', '0xa1'),
+                item('0x03', '0xmissing'),
+                item('0x04', '0xa1', 'bad'),
+                item('0x02', '0xa1'),
+                item('0x05', '0xa2'),
+            ] as any);
+
+            expect(results).to.deep.equal([
+                { eventId: '0x01', success: false, reason: 'Event with eventId=0x01 already exists' },
+                { eventId: '0x02', success: true },
+                { eventId: '0x03', success: false, reason: 'Asset with assetId=0xmissing not found' },
+                { eventId: '0x04', success: false, reason: 'Data does not match the schema of bad' },
+                { eventId: '0x02', success: false, reason: 'Event with eventId=0x02 already exists' },
+                { eventId: '0x05', success: true },
+            ]);
+            expect(stored.map(event => event.eventId)).to.deep.equal(['0x01', '0x02', '0x05']);
+            expect(stored[1].public).to.be.false;
+            expect(published).to.deep.equal(['0x02', '0x05']);
+        });
+
+        it('should store nothing when every event fails', async () => {
+            const results = await makeService().createEvents('0xa', [item('0x01', '0xa1')] as any);
+
+            expect(results.map(result => result.success)).to.deep.equal([false]);
+            expect(stored.length).to.equal(1);
+            expect(published).to.deep.equal([]);
+        });
+
+        it('should keep the other events when one is inserted concurrently', async () => {
+            raced = ['0x03'];
+
+            const results = await makeService().createEvents('0xa', [
+                item('0x02', '0xa1'),
+                item('0x03', '0xa1'),
+                item('0x04', '0xa1'),
+            ] as any);
+
+            expect(results).to.deep.equal([
+                { eventId: '0x02', success: true },
+                { eventId: '0x03', success: false, reason: 'Event with eventId=0x03 already exists' },
+                { eventId: '0x04', success: true },
+            ]);
+            expect(stored.map(event => event.eventId)).to.deep.equal(['0x01', '0x02', '0x04']);
+            expect(published).to.deep.equal(['0x02', '0x04']);
+        });
+
+        it('should attribute the events of a service account to it and its creator', async () => {
+            const user = { organizationId: 1, isSuperAdmin: false, serviceAccount: { serviceAccountId: 'sa1' }, actingFor: '0xhuman' };
+
+            await makeService(user).createEvents('0xa', [item('0x02', '0xa1')] as any);
+            await makeService().createEvents('0xa', [item('0x03', '0xa1')] as any);
+
+            expect(stored[1].metadata).to.include({ serviceAccountId: 'sa1', actingFor: '0xhuman' });
+            expect(stored[2].metadata).to.not.have.any.keys('serviceAccountId', 'actingFor');
+        });
+    });
+
+    describe('setEventPublic', () => {
+
+        it('should publish an event of the organization and refresh the asset state', async () => {
+            stored.push({ eventId: '0x07', organizationId: 1, public: false, content: { idData: { assetId: '0xa1' } } });
+
+            const event = await makeService().setEventPublic('0x07', true);
+
+            expect(event.public).to.be.true;
+            expect(refreshed).to.deep.equal(['0xa1']);
+        });
+
+        it('should not find events of other organizations', async () => {
+            stored.push({ eventId: '0x08', organizationId: 2, public: false, content: { idData: { assetId: '0xa1' } } });
+
+            await expect(makeService().setEventPublic('0x08', true)).to.be.rejectedWith(NotFoundError);
+            expect(stored[1].public).to.be.false;
+            expect(refreshed).to.deep.equal([]);
+        });
+    });
+
+    describe('reads', () => {
+        const user: any = { organizationId: 1, accessLevel: 0, isSuperAdmin: false, isAuthorized: () => true };
+        const asset: any = {
+            assetId: '0xa1',
+            content: { idData: { timestamp: 10, createdBy: '0xcreator' } },
+            metadata: { bundleId: null },
+        };
+        const event = (eventId: string, assetId: string, timestamp: number, bundleId = null) => ({
+            eventId,
+            content: { idData: { assetId, timestamp, createdBy: '0xcreator', accessLevel: 0 }, data: [{ type: 'ambrosus.event.note' }] },
+            metadata: { bundleId },
+        });
+
+        let page: any;
+        let queries: any[];
+        let aggregated: string[][];
+
+        const makeReadService = () => new EventService(
+            user,
+            {
+                queryEvents: async apiQuery => {
+                    queries.push(apiQuery.query);
+                    return page;
+                },
+                assetEventsOfType: async assetIds => {
+                    aggregated.push(assetIds);
+                    return assetIds.map(assetId => ({ eventId: `event-${assetId}`, assetId }));
+                },
+            } as any,
+            undefined,
+            undefined,
+            { getPublicAccountDetails: async address => ({ address, fullName: 'Creator' }) } as any,
+            undefined,
+            undefined,
+            undefined,
+            { getBundlesByIds: async bundleIds => bundleIds.map(bundleId => ({ bundleId, bundleTransactionHash: '0xtx' })) } as any,
+            { getContainerWindows: async () => [{ assetId: '0xbox', from: 20, to: null }] } as any,
+            undefined,
+            undefined
+        );
+
+        const limited = (limit: number, cursors = {}) => Object.assign(new APIQuery(), { limit }, cursors);
+
+        beforeEach(() => {
+            queries = [];
+            aggregated = [];
+        });
+
+        describe('getAssetTimeline', () => {
+
+            it('should close the last page with the asset creation', async () => {
+                page = { results: [event('0xe2', '0xbox', 30, '0xb1'), event('0xe1', '0xa1', 20)], hasNext: false };
+
+                const result = await makeReadService().getAssetTimeline(asset, new APIQuery(), true);
+
+                expect(result.results.map(entry => `${entry.type}:${entry.id}`)).to.deep.equal(['event:0xe2', 'event:0xe1', 'asset:0xa1']);
+                expect(result.results[0].inheritedFrom).to.equal('0xbox');
+                expect(result.results[0].bundle).to.deep.equal({ bundleId: '0xb1', bundleTransactionHash: '0xtx' });
+                expect(result.results[1].inheritedFrom).to.be.undefined;
+                expect(result.results[2].bundle).to.be.null;
+                expect(result.results[2].creator).to.deep.equal({ address: '0xcreator', fullName: 'Creator' });
+                expect(queries[0].$or).to.deep.equal([
+                    { 'content.idData.assetId': '0xa1' },
+                    { 'content.idData.assetId': '0xbox', 'content.idData.timestamp': { $gte: 20 } },
+                ]);
+            });
+
+            it('should leave the asset creation to a later page', async () => {
+                page = { results: [event('0xe1', '0xa1', 20)], hasNext: true, next: 'cursor' };
+
+                const result = await makeReadService().getAssetTimeline(asset, new APIQuery());
+
+                expect(result.results.map(entry => entry.type)).to.deep.equal(['event']);
+                expect(result.next).to.equal('cursor');
+                expect(queries[0]).to.deep.equal({ 'content.idData.assetId': '0xa1' });
+            });
+
+            it('should only hold the asset creation without events', async () => {
+                page = { results: [], hasNext: false };
+
+                const result = await makeReadService().getAssetTimeline(asset, new APIQuery());
+
+                expect(result.results.map(entry => `${entry.type}:${entry.id}`)).to.deep.equal(['asset:0xa1']);
+            });
+        });
+
+        describe('getLatestAssetEventsOfType', () => {
+            const assets = ['0x03', '0x01', '0x02', '0x01'];
+
+            it('should page the distinct assets in order', async () => {
+                const first = await makeReadService().getLatestAssetEventsOfType(assets, ['type'], limited(2));
+
+                expect(first.results.map(result => result.assetId)).to.deep.equal(['0x01', '0x02']);
+                expect(first.hasPrevious).to.be.false;
+                expect(first.hasNext).to.be.true;
+                expect(base64url.decode(first.next)).to.equal('0x02');
+
+                const second = await makeReadService().getLatestAssetEventsOfType(assets, ['type'], limited(2, { next: first.next }));
+
+                expect(second.results.map(result => result.assetId)).to.deep.equal(['0x03']);
+                expect(second.hasPrevious).to.be.true;
+                expect(second.hasNext).to.be.false;
+
+                const back = await makeReadService().getLatestAssetEventsOfType(assets, ['type'], limited(2, { previous: second.previous }));
+
+                expect(back.results.map(result => result.assetId)).to.deep.equal(['0x01', '0x02']);
+                expect(aggregated).to.deep.equal([['0x01', '0x02'], ['0x03'], ['0x01', '0x02']]);
+            });
+
+            it('should return an empty page without asking the repository', async () => {
+                const result = await makeReadService().getLatestAssetEventsOfType([], ['type'], limited(2));
+
+                expect(result.results).to.deep.equal([]);
+                expect(result.hasNext).to.be.false;
+                expect(result.next).to.be.undefined;
+                expect(aggregated).to.deep.equal([]);
+            });
+        });
+    });
+});
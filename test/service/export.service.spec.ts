@@ -0,0 +1,89 @@
+/* tslint:disable */
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import { Writable } from 'stream';
+
+chai.use(chaiAsPromised);
+const { expect } = chai;
+
+import 'reflect-metadata';
+import { APIQuery, ExportOptions } from '../../src/model';
+import { ExportService } from '../../src/service/export.service';
+
+const makeCursor = (docs: any[], failAt = -1) => {
+    let index = 0;
+    return {
+        closed: false,
+        hasNext: async () => index < docs.length,
+        next: async () => {
+            if (index === failAt) {
+                throw new Error('cursor failed');
+            }
+            return docs[index++];
+        },
+        close() {
+            this.closed = true;
+        },
+    };
+};
+
+// accepts one chunk at a time, so every write waits for a drain
+const makeOutput = () => {
+    const chunks: string[] = [];
+    const output = new Writable({
+        highWaterMark: 1,
+        write: (chunk, encoding, callback) => {
+            chunks.push(chunk.toString());
+            setImmediate(callback);
+        },
+    });
+    return { output, chunks };
+};
+
+describe('(Service) Export', () => {
+    const assets = Array.from({ length: 30 }, (_, index) => ({ assetId: `0x${index}`, organizationId: 1 }));
+
+    const makeService = cursor => new ExportService(undefined, { getAssetsCursor: async () => cursor } as any);
+
+    const options = (format: string) => Object.assign(new ExportOptions(), { format });
+
+    it('should write every row and end the output', async () => {
+        const cursor = makeCursor(assets);
+        const { output, chunks } = makeOutput();
+        const finished = new Promise(resolve => output.on('finish', resolve));
+
+        await makeService(cursor).exportAssets(new APIQuery(), options('ndjson'), output);
+        await finished;
+
+        expect(chunks.length).to.equal(30);
+        expect(JSON.parse(chunks[29])).to.deep.equal(assets[29]);
+        expect(cursor.closed).to.be.true;
+    });
+
+    it('should not keep listeners of waited writes', async () => {
+        const { output } = makeOutput();
+        let maxListeners = 0;
+        const write = output.write.bind(output);
+        output.write = (chunk: any) => {
+            maxListeners = Math.max(maxListeners, output.listenerCount('close'));
+            return write(chunk);
+        };
+
+        await makeService(makeCursor(assets)).exportAssets(new APIQuery(), options('csv'), output);
+
+        expect(maxListeners).to.be.at.most(2);
+        expect(output.listenerCount('drain')).to.equal(0);
+    });
+
+    it('should abort the output when reading fails', async () => {
+        const cursor = makeCursor(assets, 3);
+        const { output, chunks } = makeOutput();
+        const aborted = new Promise(resolve => output.on('error', resolve));
+
+        await expect(makeService(cursor).exportAssets(new APIQuery(), options('ndjson'), output)).to.be.rejectedWith('cursor failed');
+
+        expect((await aborted as Error).message).to.equal('cursor failed');
+        expect(chunks.length).to.equal(3);
+        expect(cursor.closed).to.be.true;
+    });
+});
@@ -0,0 +1,111 @@
+/* tslint:disable */
+import * as chai from 'chai';
+
+const { expect } = chai;
+
+import 'reflect-metadata';
+import { config } from '../../src/config';
+import { ValidationError } from '../../src/errors';
+import { AuthToken } from '../../src/model';
+import { AuthService } from '../../src/service/auth.service';
+import { TokenRevocationService } from '../../src/service/token-revocation.service';
+import { Web3Service } from '../../src/service/web3.service';
+import { getTimestamp } from '../../src/util';
+import { logger } from '../fixtures';
+
+const makeToken = (signature: string, createdOn?: number): AuthToken => {
+    const authToken = new AuthToken();
+    authToken.createdBy = '0x2D2a0BE476559200D87EdD128Bd31c100be74e0f';
+    authToken.validUntil = 4102444800;
+    authToken.createdOn = createdOn;
+    authToken.signature = signature;
+    return authToken;
+};
+
+describe('(Service) Token revocation', () => {
+    const sessions = {};
+    let lookups = 0;
+    const authSessionRepository: any = {
+        recordUse: async authSession => {
+            lookups += 1;
+            sessions[authSession.signature] = { ...sessions[authSession.signature], ...authSession };
+            return sessions[authSession.signature];
+        },
+    };
+    let cacheSize: number;
+    let tokenRevocationService: TokenRevocationService;
+
+    before(() => {
+        cacheSize = config.authSessions.cacheSize;
+        config.authSessions.cacheSize = 2;
+    });
+
+    after(() => {
+        config.authSessions.cacheSize = cacheSize;
+    });
+
+    beforeEach(() => {
+        lookups = 0;
+        tokenRevocationService = new TokenRevocationService(authSessionRepository);
+    });
+
+    it('should record the use of a token', async () => {
+        expect(await tokenRevocationService.isRevoked(makeToken('0x01'), undefined, '10.0.0.1')).to.be.false;
+        expect(sessions['0x01'].lastIp).to.equal('10.0.0.1');
+    });
+
+    it('should answer repeated checks from the cache', async () => {
+        await tokenRevocationService.isRevoked(makeToken('0x01'));
+        await tokenRevocationService.isRevoked(makeToken('0x01'));
+        expect(lookups).to.equal(1);
+    });
+
+    it('should see a revocation once the token is forgotten', async () => {
+        await tokenRevocationService.isRevoked(makeToken('0x02'));
+        sessions['0x02'].revokedOn = 1;
+
+        expect(await tokenRevocationService.isRevoked(makeToken('0x02'))).to.be.false;
+
+        tokenRevocationService.forget(['0x02']);
+        expect(await tokenRevocationService.isRevoked(makeToken('0x02'))).to.be.true;
+    });
+
+    it('should drop the oldest entries beyond the cache size', async () => {
+        await tokenRevocationService.isRevoked(makeToken('0x01'));
+        await tokenRevocationService.isRevoked(makeToken('0x02'));
+        await tokenRevocationService.isRevoked(makeToken('0x03'));
+        await tokenRevocationService.isRevoked(makeToken('0x01'));
+        expect(lookups).to.equal(4);
+    });
+
+    it('should reject a token never seen before the sessions were revoked', async () => {
+        expect(await tokenRevocationService.isRevoked(makeToken('0x04'), 1000)).to.be.true;
+        expect(await tokenRevocationService.isRevoked(makeToken('0x05', 999), 1000)).to.be.true;
+        expect(lookups).to.equal(0);
+    });
+
+    it('should accept a token created after the sessions were revoked', async () => {
+        expect(await tokenRevocationService.isRevoked(makeToken('0x06', 1001), 1000)).to.be.false;
+        expect(lookups).to.equal(1);
+    });
+
+    describe('minted tokens', () => {
+        const web3Service = new Web3Service(logger);
+        const authService = new AuthService(web3Service, logger);
+        const secret = config.web3.privateKey;
+
+        it('should accept a token minted after the sessions were revoked', async () => {
+            const authToken = authService.getAuthToken(`AMB_TOKEN ${web3Service.getToken(secret)}`);
+
+            expect(authToken.createdOn).to.be.a('number');
+            expect(await tokenRevocationService.isRevoked(authToken, getTimestamp() - 1)).to.be.false;
+        });
+
+        it('should reject a token without its creation time', () => {
+            const idData = { createdBy: web3Service.addressFromSecret(secret), validUntil: getTimestamp() + 3600 };
+            const token = authService.encode({ idData, signature: web3Service.sign(idData, secret) });
+
+            expect(() => authService.getAuthToken(`AMB_TOKEN ${token}`)).to.throw(ValidationError);
+        });
+    });
+});
@@ -0,0 +1,197 @@
+/* tslint:disable */
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+chai.use(chaiAsPromised);
+const { expect } = chai;
+
+import 'reflect-metadata';
+import { config } from '../../src/config';
+import { APIQuery } from '../../src/model';
+import { TransferService } from '../../src/service/transfer.service';
+import { Web3Service } from '../../src/service/web3.service';
+import { getTimestamp } from '../../src/util';
+import { ValidationError } from '../../src/errors';
+import { logger } from '../fixtures';
+
+// enough of the mongo query language for the queries of the transfer service
+const matches = (doc, query) => Object.keys(query).every(key => {
+    const condition = query[key];
+    if (key === '$or') {
+        return condition.some(option => matches(doc, option));
+    }
+    const value = doc[key];
+    if (condition !== null && typeof condition === 'object') {
+        if (condition.$in) {
+            return [].concat(value).some(item => condition.$in.indexOf(item) > -1);
+        }
+        if (condition.$gt !== undefined) {
+            return value > condition.$gt;
+        }
+    }
+    return value === condition;
+});
+
+const makeCollection = (docs: any[]) => ({
+    docs,
+    find: async (apiQuery: APIQuery) => docs.filter(doc => matches(doc, apiQuery.query)),
+    findOne: async (apiQuery: APIQuery) => docs.find(doc => matches(doc, apiQuery.query)) || null,
+    update: async (apiQuery: APIQuery, item) => {
+        const doc = docs.find(candidate => matches(candidate, apiQuery.query));
+        return doc ? Object.assign(doc, item) : null;
+    },
+    updateMany: async (apiQuery: APIQuery, item) => docs
+        .filter(doc => matches(doc, apiQuery.query))
+        .map(doc => Object.assign(doc, item))
+        .length,
+});
+
+describe('(Service) Transfer', () => {
+    const web3Service = new Web3Service(logger);
+    const address = web3Service.addressFromSecret(config.web3.privateKey);
+
+    const sender: any = { address, organizationId: 1, isSuperAdmin: false };
+    const receiver: any = { address, organizationId: 2, isSuperAdmin: false };
+
+    let transfers: any;
+    let assets: any;
+    let identifiers: any;
+    let states: any;
+
+    const makeService = (user): TransferService => new TransferService(
+        user,
+        {
+            ...transfers,
+            expirePending: async () => transfers.docs
+                .filter(doc => doc.status === 'pending' && doc.validUntil <= getTimestamp())
+                .map(doc => doc.status = 'expired'),
+            existsOR: async () => false,
+            create: async doc => transfers.docs.push({ ...doc }),
+        } as any,
+        {
+            ...assets,
+            transferOwnership: async (assetIds, from, to) => assets.docs
+                .filter(doc => assetIds.indexOf(doc.assetId) > -1 && doc.organizationId === from)
+                .map(doc => doc.organizationId = to)
+                .length,
+        } as any,
+        { findOne: async () => ({ active: true }) } as any,
+        identifiers,
+        states,
+        web3Service
+    );
+
+    const offer = (validUntil = getTimestamp() + 3600, user = sender) => {
+        const idData = { validUntil, assets: ['0x01', '0x02'], toOrganizationId: 2, createdBy: address, timestamp: getTimestamp() };
+        return makeService(user).offerTransfer({ idData, signature: web3Service.sign(idData) });
+    };
+
+    beforeEach(() => {
+        transfers = makeCollection([]);
+        assets = makeCollection([
+            { assetId: '0x01', organizationId: 1, sharedWith: [5] },
+            { assetId: '0x02', organizationId: 1, sharedWith: [] },
+        ]);
+        identifiers = makeCollection([
+            { assetId: '0x01', organizationId: 1, type: 'gtin', value: '01', serial: null, unique: true },
+        ]);
+        states = makeCollection([
+            { assetId: '0x01', organizationId: 1 },
+        ]);
+    });
+
+    it('should offer owned assets and reject a second offer of them', async () => {
+        const transfer = await offer();
+
+        expect(transfer.status).to.equal('pending');
+        expect(transfer.fromOrganizationId).to.equal(1);
+        await expect(offer()).to.be.rejectedWith(ValidationError);
+    });
+
+    it('should attribute the offer of a service account to it and its creator', async () => {
+        await offer(undefined, { ...sender, serviceAccount: { serviceAccountId: 'sa1' }, actingFor: '0xhuman' });
+
+        expect(transfers.docs[0]).to.include({ serviceAccountId: 'sa1', actingFor: '0xhuman' });
+    });
+
+    it('should move the assets on acceptance', async () => {
+        const { transferId } = await offer();
+
+        const transfer = await makeService(receiver).acceptTransfer(transferId);
+
+        expect(transfer.status).to.equal('accepted');
+        expect(assets.docs.map(asset => asset.organizationId)).to.deep.equal([2, 2]);
+        expect(assets.docs[0].sharedWith).to.deep.equal([]);
+        expect(identifiers.docs[0].organizationId).to.equal(2);
+        expect(states.docs[0].organizationId).to.equal(2);
+        await expect(makeService(receiver).acceptTransfer(transferId)).to.be.rejectedWith(ValidationError);
+    });
+
+    it('should keep the assets on rejection', async () => {
+        const { transferId } = await offer();
+
+        const transfer = await makeService(receiver).rejectTransfer(transferId);
+
+        expect(transfer.status).to.equal('rejected');
+        expect(assets.docs.map(asset => asset.organizationId)).to.deep.equal([1, 1]);
+    });
+
+    it('should not accept an expired offer', async () => {
+        const { transferId } = await offer();
+        transfers.docs[0].validUntil = getTimestamp() - 1;
+
+        await expect(makeService(receiver).acceptTransfer(transferId)).to.be.rejectedWith(ValidationError);
+        expect(transfers.docs[0].status).to.equal('expired');
+        expect(assets.docs.map(asset => asset.organizationId)).to.deep.equal([1, 1]);
+    });
+
+    it('should leave the offer pending when the sender lost an asset', async () => {
+        const { transferId } = await offer();
+        assets.docs[1].organizationId = 3;
+
+        await expect(makeService(receiver).acceptTransfer(transferId)).to.be.rejectedWith(ValidationError);
+        expect(transfers.docs[0].status).to.equal('pending');
+        expect(assets.docs[0].organizationId).to.equal(1);
+    });
+
+    it('should leave the offer pending when the receiver already uses an identifier', async () => {
+        const { transferId } = await offer();
+        identifiers.docs.push({ assetId: '0x09', organizationId: 2, type: 'gtin', value: '01', serial: null, unique: true });
+
+        await expect(makeService(receiver).acceptTransfer(transferId)).to.be.rejectedWith(ValidationError)
+            .and.eventually.have.nested.property('error.reason', 'Identifiers already used by the receiving organization: gtin:01');
+        expect(transfers.docs[0].status).to.equal('pending');
+        expect(assets.docs.map(asset => asset.organizationId)).to.deep.equal([1, 1]);
+    });
+
+    it('should move no asset when one changes owner during acceptance', async () => {
+        const { transferId } = await offer();
+        const service = makeService(receiver);
+        let checked = false;
+        // the asset leaves the sender right after the ownership check
+        (service as any).assetRepository.find = async apiQuery => {
+            const result = await assets.find(apiQuery);
+            if (!checked) {
+                checked = true;
+                assets.docs[1].organizationId = 3;
+            }
+            return result;
+        };
+
+        await expect(service.acceptTransfer(transferId)).to.be.rejectedWith(ValidationError)
+            .and.eventually.have.nested.property('error.reason', "Assets no longer owned by the sender's organization: 0x02");
+        expect(transfers.docs[0].status).to.equal('pending');
+        expect(assets.docs.map(asset => asset.organizationId)).to.deep.equal([1, 3]);
+        expect(assets.docs[0].sharedWith).to.deep.equal([5]);
+        expect(identifiers.docs[0].organizationId).to.equal(1);
+    });
+
+    it('should not cancel an offer while it is being accepted', async () => {
+        const { transferId } = await offer();
+        transfers.docs[0].status = 'accepting';
+
+        await expect(makeService(sender).cancelTransfer(transferId)).to.be.rejectedWith(ValidationError);
+        await expect(makeService(receiver).acceptTransfer(transferId)).to.be.rejectedWith(ValidationError);
+        expect(assets.docs.map(asset => asset.organizationId)).to.deep.equal([1, 1]);
+    });
+});
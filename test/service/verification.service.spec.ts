@@ -0,0 +1,95 @@
+/* tslint:disable */
+import * as chai from 'chai';
+
+const { expect } = chai;
+
+import 'reflect-metadata';
+import { config } from '../../src/config';
+import { VerificationService } from '../../src/service/verification.service';
+import { Web3Service } from '../../src/service/web3.service';
+import { logger } from '../fixtures';
+
+describe('(Service) Verification', () => {
+    const web3Service = new Web3Service(logger);
+    const user: any = { organizationId: 1, accessLevel: 0, isSuperAdmin: false };
+
+    const makeEvent = (data: object[], accessLevel = 0) => {
+        const idData = {
+            accessLevel,
+            assetId: `0x${'aa'.repeat(32)}`,
+            createdBy: web3Service.addressFromSecret(config.web3.privateKey),
+            timestamp: 1503424923,
+            dataHash: web3Service.calculateHash(data),
+        };
+        const signature = web3Service.sign(idData);
+        const eventId = web3Service.calculateHash({ idData, signature, data });
+
+        return { eventId, organizationId: 1, content: { idData, signature, data }, metadata: { bundleId: '0x01' } };
+    };
+
+    const makeService = (event, bundleEntry?) => new VerificationService(
+        user,
+        undefined,
+        { getEvent: async () => event } as any,
+        { findBundleEntry: async () => bundleEntry } as any,
+        { decrypt: async () => JSON.stringify({ type: 'ambrosus.event.note' }) } as any,
+        web3Service
+    );
+
+    const statuses = report => report.checks.reduce((result, check) => ({ ...result, [check.name]: check.status }), {});
+
+    it('should pass an untouched bundled event', async () => {
+        const event = makeEvent([{ type: 'ambrosus.event.note', text: 'ok' }]);
+        const entry = { eventId: event.eventId, content: { idData: event.content.idData, signature: event.content.signature } };
+
+        const report = await makeService(event, entry).verifyEvent(event.eventId);
+
+        expect(report.verified).to.be.true;
+        expect(statuses(report)).to.deep.equal({ dataHash: 'passed', eventId: 'passed', signature: 'passed', bundle: 'passed' });
+    });
+
+    it('should fail the hashes of changed data', async () => {
+        const event = makeEvent([{ type: 'ambrosus.event.note', text: 'ok' }]);
+        event.content.data = [{ type: 'ambrosus.event.note', text: 'changed' }];
+        event.metadata.bundleId = undefined;
+
+        const report = await makeService(event).verifyEvent(event.eventId);
+
+        expect(report.verified).to.be.false;
+        expect(statuses(report)).to.deep.equal({ dataHash: 'failed', eventId: 'failed', signature: 'passed', bundle: 'skipped' });
+        expect(report.checks[0].expected).to.equal(event.content.idData.dataHash);
+    });
+
+    it('should skip the hashes of data the caller cannot decrypt', async () => {
+        const event = makeEvent([{ type: 'ambrosus.event.note' }], 1);
+        event.content.data = [{ encrypted: 'secret' } as any];
+        event.metadata.bundleId = undefined;
+
+        const report = await makeService(event).verifyEvent(event.eventId);
+
+        expect(report.verified).to.be.true;
+        expect(report.checks[0]).to.deep.equal({ name: 'dataHash', status: 'skipped', reason: 'accessLevel.1.required' });
+    });
+
+    it('should fail a bundle entry with a different signed part', async () => {
+        const event = makeEvent([{ type: 'ambrosus.event.note' }]);
+        const entry = { eventId: event.eventId, content: { idData: { ...event.content.idData, timestamp: 1 }, signature: event.content.signature } };
+
+        const report = await makeService(event, entry).verifyEvent(event.eventId);
+
+        expect(report.verified).to.be.false;
+        expect(statuses(report).bundle).to.equal('failed');
+    });
+
+    it('should fail when the bundle misses the event', async () => {
+        const event = makeEvent([{ type: 'ambrosus.event.note' }]);
+
+        const report = await makeService(event, undefined).verifyEvent(event.eventId);
+
+        expect(report.checks.find(check => check.name === 'bundle')).to.deep.equal({
+            name: 'bundle',
+            status: 'failed',
+            reason: `Bundle 0x01 does not contain ${event.eventId}`,
+        });
+    });
+});
@@ -0,0 +1,40 @@
+/* tslint:disable */
+import * as chai from 'chai';
+
+const { expect } = chai;
+
+import { observeAnchoring } from '../../src/util/anchoring.util';
+
+const receipt = (blockNumber: number, blockHash: string, status = true) => ({ status, blockNumber, blockHash });
+
+describe('(Util) Anchoring', () => {
+
+    it('should be pending without a receipt', () => {
+        expect(observeAnchoring(undefined, undefined, 100, 12)).to.deep.equal({ status: 'pending', confirmations: 0 });
+    });
+
+    it('should count confirmations until confirmed', () => {
+        expect(observeAnchoring(undefined, receipt(95, '0xa'), 100, 12).status).to.equal('pending');
+        expect(observeAnchoring(undefined, receipt(95, '0xa'), 100, 12).confirmations).to.equal(6);
+        expect(observeAnchoring(undefined, receipt(89, '0xa'), 100, 12).status).to.equal('confirmed');
+    });
+
+    it('should report failed transactions', () => {
+        expect(observeAnchoring(undefined, receipt(80, '0xa', false), 100, 12).status).to.equal('failed');
+    });
+
+    it('should detect reorganisations', () => {
+        const mined = observeAnchoring(undefined, receipt(95, '0xa'), 100, 12);
+
+        expect(observeAnchoring(mined, undefined, 101, 12).status).to.equal('reorged');
+        expect(observeAnchoring(mined, receipt(96, '0xb'), 101, 12).status).to.equal('reorged');
+        expect(observeAnchoring(mined, receipt(95, '0xa'), 101, 12).status).to.equal('pending');
+    });
+
+    it('should track a transaction again after a reorganisation', () => {
+        const reorged = observeAnchoring(observeAnchoring(undefined, receipt(95, '0xa'), 100, 12), undefined, 101, 12);
+
+        expect(observeAnchoring(reorged, undefined, 102, 12).status).to.equal('pending');
+        expect(observeAnchoring(reorged, receipt(90, '0xb'), 102, 12).status).to.equal('confirmed');
+    });
+});
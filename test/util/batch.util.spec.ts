@@ -0,0 +1,49 @@
+/* tslint:disable */
+import * as chai from 'chai';
+
+const { expect } = chai;
+
+import { createBatch, getBatchSummary } from '../../src/util/batch.util';
+import { ValidationError } from '../../src/errors';
+
+describe('(Util) Batch', () => {
+
+    describe('createBatch', () => {
+
+        it('should report invalid items and keep the order of the items', async () => {
+            let created;
+            const results = await createBatch(
+                [{ eventId: '0x01' }, { eventId: '0x02' }, { eventId: '0x03' }],
+                'eventId',
+                item => {
+                    if (item.eventId === '0x02') {
+                        throw new ValidationError({ reason: 'Signature does not match' });
+                    }
+                },
+                async items => {
+                    created = items.map(item => item.eventId);
+                    return items.reverse().map(item => ({ eventId: item.eventId, success: true }));
+                }
+            );
+
+            expect(created).to.deep.equal(['0x01', '0x03']);
+            expect(results).to.deep.equal([
+                { eventId: '0x01', success: true },
+                { eventId: '0x02', success: false, reason: 'Signature does not match' },
+                { eventId: '0x03', success: true },
+            ]);
+            expect(getBatchSummary(results)).to.deep.equal({ created: 2, failed: 1 });
+        });
+
+        it('should not call create when every item is invalid', async () => {
+            const results = await createBatch(
+                [{ assetId: '0x01' }],
+                'assetId',
+                () => { throw new Error('content.idData is required'); },
+                async () => { throw new Error('unexpected'); }
+            );
+
+            expect(results).to.deep.equal([{ assetId: '0x01', success: false, reason: 'content.idData is required' }]);
+        });
+    });
+});
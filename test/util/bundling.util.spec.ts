@@ -0,0 +1,62 @@
+/* tslint:disable */
+import * as chai from 'chai';
+
+const { expect } = chai;
+
+import { isWithinWindows, nextBundleTime, nextWindowStart, parseTimeOfDay } from '../../src/util/bundling.util';
+
+// 2026-10-18 00:00:00 UTC
+const midnight = 1792281600;
+const at = (hours: number, minutes = 0) => midnight + (hours * 60 + minutes) * 60;
+
+const state = (changes: any = {}) => ({
+    minEntries: 100,
+    maxAge: 3600,
+    windows: [],
+    pendingEntries: 10,
+    oldestPendingTimestamp: at(9),
+    pushRequested: false,
+    ...changes,
+});
+
+describe('(Util) Bundling', () => {
+
+    it('should parse times of day', () => {
+        expect(parseTimeOfDay('00:00')).to.equal(0);
+        expect(parseTimeOfDay('23:59')).to.equal(86340);
+        expect(parseTimeOfDay('24:00')).to.be.undefined;
+        expect(parseTimeOfDay('9:00')).to.be.undefined;
+    });
+
+    it('should match windows over midnight', () => {
+        const windows = [{ from: '22:00', to: '02:00' }];
+
+        expect(isWithinWindows(windows, at(23))).to.be.true;
+        expect(isWithinWindows(windows, at(1, 59))).to.be.true;
+        expect(isWithinWindows(windows, at(2))).to.be.false;
+        expect(isWithinWindows([], at(12))).to.be.true;
+    });
+
+    it('should find the next window start', () => {
+        const windows = [{ from: '22:00', to: '02:00' }, { from: '12:00', to: '13:00' }];
+
+        expect(nextWindowStart(windows, at(3))).to.equal(at(12));
+        expect(nextWindowStart(windows, at(14))).to.equal(at(22));
+        expect(nextWindowStart(windows, at(12, 30))).to.equal(at(12, 30));
+    });
+
+    it('should bundle by age, size or push', () => {
+        expect(nextBundleTime(state(), at(9, 30))).to.deep.equal({ timestamp: at(10), reason: 'age' });
+        expect(nextBundleTime(state({ pendingEntries: 100 }), at(9, 30))).to.deep.equal({ timestamp: at(9, 30), reason: 'size' });
+        expect(nextBundleTime(state({ pendingEntries: 0, pushRequested: true }), at(9, 30)))
+            .to.deep.equal({ timestamp: at(9, 30), reason: 'push' });
+        expect(nextBundleTime(state({ pendingEntries: 0, oldestPendingTimestamp: undefined }), at(9, 30))).to.be.undefined;
+    });
+
+    it('should hold bundles until the next window', () => {
+        const windows = [{ from: '22:00', to: '02:00' }];
+
+        expect(nextBundleTime(state({ windows }), at(9, 30))).to.deep.equal({ timestamp: at(22), reason: 'age' });
+        expect(nextBundleTime(state({ windows, pushRequested: true }), at(9, 30)).timestamp).to.equal(at(9, 30));
+    });
+});
@@ -0,0 +1,53 @@
+/* tslint:disable */
+import * as chai from 'chai';
+
+const { expect } = chai;
+
+import { parseCsv, toCsvRow, toCsvValue } from '../../src/util/csv.util';
+
+describe('(Util) CSV', () => {
+
+    describe('parseCsv', () => {
+
+        it('should split records and values', () => {
+            expect(parseCsv('assetId,temperature\n0x1,20\n0x2,21')).to.deep.equal([
+                ['assetId', 'temperature'],
+                ['0x1', '20'],
+                ['0x2', '21'],
+            ]);
+        });
+
+        it('should accept CRLF line endings and skip empty lines', () => {
+            expect(parseCsv('a,b\r\n\r\n1,2\r\n')).to.deep.equal([['a', 'b'], ['1', '2']]);
+        });
+
+        it('should unquote values with separators, line breaks and escaped quotes', () => {
+            expect(parseCsv('a,b\n"x, y","say ""hi""\nbye"')).to.deep.equal([
+                ['a', 'b'],
+                ['x, y', 'say "hi"\nbye'],
+            ]);
+        });
+
+        it('should keep empty values', () => {
+            expect(parseCsv('a,b,c\n1,,\n')).to.deep.equal([['a', 'b', 'c'], ['1', '', '']]);
+        });
+
+        it('should read back written rows', () => {
+            const values = ['plain', 'with,comma', 'with "quotes"', 'multi\nline'];
+
+            expect(parseCsv(toCsvRow(values))).to.deep.equal([values]);
+        });
+    });
+
+    describe('toCsvValue', () => {
+
+        it('should prefix values spreadsheets would run as formulas', () => {
+            expect(['=SUM(A1)', '+1', '-cmd', '@A1', '\tx'].map(toCsvValue)).to.deep.equal(["'=SUM(A1)", "'+1", "'-cmd", "'@A1", "'\tx"]);
+            expect(toCsvValue('=1,2')).to.equal(`"'=1,2"`);
+        });
+
+        it('should keep negative numbers and plain text', () => {
+            expect([-5, 'a-b', 0].map(toCsvValue)).to.deep.equal(['-5', 'a-b', '0']);
+        });
+    });
+});
@@ -0,0 +1,33 @@
+/* tslint:disable */
+import * as chai from 'chai';
+
+const { expect } = chai;
+
+import { parseDigitalLink } from '../../src/util/digital-link.util';
+
+describe('(Util) GS1 Digital Link', () => {
+
+    it('should parse a GTIN with lot and serial', () => {
+        const digitalLink = parseDigitalLink('/01/9506000134352/10/L%2F5/21/A1');
+
+        expect(digitalLink.primaryKey).to.equal('01');
+        expect(digitalLink.identifiers).to.deep.equal([
+            { type: 'gtin', value: '09506000134352', serial: 'A1' },
+            { type: 'lot', value: 'L/5' },
+        ]);
+        expect(digitalLink.attributes).to.deep.equal({ lot: 'L/5', serial: 'A1' });
+    });
+
+    it('should skip a resolver prefix and accept short names', () => {
+        const digitalLink = parseDigitalLink('/products/scan/sscc/106141411234567897');
+
+        expect(digitalLink.identifiers).to.deep.equal([{ type: 'sscc', value: '106141411234567897' }]);
+    });
+
+    it('should reject invalid links', () => {
+        expect(parseDigitalLink('/01/9506000134353')).to.be.undefined;
+        expect(parseDigitalLink('/01/9506000134352/99/x')).to.be.undefined;
+        expect(parseDigitalLink('/01/9506000134352/21')).to.be.undefined;
+        expect(parseDigitalLink('/assets/0x01')).to.be.undefined;
+    });
+});
@@ -0,0 +1,74 @@
+/* tslint:disable */
+import * as chai from 'chai';
+
+const { expect } = chai;
+
+import { extractGeoLocation, getGeoFilter } from '../../src/util/geo.util';
+
+describe('(Util) Geo', () => {
+
+    describe('extractGeoLocation', () => {
+
+        it('should prefer the location entry', () => {
+            const location = extractGeoLocation([
+                { type: 'ambrosus.asset.info', latitude: 1, longitude: 2 },
+                { type: 'ambrosus.event.location', geoJson: { type: 'Point', coordinates: [10, 20] } },
+            ]);
+
+            expect(location).to.deep.equal({ type: 'Point', coordinates: [10, 20] });
+        });
+
+        it('should read latitude/longitude and lat/lng pairs', () => {
+            expect(extractGeoLocation([{ type: 'x', latitude: '52.5', longitude: '13.4' }]))
+                .to.deep.equal({ type: 'Point', coordinates: [13.4, 52.5] });
+            expect(extractGeoLocation([{ type: 'x', lat: 52.5, lng: 13.4 }]))
+                .to.deep.equal({ type: 'Point', coordinates: [13.4, 52.5] });
+        });
+
+        it('should skip coordinates out of range', () => {
+            expect(extractGeoLocation([{ type: 'x', latitude: 91, longitude: 0 }])).to.be.undefined;
+            expect(extractGeoLocation([{ type: 'x', geoJson: { type: 'Point', coordinates: [181, 0] } }])).to.be.undefined;
+        });
+
+        it('should skip empty or non-numeric coordinates', () => {
+            expect(extractGeoLocation([{ type: 'x', latitude: '', longitude: '' }])).to.be.undefined;
+            expect(extractGeoLocation([{ type: 'x', lat: null, lng: null }])).to.be.undefined;
+            expect(extractGeoLocation([{ type: 'x', latitude: 'north', longitude: '13.4' }])).to.be.undefined;
+            expect(extractGeoLocation([
+                { type: 'x', latitude: ' ', longitude: ' ' },
+                { type: 'y', lat: 52.5, lng: 13.4 },
+            ])).to.deep.equal({ type: 'Point', coordinates: [13.4, 52.5] });
+        });
+
+        it('should ignore data that is not an array', () => {
+            expect(extractGeoLocation(undefined)).to.be.undefined;
+        });
+    });
+
+    describe('getGeoFilter', () => {
+
+        it('should build a near filter with distances', () => {
+            expect(getGeoFilter('near', { longitude: 13.4, latitude: 52.5, maxDistance: '100' })).to.deep.equal({
+                $nearSphere: { $geometry: { type: 'Point', coordinates: [13.4, 52.5] }, $maxDistance: 100 },
+            });
+        });
+
+        it('should convert a radius in meters to radians', () => {
+            const filter: any = getGeoFilter('within-radius', { longitude: 0, latitude: 0, radius: 6378100 });
+
+            expect(filter.$geoWithin.$centerSphere).to.deep.equal([[0, 0], 1]);
+            expect(getGeoFilter('within-radius', { longitude: 0, latitude: 0, radius: 0 })).to.be.undefined;
+        });
+
+        it('should close an open polygon', () => {
+            const filter: any = getGeoFilter('within-polygon', [[0, 0], [1, 0], [1, 1]]);
+
+            expect(filter.$geoWithin.$geometry.coordinates[0]).to.deep.equal([[0, 0], [1, 0], [1, 1], [0, 0]]);
+            expect(getGeoFilter('within-polygon', [[0, 0], [1, 0]])).to.be.undefined;
+        });
+
+        it('should reject unknown operators', () => {
+            expect(getGeoFilter('box', { longitude: 0, latitude: 0 })).to.be.undefined;
+        });
+    });
+});
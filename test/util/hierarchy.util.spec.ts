@@ -0,0 +1,39 @@
+/* tslint:disable */
+import * as chai from 'chai';
+
+const { expect } = chai;
+
+import { extractContainment, isAggregation } from '../../src/util/hierarchy.util';
+
+describe('(Util) Hierarchy', () => {
+
+    describe('extractContainment', () => {
+
+        it('should return aggregations with their unique children', () => {
+            const containment = extractContainment([
+                { type: 'ambrosus.asset.info', name: 'Pallet' },
+                { type: 'ambrosus.event.aggregation', children: ['0x01', '0x02', '0x01', '', 5] },
+            ]);
+
+            expect(containment).to.deep.equal([{ type: 'ambrosus.event.aggregation', children: ['0x01', '0x02'] }]);
+            expect(isAggregation(containment[0])).to.be.true;
+        });
+
+        it('should drop aggregations without children', () => {
+            expect(extractContainment([
+                { type: 'ambrosus.event.aggregation', children: [] },
+                { type: 'ambrosus.event.aggregation' },
+            ])).to.deep.equal([]);
+        });
+
+        it('should keep a disaggregation without children to unpack everything', () => {
+            expect(extractContainment([{ type: 'ambrosus.event.disaggregation' }])).to.deep.equal([
+                { type: 'ambrosus.event.disaggregation', children: undefined },
+            ]);
+        });
+
+        it('should return nothing for missing data', () => {
+            expect(extractContainment(undefined)).to.deep.equal([]);
+        });
+    });
+});
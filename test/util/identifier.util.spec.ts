@@ -0,0 +1,58 @@
+/* tslint:disable */
+import * as chai from 'chai';
+
+const { expect } = chai;
+
+import { extractTypedIdentifiers, isUniqueIdentifier, normalizeIdentifier } from '../../src/util/identifier.util';
+
+describe('(Util) Identifiers', () => {
+
+    describe('normalizeIdentifier', () => {
+
+        it('should pad valid GTINs to 14 digits', () => {
+            expect(normalizeIdentifier('gtin', '9506000134352')).to.equal('09506000134352');
+            expect(normalizeIdentifier('gtin', '09506000134352')).to.equal('09506000134352');
+        });
+
+        it('should reject GTINs with a wrong check digit', () => {
+            expect(normalizeIdentifier('gtin', '9506000134353')).to.be.undefined;
+            expect(normalizeIdentifier('gtin', '12345')).to.be.undefined;
+        });
+
+        it('should validate SSCCs', () => {
+            expect(normalizeIdentifier('sscc', '106141411234567897')).to.equal('106141411234567897');
+            expect(normalizeIdentifier('sscc', '106141411234567890')).to.be.undefined;
+        });
+
+        it('should lower-case the EPC scheme', () => {
+            expect(normalizeIdentifier('epc', 'urn:epc:id:SGTIN:0614141.112345.400'))
+                .to.equal('urn:epc:id:sgtin:0614141.112345.400');
+            expect(normalizeIdentifier('epc', 'sgtin:0614141.112345.400')).to.be.undefined;
+        });
+    });
+
+    describe('extractTypedIdentifiers', () => {
+
+        it('should combine serials with GTINs', () => {
+            const identifiers = extractTypedIdentifiers([{
+                type: 'ambrosus.asset.identifiers',
+                identifiers: { GTIN: ['9506000134352'], serial: ['A1'], batch: 'L5' },
+            }]);
+
+            expect(identifiers).to.deep.equal([
+                { type: 'gtin', serial: 'A1', value: '09506000134352' },
+                { type: 'batch', value: 'L5' },
+            ]);
+            expect(identifiers.map(identifier => isUniqueIdentifier(identifier))).to.deep.equal([true, false]);
+        });
+
+        it('should return invalid identifiers without a value', () => {
+            const identifiers = extractTypedIdentifiers([{
+                type: 'ambrosus.asset.identifiers',
+                identifiers: { sscc: '1234' },
+            }]);
+
+            expect(identifiers).to.deep.equal([{ type: 'sscc', value: undefined }]);
+        });
+    });
+});
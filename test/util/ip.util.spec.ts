@@ -0,0 +1,41 @@
+/* tslint:disable */
+import * as chai from 'chai';
+
+const { expect } = chai;
+
+import { isIpAllowed, isValidIpRule } from '../../src/util/ip.util';
+
+describe('(Util) IP allowlist', () => {
+
+    it('should allow everyone without rules', () => {
+        expect(isIpAllowed([], '10.0.0.1')).to.be.true;
+        expect(isIpAllowed(undefined, '10.0.0.1')).to.be.true;
+    });
+
+    it('should match single addresses', () => {
+        expect(isIpAllowed(['10.0.0.1'], '10.0.0.1')).to.be.true;
+        expect(isIpAllowed(['10.0.0.1'], '::ffff:10.0.0.1')).to.be.true;
+        expect(isIpAllowed(['10.0.0.1'], '10.0.0.2')).to.be.false;
+        expect(isIpAllowed(['2001:db8::1'], '2001:DB8::1')).to.be.true;
+    });
+
+    it('should match IPv4 ranges', () => {
+        expect(isIpAllowed(['192.168.4.0/22'], '192.168.7.255')).to.be.true;
+        expect(isIpAllowed(['192.168.4.0/22'], '192.168.8.0')).to.be.false;
+        expect(isIpAllowed(['0.0.0.0/0'], '8.8.8.8')).to.be.true;
+        expect(isIpAllowed(['192.168.4.0/22'], '2001:db8::1')).to.be.false;
+    });
+
+    it('should reject a missing address when rules are set', () => {
+        expect(isIpAllowed(['10.0.0.1'], undefined)).to.be.false;
+    });
+
+    it('should validate rules', () => {
+        expect(isValidIpRule('10.0.0.1')).to.be.true;
+        expect(isValidIpRule('10.0.0.0/8')).to.be.true;
+        expect(isValidIpRule('2001:db8::1')).to.be.true;
+        expect(isValidIpRule('10.0.0.256')).to.be.false;
+        expect(isValidIpRule('10.0.0.0/33')).to.be.false;
+        expect(isValidIpRule('localhost')).to.be.false;
+    });
+});
@@ -0,0 +1,46 @@
+/* tslint:disable */
+import * as chai from 'chai';
+
+const { expect } = chai;
+
+import { merkleLeaf, merkleProof, merkleRoot, merkleRootFromProof } from '../../src/util/merkle.util';
+
+const entryIds = (count: number) =>
+    Array.from({ length: count }, (value, index) => `0x${`0000000000000000${index + 1}`.slice(-16)}${'ab'.repeat(24)}`);
+
+describe('(Util) Merkle', () => {
+
+    it('should use the leaf as the root of a single entry', () => {
+        const [entryId] = entryIds(1);
+
+        expect(merkleRoot([merkleLeaf(entryId)])).to.equal(merkleLeaf(entryId));
+        expect(merkleProof([merkleLeaf(entryId)], 0)).to.deep.equal([]);
+    });
+
+    it('should prove every entry of uneven trees', () => {
+        for (let count = 2; count <= 7; count += 1) {
+            const ids = entryIds(count);
+            const leaves = ids.map(merkleLeaf);
+            const root = merkleRoot(leaves);
+
+            ids.map((entryId, index) => {
+                expect(merkleRootFromProof(entryId, merkleProof(leaves, index))).to.equal(root);
+            });
+        }
+    });
+
+    it('should not prove an entry with the path of another', () => {
+        const ids = entryIds(4);
+        const leaves = ids.map(merkleLeaf);
+
+        expect(merkleRootFromProof(ids[1], merkleProof(leaves, 0))).to.not.equal(merkleRoot(leaves));
+    });
+
+    it('should not accept an inner node as an entry', () => {
+        const ids = entryIds(4);
+        const leaves = ids.map(merkleLeaf);
+        const innerNode = merkleRoot(leaves.slice(0, 2));
+
+        expect(merkleRootFromProof(innerNode, merkleProof(leaves, 0).slice(1))).to.not.equal(merkleRoot(leaves));
+    });
+});
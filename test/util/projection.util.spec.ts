@@ -0,0 +1,68 @@
+/* tslint:disable */
+import * as chai from 'chai';
+
+const { expect } = chai;
+
+import { getProjectionMode, projectEvent } from '../../src/util/projection.util';
+
+const emptyState = () => ({ properties: {}, timestamps: {}, eventCount: 0 });
+
+const event = (eventId: string, timestamp: number, data: any[], geoLocation?: any) =>
+    ({ eventId, timestamp, data, geoLocation });
+
+describe('(Util) Projection', () => {
+
+    describe('getProjectionMode', () => {
+
+        it('should merge unknown types', () => {
+            expect(getProjectionMode({}, 'ambrosus.asset.info')).to.equal('merge');
+        });
+
+        it('should ignore containment unless configured', () => {
+            expect(getProjectionMode({}, 'ambrosus.event.aggregation')).to.equal('ignore');
+            expect(getProjectionMode({ 'ambrosus.event.aggregation': 'append' }, 'ambrosus.event.aggregation'))
+                .to.equal('append');
+        });
+    });
+
+    describe('projectEvent', () => {
+
+        it('should keep the latest value of every field regardless of order', () => {
+            const older = event('0x01', 10, [{ type: 'info', name: 'old', color: 'red' }]);
+            const newer = event('0x02', 20, [{ type: 'info', name: 'new' }]);
+
+            const inOrder = projectEvent(projectEvent(emptyState(), older, {}), newer, {});
+            const reversed = projectEvent(projectEvent(emptyState(), newer, {}), older, {});
+
+            expect(inOrder.properties).to.deep.equal({ info: { name: 'new', color: 'red' } });
+            expect(reversed.properties).to.deep.equal(inOrder.properties);
+            expect(reversed.lastEventId).to.equal('0x02');
+            expect(reversed.eventCount).to.equal(2);
+        });
+
+        it('should append entries newest first', () => {
+            const modes = { reading: 'append' };
+            const state = projectEvent(
+                projectEvent(emptyState(), event('0x02', 20, [{ type: 'reading', value: 2 }]), modes),
+                event('0x01', 10, [{ type: 'reading', value: 1 }]),
+                modes
+            );
+
+            expect(state.properties['reading'].map(entry => entry.data.value)).to.deep.equal([2, 1]);
+        });
+
+        it('should skip ignored types', () => {
+            const state = projectEvent(emptyState(), event('0x01', 10, [{ type: 'note', text: 'x' }]), { note: 'ignore' });
+
+            expect(state.properties).to.deep.equal({});
+            expect(state.eventCount).to.equal(1);
+        });
+
+        it('should keep the latest location', () => {
+            const newer = projectEvent(emptyState(), event('0x02', 20, [], { type: 'Point', coordinates: [1, 2] }), {});
+            const state = projectEvent(newer, event('0x01', 10, [], { type: 'Point', coordinates: [3, 4] }), {});
+
+            expect(state.location).to.deep.equal({ type: 'Point', coordinates: [1, 2], timestamp: 20 });
+        });
+    });
+});
@@ -0,0 +1,57 @@
+/* tslint:disable */
+import * as chai from 'chai';
+
+const { expect } = chai;
+
+import { getFieldValues, getMatchedFields, getSearchTerms } from '../../src/util/search.util';
+
+describe('(Util) Search', () => {
+
+    describe('getSearchTerms', () => {
+
+        it('should lowercase the words and strip punctuation', () => {
+            expect(getSearchTerms('Red  "Apple," box')).to.deep.equal(['red', 'apple', 'box']);
+        });
+
+        it('should skip excluded words', () => {
+            expect(getSearchTerms('apple -pear')).to.deep.equal(['apple']);
+        });
+
+        it('should return no terms for empty text', () => {
+            expect(getSearchTerms('')).to.deep.equal([]);
+            expect(getSearchTerms(undefined)).to.deep.equal([]);
+        });
+    });
+
+    describe('getFieldValues', () => {
+
+        it('should flatten arrays along the path', () => {
+            const doc = { content: { data: [{ name: 'a' }, { name: ['b', 'c'] }, { type: 'x' }] } };
+
+            expect(getFieldValues(doc, 'content.data.name')).to.deep.equal(['a', 'b', 'c']);
+        });
+
+        it('should return no values for a missing path', () => {
+            expect(getFieldValues({ content: null }, 'content.data.name')).to.deep.equal([]);
+        });
+    });
+
+    describe('getMatchedFields', () => {
+
+        const doc = {
+            assetId: '0x1',
+            content: { data: [{ name: 'Red apples', description: 'Box of pears' }] },
+        };
+
+        it('should return the fields containing a searched word', () => {
+            const fields = ['content.data.name', 'content.data.description', 'assetId'];
+
+            expect(getMatchedFields(doc, fields, 'APPLES')).to.deep.equal(['content.data.name']);
+            expect(getMatchedFields(doc, fields, 'apples pears')).to.deep.equal(['content.data.name', 'content.data.description']);
+        });
+
+        it('should match whole words only', () => {
+            expect(getMatchedFields(doc, ['content.data.name'], 'apple')).to.deep.equal([]);
+        });
+    });
+});
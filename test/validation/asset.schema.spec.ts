@@ -0,0 +1,45 @@
+/* tslint:disable */
+import * as Ajv from 'ajv';
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+import { assetSchema } from '../../src/validation';
+
+chai.use(chaiAsPromised);
+const { expect } = chai;
+
+const ajv = new Ajv({ allErrors: true });
+
+const assets = (count: number) => Array.from({ length: count }, (_, index) => ({ assetId: `0x${index}`, content: {} }));
+
+describe('(Schema) Assets', () => {
+    let test: any;
+
+    before(() => {
+        test = ajv.compile(assetSchema.assetCreateBatch);
+    });
+
+    describe('Asset create batch', () => {
+
+        it('should accept up to 500 assets', async () => {
+            const validated = await test({ assets: assets(500) });
+
+            expect(validated.assets.length).to.equal(500);
+        });
+
+        it('should reject more than 500 assets', async () => {
+            const error = await expect(test({ assets: assets(501) })).to.be.rejected;
+
+            expect(error.errors.map(item => item.keyword)).to.deep.equal(['maxItems']);
+        });
+
+        it('should reject assets with unknown properties or without content', async () => {
+            const error = await expect(test({ assets: [{ assetId: '0x01', content: {}, organizationId: 2 }, { assetId: '0x02' }] })).to.be.rejected;
+
+            expect(error.errors.map(item => `${item.dataPath} ${item.keyword}`)).to.have.members([
+                '.assets[0] additionalProperties',
+                '.assets[1] required',
+            ]);
+        });
+    });
+});
@@ -0,0 +1,73 @@
+/* tslint:disable */
+import * as Ajv from 'ajv';
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+import { eventSchema } from '../../src/validation';
+
+chai.use(chaiAsPromised);
+const { expect } = chai;
+
+const ajv = new Ajv({ allErrors: true });
+
+describe('(Schema) Events', () => {
+    let test: any;
+
+    before(() => {
+        test = ajv.compile(eventSchema.eventCreateBatch);
+    });
+
+    describe('Event create batch', () => {
+
+        it('should fail with no events provided', async () => {
+            try {
+                await test({});
+            } catch (error) {
+                expect(error).to.haveOwnProperty('errors');
+
+                const data: any = {};
+                error.errors.map(error => data[error.params.missingProperty] = error);
+
+                expect(data.events).to.exist;
+            }
+        });
+
+        it('should fail with empty events array', async () => {
+            try {
+                await test({ events: [] });
+            } catch (error) {
+                expect(error).to.haveOwnProperty('errors');
+                expect(error.errors[0].keyword).to.equal('minItems');
+            }
+        });
+
+        it('should fail with event missing eventId', async () => {
+            try {
+                await test({ events: [{ content: {} }] });
+            } catch (error) {
+                expect(error).to.haveOwnProperty('errors');
+
+                const data: any = {};
+                error.errors.map(error => data[error.params.missingProperty] = error);
+
+                expect(data.eventId).to.exist;
+            }
+        });
+
+        it('should succeed with valid events', async () => {
+            try {
+                const validate = await test({
+                    events: [
+                        { eventId: '0x01', content: {} },
+                        { eventId: '0x02', content: {} },
+                    ]
+                });
+
+                expect(validate.events.length).to.equal(2);
+            } catch (error) {
+                expect(error).to.not.haveOwnProperty('errors');
+            }
+        });
+
+    });
+});
@@ -0,0 +1,58 @@
+/* tslint:disable */
+import * as Ajv from 'ajv';
+import * as chai from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+
+import { exportSchema } from '../../src/validation';
+
+chai.use(chaiAsPromised);
+const { expect } = chai;
+
+const ajv = new Ajv({ allErrors: true });
+
+describe('(Schema) Export', () => {
+    let test: any;
+
+    before(() => {
+        test = ajv.compile(exportSchema.eventExport);
+    });
+
+    describe('Event export', () => {
+
+        it('should fail with unknown format', async () => {
+            try {
+                await test({ format: 'xlsx' });
+            } catch (error) {
+                expect(error).to.haveOwnProperty('errors');
+                expect(error.errors[0].keyword).to.equal('enum');
+            }
+        });
+
+        it('should fail with column without path or type', async () => {
+            try {
+                await test({ format: 'csv', columns: [{ name: 'temperature' }] });
+            } catch (error) {
+                expect(error).to.haveOwnProperty('errors');
+                expect(error.errors.map(e => e.keyword)).to.include('oneOf');
+            }
+        });
+
+        it('should succeed with data and path columns', async () => {
+            try {
+                const validate = await test({
+                    format: 'csv',
+                    assets: ['0x01'],
+                    columns: [
+                        { name: 'eventId', path: 'eventId' },
+                        { name: 'temperature', type: 'com.example.temperature', field: 'value' },
+                    ]
+                });
+
+                expect(validate.columns.length).to.equal(2);
+            } catch (error) {
+                expect(error).to.not.haveOwnProperty('errors');
+            }
+        });
+
+    });
+});
@@ -0,0 +1,37 @@
+/* tslint:disable */
+import * as chai from 'chai';
+
+const { expect } = chai;
+
+import { validate } from '../../src/middleware/validation.middleware';
+import { assetSchema, bundleSchema } from '../../src/validation';
+
+const run = (middleware, req): Promise<any> =>
+    new Promise(resolve => middleware(req, {}, error => resolve(error)));
+
+describe('(Validation) Middleware', () => {
+
+    describe('query params', () => {
+
+        it('should convert numeric values, zero included', async () => {
+            const req: any = { body: {}, query: { at: '0', depth: '3' } };
+
+            expect(await run(validate(assetSchema.assetHierarchy, { queryParamsOnly: true }), req)).to.be.undefined;
+            expect(req.query).to.deep.equal({ at: 0, depth: 3 });
+        });
+
+        it('should accept the first page of bundle entries', async () => {
+            const req: any = { body: {}, query: { offset: '0', limit: '50' } };
+
+            expect(await run(validate(bundleSchema.bundleEntries, { queryParamsOnly: true }), req)).to.be.undefined;
+            expect(req.query).to.deep.equal({ offset: 0, limit: 50 });
+        });
+
+        it('should keep other values as strings', async () => {
+            const req: any = { body: {}, query: { at: '0x10' } };
+
+            expect(await run(validate(assetSchema.assetHierarchy, { queryParamsOnly: true }), req)).to.exist;
+            expect(req.query).to.deep.equal({ at: '0x10' });
+        });
+    });
+});